@@ -13,7 +13,7 @@ import {
 } from '@txnlab/use-wallet'
 import algosdk from 'algosdk'
 import * as React from 'react'
-import { Wallet, WalletProvider, useWallet, useNetwork } from '../index'
+import { Wallet, WalletProvider, useWallet, useNetwork, useIndexer } from '../index'
 
 const mocks = vi.hoisted(() => {
   return {
@@ -97,7 +97,7 @@ describe('WalletProvider', () => {
 
   it('resumes sessions on mount', () => {
     const mockResumeSessions = vi.fn()
-    const fakeManager = { resumeSessions: mockResumeSessions }
+    const fakeManager = { resumeSessions: mockResumeSessions, destroy: vi.fn(), store: mockStore }
 
     render(
       <WalletProvider manager={fakeManager as unknown as WalletManager}>
@@ -107,6 +107,40 @@ describe('WalletProvider', () => {
 
     expect(mockResumeSessions).toHaveBeenCalled()
   })
+
+  it('destroys the manager on unmount', () => {
+    const fakeManager = { resumeSessions: vi.fn(), destroy: vi.fn(), store: mockStore }
+
+    const { unmount } = render(
+      <WalletProvider manager={fakeManager as unknown as WalletManager}>
+        <div />
+      </WalletProvider>
+    )
+    unmount()
+
+    expect(fakeManager.destroy).toHaveBeenCalled()
+  })
+
+  it('resumes sessions once in StrictMode, restarting background work on remount', () => {
+    const fakeManager = {
+      resumeSessions: vi.fn(),
+      start: vi.fn(),
+      destroy: vi.fn(),
+      store: mockStore
+    }
+
+    render(
+      <React.StrictMode>
+        <WalletProvider manager={fakeManager as unknown as WalletManager}>
+          <div />
+        </WalletProvider>
+      </React.StrictMode>
+    )
+
+    expect(fakeManager.resumeSessions).toHaveBeenCalledTimes(1)
+    expect(fakeManager.destroy).toHaveBeenCalledTimes(1)
+    expect(fakeManager.start).toHaveBeenCalledTimes(1)
+  })
 })
 
 describe('useNetwork', () => {
@@ -334,6 +368,11 @@ describe('useNetwork', () => {
         token: '',
         headers: {}
       },
+      indexer: {
+        baseServer: 'https://testnet-idx.4160.nodely.dev',
+        token: '',
+        headers: {}
+      },
       isTestnet: true,
       genesisHash: 'SGO1GKSzyE7IEPItTxCByw9x8FmnrCDexi9/cOUJOiI=',
       genesisId: 'testnet-v1.0',
@@ -415,6 +454,133 @@ describe('useNetwork', () => {
       )
     })
   })
+  describe('algod health', () => {
+    it('follows the algodClient and algodHealth set by the health checker', () => {
+      const useTestHooks = () => {
+        const network = useNetwork()
+        const wallet = useWallet()
+        return { network, wallet }
+      }
+
+      const { result } = renderHook(() => useTestHooks(), { wrapper })
+      const fallbackClient = new algosdk.Algodv2('', 'https://backup.test', '')
+      const algodHealth = {
+        networkId: NetworkId.TESTNET,
+        activeEndpoint: 1,
+        endpoints: [
+          { baseServer: 'https://primary.test', status: 'unhealthy' as const },
+          { baseServer: 'https://backup.test', status: 'healthy' as const }
+        ]
+      }
+
+      act(() => {
+        mockStore.setState((state) => ({ ...state, algodClient: fallbackClient, algodHealth }))
+      })
+
+      expect(result.current.wallet.algodClient).toBe(fallbackClient)
+      expect(result.current.network.algodHealth).toEqual(algodHealth)
+      expect(mockWalletManager.algodClient).toBe(fallbackClient)
+    })
+
+    it('calls checkAlgodHealth on the manager', async () => {
+      const { result } = renderHook(() => useNetwork(), { wrapper })
+      const checkAlgodHealthSpy = vi
+        .spyOn(mockWalletManager, 'checkAlgodHealth')
+        .mockResolvedValue(mockStore.state.algodHealth)
+
+      await act(async () => {
+        await result.current.checkAlgodHealth()
+      })
+
+      expect(checkAlgodHealthSpy).toHaveBeenCalled()
+    })
+  })
+
+  it('updates networkConfig when a network is added or removed', () => {
+    const { result } = renderHook(() => useNetwork(), { wrapper })
+    const privateNetwork = { algod: { token: '', baseServer: 'https://private-node.test' } }
+
+    act(() => {
+      result.current.addNetwork('private', privateNetwork)
+    })
+    expect(result.current.networkConfig.private).toEqual(privateNetwork)
+
+    act(() => {
+      result.current.removeNetwork('private')
+    })
+    expect(result.current.networkConfig.private).toBeUndefined()
+  })
+})
+
+describe('useIndexer', () => {
+  let mockWalletManager: WalletManager
+  let wrapper: React.FC<{ children: React.ReactNode }>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockStore.setState(() => DEFAULT_STATE)
+    mockWalletManager = new WalletManager()
+    mockWalletManager.store = mockStore
+
+    wrapper = ({ children }: { children: React.ReactNode }) => (
+      <WalletProvider manager={mockWalletManager}>{children}</WalletProvider>
+    )
+  })
+
+  it('throws an error when used outside of WalletProvider', () => {
+    const TestComponent = () => {
+      try {
+        useIndexer()
+        return <div>No error thrown</div>
+      } catch (error: any) {
+        return <div>{error.message}</div>
+      }
+    }
+
+    render(<TestComponent />)
+    expect(
+      screen.getByText('useIndexer must be used within the WalletProvider')
+    ).toBeInTheDocument()
+  })
+
+  it('updates indexerClient when the active network changes', async () => {
+    const useTestHooks = () => {
+      const network = useNetwork()
+      const indexer = useIndexer()
+      return { network, indexer }
+    }
+
+    const { result } = renderHook(() => useTestHooks(), { wrapper })
+    expect(result.current.indexer.indexerClient).toBe(mockStore.state.indexerClient)
+
+    await act(async () => {
+      await result.current.network.setActiveNetwork(NetworkId.MAINNET)
+    })
+
+    const { token, baseServer, port, headers } = mockWalletManager.networkConfig.mainnet.indexer!
+    expect(result.current.indexer.indexerClient).toEqual(
+      new algosdk.Indexer(token, baseServer, port ?? '', headers)
+    )
+  })
+
+  it('updates indexerClient when the active network config is updated', () => {
+    const { result } = renderHook(() => useIndexer(), { wrapper })
+    const initialClient = result.current.indexerClient
+
+    act(() => {
+      result.current.updateIndexerConfig(NetworkId.TESTNET, {
+        baseServer: 'https://new-indexer.com'
+      })
+    })
+
+    expect(mockWalletManager.networkConfig.testnet.indexer?.baseServer).toBe(
+      'https://new-indexer.com'
+    )
+    expect(result.current.indexerClient).not.toBe(initialClient)
+    expect(result.current.indexerClient).toEqual(
+      new algosdk.Indexer('', 'https://new-indexer.com', '', {})
+    )
+  })
 })
 
 describe('useWallet', () => {
@@ -437,6 +603,8 @@ describe('useWallet', () => {
         activeAccount: null,
         isConnected: false,
         isActive: false,
+        status: 'idle',
+        error: null,
         connect: expect.any(Function),
         disconnect: expect.any(Function),
         setActive: expect.any(Function),
@@ -451,6 +619,8 @@ describe('useWallet', () => {
         activeAccount: null,
         isConnected: false,
         isActive: false,
+        status: 'idle',
+        error: null,
         connect: expect.any(Function),
         disconnect: expect.any(Function),
         setActive: expect.any(Function),
@@ -546,6 +716,8 @@ describe('useWallet', () => {
 
   it('calls signTransactions and transactionSigner correctly', async () => {
     const { result } = renderHook(() => useWallet(), { wrapper })
+    const signer = vi.fn().mockResolvedValue([])
+    vi.spyOn(mockWalletManager, 'transactionSigner', 'get').mockReturnValue(signer)
 
     // Set an active wallet and account
     act(() => {
@@ -575,8 +747,44 @@ describe('useWallet', () => {
       await result.current.transactionSigner([], [])
     })
 
-    expect(mocks.signTransactions).toHaveBeenCalledWith([], [])
-    expect(mocks.transactionSigner).toHaveBeenCalledWith([], [])
+    expect(mocks.signTransactions).toHaveBeenCalledWith([], [], undefined)
+    expect(signer).toHaveBeenCalledWith([], [])
+  })
+
+  it('calls signAndSend on the manager', async () => {
+    const { result } = renderHook(() => useWallet(), { wrapper })
+    const sendResult = { txIds: [], confirmedRound: BigInt(1), returnLogs: [], confirmations: [] }
+    const signAndSend = vi.spyOn(mockWalletManager, 'signAndSend').mockResolvedValue(sendResult)
+
+    act(() => {
+      mockStore.setState((state) => ({ ...state, activeWallet: WalletId.DEFLY }))
+    })
+
+    await act(async () => {
+      await expect(result.current.signAndSend([], { waitRounds: 10 })).resolves.toBe(sendResult)
+    })
+
+    expect(signAndSend).toHaveBeenCalledWith([], { waitRounds: 10 })
+  })
+
+  it('updates trackedTransactions when a tracked group changes', () => {
+    const { result } = renderHook(() => useWallet(), { wrapper })
+    const group = {
+      networkId: 'testnet',
+      txIds: ['txid1'],
+      lastValid: 1000,
+      status: 'confirmed' as const,
+      confirmedRound: 900,
+      submittedAt: 0
+    }
+
+    expect(result.current.trackedTransactions).toEqual({})
+
+    act(() => {
+      mockStore.setState((state) => ({ ...state, trackedTransactions: { txid1: group } }))
+    })
+
+    expect(result.current.trackedTransactions).toEqual({ txid1: group })
   })
 
   it('updates wallets when store state changes', async () => {
@@ -3,13 +3,20 @@ import {
   NetworkId,
   SignDataResponse,
   SignMetadata,
+  type SendTransactionsResult,
+  type SignAndSendOptions,
+  type SignRequestOptions,
   WalletId,
   WalletManager,
   type AlgodConfig,
+  type AlgodHealth,
+  type IndexerConfig,
+  type NetworkConfig,
   type BaseWallet,
   type WalletAccount,
   type WalletKey,
-  type WalletMetadata
+  type WalletMetadata,
+  type WalletStatus
 } from '@txnlab/use-wallet'
 import algosdk from 'algosdk'
 import * as React from 'react'
@@ -36,13 +43,25 @@ export const WalletProvider = ({ manager, children }: WalletProviderProps): JSX.
     manager.algodClient = algodClient
   }, [algodClient, manager])
 
+  // Follow the store when the health checker switches to another algod endpoint
+  const storeAlgodClient = useStore(manager.store, (state) => state.algodClient)
+
+  React.useEffect(() => {
+    setAlgodClient(storeAlgodClient)
+  }, [storeAlgodClient])
+
   const resumedRef = React.useRef(false)
 
+  // Resume sessions once, and stop the manager's background work on unmount. If the
+  // provider is mounted again (e.g. by StrictMode), only the background work is restarted.
   React.useEffect(() => {
     if (!resumedRef.current) {
       manager.resumeSessions()
       resumedRef.current = true
+    } else {
+      manager.start()
     }
+    return () => manager.destroy()
   }, [manager])
 
   return (
@@ -62,6 +81,8 @@ export const useNetwork = () => {
   const { manager, setAlgodClient } = context
 
   const activeNetwork = useStore(manager.store, (state) => state.activeNetwork)
+  const networkConfig = useStore(manager.store, (state) => state.networkConfig)
+  const algodHealth = useStore(manager.store, (state) => state.algodHealth)
 
   const setActiveNetwork = async (networkId: NetworkId | string): Promise<void> => {
     if (networkId === activeNetwork) {
@@ -72,54 +93,77 @@ export const useNetwork = () => {
       throw new Error(`Network "${networkId}" not found in network configuration`)
     }
 
-    console.info(`[React] Creating new Algodv2 client...`)
-
-    const { algod } = manager.networkConfig[networkId]
-    const { token = '', baseServer, port = '', headers = {} } = algod
-    const newClient = new algosdk.Algodv2(token, baseServer, port, headers)
-    setAlgodClient(newClient)
-
-    manager.store.setState((state) => ({
-      ...state,
-      activeNetwork: networkId
-    }))
+    await manager.setActiveNetwork(networkId)
+    setAlgodClient(manager.algodClient)
 
     console.info(`[React] ✅ Active network set to ${networkId}.`)
   }
 
-  const updateAlgodConfig = (networkId: string, config: Partial<AlgodConfig>): void => {
-    manager.updateAlgodConfig(networkId, config)
+  const updateAlgodConfig = async (
+    networkId: string,
+    config: Partial<AlgodConfig>
+  ): Promise<void> => {
+    await manager.updateAlgodConfig(networkId, config)
 
-    // If this is the active network, update the algodClient
+    // If this is the active network, use the manager's new algodClient
     if (networkId === activeNetwork) {
-      console.info(`[React] Creating new Algodv2 client...`)
-      const { algod } = manager.networkConfig[networkId]
-      const { token = '', baseServer, port = '', headers = {} } = algod
-      const newClient = new algosdk.Algodv2(token, baseServer, port, headers)
-      setAlgodClient(newClient)
+      setAlgodClient(manager.algodClient)
     }
   }
 
   const resetNetworkConfig = (networkId: string): void => {
     manager.resetNetworkConfig(networkId)
 
-    // If this is the active network, update the algodClient
+    // If this is the active network, use the manager's new algodClient
     if (networkId === activeNetwork) {
-      console.info(`[React] Creating new Algodv2 client...`)
-      const { algod } = manager.networkConfig[networkId]
-      const { token = '', baseServer, port = '', headers = {} } = algod
-      const newClient = new algosdk.Algodv2(token, baseServer, port, headers)
-      setAlgodClient(newClient)
+      setAlgodClient(manager.algodClient)
     }
   }
 
+  const addNetwork = (networkId: string, config: NetworkConfig): void => {
+    manager.addNetwork(networkId, config)
+  }
+
+  const removeNetwork = (networkId: string): void => {
+    manager.removeNetwork(networkId)
+  }
+
+  const checkAlgodHealth = (): Promise<AlgodHealth> => {
+    return manager.checkAlgodHealth()
+  }
+
   return {
     activeNetwork,
-    networkConfig: manager.networkConfig,
+    networkConfig,
     activeNetworkConfig: manager.activeNetworkConfig,
     setActiveNetwork,
     updateAlgodConfig,
-    resetNetworkConfig
+    resetNetworkConfig,
+    addNetwork,
+    removeNetwork,
+    algodHealth,
+    checkAlgodHealth
+  }
+}
+
+export const useIndexer = () => {
+  const context = React.useContext(WalletContext)
+
+  if (!context) {
+    throw new Error('useIndexer must be used within the WalletProvider')
+  }
+
+  const { manager } = context
+
+  const indexerClient = useStore(manager.store, (state) => state.indexerClient)
+
+  const updateIndexerConfig = (networkId: string, config: Partial<IndexerConfig>): void => {
+    manager.updateIndexerConfig(networkId, config)
+  }
+
+  return {
+    indexerClient,
+    updateIndexerConfig
   }
 }
 
@@ -132,6 +176,10 @@ export interface Wallet {
   activeAccount: WalletAccount | null
   isConnected: boolean
   isActive: boolean
+  /** Connection status, e.g. to show a spinner while connecting */
+  status: WalletStatus
+  /** Error from the last failed connect, resume or disconnect */
+  error: Error | null
   canSignData: boolean
   connect: (args?: Record<string, any>) => Promise<WalletAccount[]>
   disconnect: () => Promise<void>
@@ -161,14 +209,18 @@ export const useWallet = () => {
   const { manager, algodClient, setAlgodClient } = context
 
   const managerStatus = useStore(manager.store, (state) => state.managerStatus)
-  const isReady = managerStatus === 'ready'
+  const isReady = managerStatus !== 'initializing'
 
   const walletStateMap = useStore(manager.store, (state) => state.wallets)
   const activeWalletId = useStore(manager.store, (state) => state.activeWallet)
+  const walletKeys = useStore(manager.store, (state) => state.walletKeys)
+  const walletStatusMap = useStore(manager.store, (state) => state.walletStatus)
+  const trackedTransactions = useStore(manager.store, (state) => state.trackedTransactions)
 
   const transformToWallet = React.useCallback(
     (wallet: BaseWallet): Wallet => {
       const walletState = walletStateMap[wallet.walletKey]
+      const walletStatus = walletStatusMap[wallet.walletKey]
       const hasEvmProvider = 'getEvmProvider' in wallet && typeof (wallet as any).getEvmProvider === 'function'
       return {
         id: wallet.id,
@@ -178,6 +230,8 @@ export const useWallet = () => {
         activeAccount: walletState?.activeAccount ?? null,
         isConnected: !!walletState,
         isActive: wallet.walletKey === activeWalletId,
+        status: walletStatus?.status ?? (walletState ? 'connected' : 'idle'),
+        error: walletStatus?.error ?? null,
         canSignData: wallet.canSignData ?? false,
         connect: (args) => wallet.connect(args),
         disconnect: () => wallet.disconnect(),
@@ -186,12 +240,12 @@ export const useWallet = () => {
         ...(hasEvmProvider && { getEvmProvider: () => (wallet as any).getEvmProvider() })
       }
     },
-    [walletStateMap, activeWalletId]
+    [walletStateMap, walletStatusMap, activeWalletId]
   )
 
   const wallets = React.useMemo(() => {
     return [...manager.wallets.values()].map(transformToWallet)
-  }, [manager, transformToWallet])
+  }, [manager, walletKeys, transformToWallet])
 
   const activeBaseWallet = activeWalletId ? manager.getWallet(activeWalletId) || null : null
   const activeWallet = React.useMemo(() => {
@@ -205,12 +259,23 @@ export const useWallet = () => {
 
   const signTransactions = <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
-    indexesToSign?: number[]
+    indexesToSign?: number[],
+    options?: SignRequestOptions
   ): Promise<(Uint8Array | null)[]> => {
     if (!activeBaseWallet) {
       throw new Error('No active wallet')
     }
-    return activeBaseWallet.signTransactions(txnGroup, indexesToSign)
+    return manager.signTransactions(txnGroup, indexesToSign, options)
+  }
+
+  const signAndSend = <T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    options?: SignAndSendOptions
+  ): Promise<SendTransactionsResult> => {
+    if (!activeBaseWallet) {
+      throw new Error('No active wallet')
+    }
+    return manager.signAndSend(txnGroup, options)
   }
 
   const transactionSigner = (
@@ -220,14 +285,18 @@ export const useWallet = () => {
     if (!activeBaseWallet) {
       throw new Error('No active wallet')
     }
-    return activeBaseWallet.transactionSigner(txnGroup, indexesToSign)
+    return manager.transactionSigner(txnGroup, indexesToSign)
   }
 
-  const signData = (data: string, metadata: SignMetadata): Promise<SignDataResponse> => {
+  const signData = (
+    data: string,
+    metadata: SignMetadata,
+    options?: SignRequestOptions
+  ): Promise<SignDataResponse> => {
     if (!activeBaseWallet) {
       throw new Error('No active wallet')
     }
-    return activeBaseWallet.signData(data, metadata)
+    return activeBaseWallet.signData(data, metadata, options)
   }
 
   return {
@@ -240,6 +309,8 @@ export const useWallet = () => {
     activeWalletAddresses,
     activeAccount,
     activeAddress,
+    trackedTransactions,
+    signAndSend,
     signData,
     signTransactions,
     transactionSigner
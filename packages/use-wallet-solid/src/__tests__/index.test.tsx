@@ -14,7 +14,7 @@ import {
 } from '@txnlab/use-wallet'
 import algosdk from 'algosdk'
 import { For, Show, createEffect, createSignal } from 'solid-js'
-import { WalletProvider, useWallet, useWalletManager, useNetwork } from '../index'
+import { WalletProvider, useWallet, useWalletManager, useNetwork, useIndexer } from '../index'
 
 // Create mock store with initial state
 const mockStore = new Store<State>({
@@ -250,7 +250,7 @@ describe('WalletProvider', () => {
 
   it('calls resumeSessions on mount', async () => {
     const mockResumeSessions = vi.fn()
-    const fakeManager = { resumeSessions: mockResumeSessions }
+    const fakeManager = { resumeSessions: mockResumeSessions, destroy: vi.fn() }
 
     render(() => (
       <WalletProvider manager={fakeManager as any as WalletManager}>
@@ -260,6 +260,19 @@ describe('WalletProvider', () => {
 
     expect(mockResumeSessions).toHaveBeenCalled()
   })
+
+  it('destroys the manager on cleanup', () => {
+    const fakeManager = { resumeSessions: vi.fn(), destroy: vi.fn() }
+
+    const { unmount } = render(() => (
+      <WalletProvider manager={fakeManager as any as WalletManager}>
+        <div />
+      </WalletProvider>
+    ))
+    unmount()
+
+    expect(fakeManager.destroy).toHaveBeenCalled()
+  })
 })
 
 describe('useNetwork', () => {
@@ -599,6 +612,116 @@ describe('useNetwork', () => {
       )
     })
   })
+
+  it('provides algodHealth from the store', async () => {
+    const TestComponent = () => {
+      const { algodHealth } = useNetwork()
+      return <div data-testid="active-endpoint">{algodHealth().activeEndpoint}</div>
+    }
+
+    render(() => (
+      <WalletProvider manager={mockWalletManager}>
+        <TestComponent />
+      </WalletProvider>
+    ))
+
+    mockStore.setState((state) => ({
+      ...state,
+      algodHealth: {
+        networkId: NetworkId.TESTNET,
+        activeEndpoint: 1,
+        endpoints: [
+          { baseServer: 'https://primary.test', status: 'unhealthy' },
+          { baseServer: 'https://backup.test', status: 'healthy' }
+        ]
+      }
+    }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId('active-endpoint')).toHaveTextContent('1')
+    })
+  })
+})
+
+describe('useIndexer', () => {
+  let walletManager: WalletManager
+
+  beforeEach(() => {
+    localStorage.clear()
+    walletManager = new WalletManager({
+      wallets: [WalletId.DEFLY]
+    })
+  })
+
+  it('updates indexerClient when the active network changes', async () => {
+    const TestComponent = () => {
+      const { setActiveNetwork } = useNetwork()
+      const { indexerClient } = useIndexer()
+      return (
+        <div>
+          <div data-testid="indexer-client">{JSON.stringify(indexerClient())}</div>
+          <button
+            data-testid="set-active-network-btn"
+            onClick={() => setActiveNetwork(NetworkId.MAINNET)}
+          >
+            Set Active Network to Mainnet
+          </button>
+        </div>
+      )
+    }
+
+    render(() => (
+      <WalletProvider manager={walletManager}>
+        <TestComponent />
+      </WalletProvider>
+    ))
+
+    const newIndexerClient = new algosdk.Indexer('', 'https://mainnet-idx.4160.nodely.dev', '')
+
+    fireEvent.click(screen.getByTestId('set-active-network-btn'))
+
+    await waitFor(() => {
+      expect(screen.getByTestId('indexer-client')).toHaveTextContent(
+        JSON.stringify(newIndexerClient)
+      )
+    })
+  })
+
+  it('updates indexerClient when the active network config is updated', async () => {
+    const TestComponent = () => {
+      const { indexerClient, updateIndexerConfig } = useIndexer()
+      return (
+        <div>
+          <div data-testid="indexer-client">{JSON.stringify(indexerClient())}</div>
+          <button
+            data-testid="update-btn"
+            onClick={() =>
+              updateIndexerConfig(NetworkId.TESTNET, { baseServer: 'https://new-indexer.com' })
+            }
+          >
+            Update
+          </button>
+        </div>
+      )
+    }
+
+    render(() => (
+      <WalletProvider manager={walletManager}>
+        <TestComponent />
+      </WalletProvider>
+    ))
+
+    const newIndexerClient = new algosdk.Indexer('', 'https://new-indexer.com', '')
+
+    fireEvent.click(screen.getByTestId('update-btn'))
+
+    await waitFor(() => {
+      expect(screen.getByTestId('indexer-client')).toHaveTextContent(
+        JSON.stringify(newIndexerClient)
+      )
+    })
+    expect(walletManager.networkConfig.testnet.indexer?.baseServer).toBe('https://new-indexer.com')
+  })
 })
 
 describe('useWallet', () => {
@@ -620,9 +743,18 @@ describe('useWallet', () => {
       activeWallet: null,
       activeNetwork: NetworkId.TESTNET,
       algodClient: new algosdk.Algodv2('', 'https://testnet-api.4160.nodely.dev/'),
+      indexerClient: null,
+      algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
       managerStatus: 'initializing' as ManagerStatus,
       customNetworkConfigs: {},
-      networkConfig: { ...DEFAULT_NETWORK_CONFIG }
+      networkConfig: { ...DEFAULT_NETWORK_CONFIG },
+      walletKeys: [],
+      availability: {},
+      walletStatus: {},
+      pendingRequests: {},
+      multisigAccounts: {},
+      pendingMultisigGroups: {},
+      trackedTransactions: {}
     }
 
     mockStore = new Store<State>(defaultState)
@@ -1,14 +1,21 @@
 import { useStore } from '@tanstack/solid-store'
 import algosdk from 'algosdk'
-import { JSX, createContext, createMemo, onMount, useContext } from 'solid-js'
+import { JSX, createContext, createMemo, onCleanup, onMount, useContext } from 'solid-js'
 import type {
   AlgodConfig,
+  AlgodHealth,
+  IndexerConfig,
+  NetworkConfig,
   NetworkId,
+  SendTransactionsResult,
+  SignAndSendOptions,
   SignDataResponse,
   SignMetadata,
+  SignRequestOptions,
   WalletKey,
   WalletManager,
-  WalletState
+  WalletState,
+  WalletStatus
 } from '@txnlab/use-wallet'
 
 export * from '@txnlab/use-wallet'
@@ -31,6 +38,8 @@ export const WalletProvider = (props: WalletProviderProps): JSX.Element => {
     }
   })
 
+  onCleanup(() => props.manager.destroy())
+
   return <WalletContext.Provider value={store}>{props.children}</WalletContext.Provider>
 }
 
@@ -45,6 +54,7 @@ export const useWalletManager = (): WalletManager => {
 export const useNetwork = () => {
   const manager = createMemo(() => useWalletManager())
   const activeNetwork = useStore(manager().store, (state) => state.activeNetwork)
+  const algodHealth = useStore(manager().store, (state) => state.algodHealth)
   const activeNetworkConfig = () => {
     const store = useStore(manager().store)
     return store().networkConfig[activeNetwork()]
@@ -76,8 +86,11 @@ export const useNetwork = () => {
     console.info(`[Solid] ✅ Active network set to ${networkId}.`)
   }
 
-  const updateAlgodConfig = (networkId: string, config: Partial<AlgodConfig>): void => {
-    manager().updateAlgodConfig(networkId, config)
+  const updateAlgodConfig = async (
+    networkId: string,
+    config: Partial<AlgodConfig>
+  ): Promise<void> => {
+    await manager().updateAlgodConfig(networkId, config)
 
     // If this is the active network, update the algodClient
     if (networkId === activeNetwork()) {
@@ -110,13 +123,43 @@ export const useNetwork = () => {
     }
   }
 
+  const addNetwork = (networkId: string, config: NetworkConfig): void => {
+    manager().addNetwork(networkId, config)
+  }
+
+  const removeNetwork = (networkId: string): void => {
+    manager().removeNetwork(networkId)
+  }
+
+  const checkAlgodHealth = (): Promise<AlgodHealth> => {
+    return manager().checkAlgodHealth()
+  }
+
   return {
     activeNetwork,
     networkConfig: () => manager().networkConfig,
     activeNetworkConfig,
     setActiveNetwork,
     updateAlgodConfig,
-    resetNetworkConfig
+    resetNetworkConfig,
+    addNetwork,
+    removeNetwork,
+    algodHealth,
+    checkAlgodHealth
+  }
+}
+
+export const useIndexer = () => {
+  const manager = createMemo(() => useWalletManager())
+  const indexerClient = useStore(manager().store, (state) => state.indexerClient)
+
+  const updateIndexerConfig = (networkId: string, config: Partial<IndexerConfig>): void => {
+    manager().updateIndexerConfig(networkId, config)
+  }
+
+  return {
+    indexerClient,
+    updateIndexerConfig
   }
 }
 
@@ -124,10 +167,13 @@ export const useWallet = () => {
   const manager = createMemo(() => useWalletManager())
 
   const managerStatus = useStore(manager().store, (state) => state.managerStatus)
-  const isReady = createMemo(() => managerStatus() === 'ready')
+  const isReady = createMemo(() => managerStatus() !== 'initializing')
   const algodClient = useStore(manager().store, (state) => state.algodClient)
 
+  const walletKeys = useStore(manager().store, (state) => state.walletKeys)
   const walletStore = useStore(manager().store, (state) => state.wallets)
+  const walletStatusStore = useStore(manager().store, (state) => state.walletStatus)
+  const trackedTransactions = useStore(manager().store, (state) => state.trackedTransactions)
   const walletState = (walletKey: WalletKey): WalletState | null => walletStore()[walletKey] || null
   const activeWalletId = useStore(manager().store, (state) => state.activeWallet)
   const activeWallet = () => manager().getWallet(activeWalletId() as WalletKey) || null
@@ -140,39 +186,60 @@ export const useWallet = () => {
   const isWalletActive = (walletKey: WalletKey) => walletKey === activeWalletId()
   const isWalletConnected = (walletKey: WalletKey) =>
     !!walletState(walletKey)?.accounts.length || false
+  const walletStatus = (walletKey: WalletKey): WalletStatus =>
+    walletStatusStore()[walletKey]?.status ?? (walletState(walletKey) ? 'connected' : 'idle')
+  const walletError = (walletKey: WalletKey): Error | null =>
+    walletStatusStore()[walletKey]?.error ?? null
 
   const signTransactions = <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
-    indexesToSign?: number[]
+    indexesToSign?: number[],
+    options?: SignRequestOptions
   ): Promise<(Uint8Array | null)[]> => {
-    const wallet = activeWallet()
-    if (!wallet) {
+    if (!activeWallet()) {
+      throw new Error('No active wallet')
+    }
+    return manager().signTransactions(txnGroup, indexesToSign, options)
+  }
+
+  const signAndSend = <T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    options?: SignAndSendOptions
+  ): Promise<SendTransactionsResult> => {
+    if (!activeWallet()) {
       throw new Error('No active wallet')
     }
-    return wallet.signTransactions(txnGroup, indexesToSign)
+    return manager().signAndSend(txnGroup, options)
   }
 
   const transactionSigner = (
     txnGroup: algosdk.Transaction[],
     indexesToSign: number[]
   ): Promise<Uint8Array[]> => {
-    const wallet = activeWallet()
-    if (!wallet) {
+    if (!activeWallet()) {
       throw new Error('No active wallet')
     }
-    return wallet.transactionSigner(txnGroup, indexesToSign)
+    return manager().transactionSigner(txnGroup, indexesToSign)
   }
 
-  const signData = (data: string, metadata: SignMetadata): Promise<SignDataResponse> => {
+  const signData = (
+    data: string,
+    metadata: SignMetadata,
+    options?: SignRequestOptions
+  ): Promise<SignDataResponse> => {
     const wallet = activeWallet()
     if (!wallet) {
       throw new Error('No active wallet')
     }
-    return wallet.signData(data, metadata)
+    return wallet.signData(data, metadata, options)
   }
 
   return {
-    wallets: manager().wallets,
+    get wallets() {
+      // Track wallets added or removed at runtime
+      walletKeys()
+      return manager().wallets
+    },
     isReady,
     algodClient,
     activeWallet,
@@ -184,6 +251,10 @@ export const useWallet = () => {
     activeWalletId,
     isWalletActive,
     isWalletConnected,
+    walletStatus,
+    walletError,
+    trackedTransactions,
+    signAndSend,
     signData,
     signTransactions,
     transactionSigner,
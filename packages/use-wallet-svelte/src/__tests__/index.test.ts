@@ -5,6 +5,7 @@ import {
   DeflyWallet,
   LuteWallet,
   NetworkId,
+  NetworkMismatchError,
   WalletManager,
   WalletId,
   DEFAULT_NETWORK_CONFIG,
@@ -15,9 +16,9 @@ import {
   ManagerStatus
 } from '@txnlab/use-wallet'
 import algosdk from 'algosdk'
-import { getContext, setContext } from 'svelte'
+import { getContext, onDestroy, setContext } from 'svelte'
 import type { Mock } from 'vitest'
-import { useWalletContext, useWalletManager, useNetwork, useWallet } from '../index'
+import { useWalletContext, useWalletManager, useNetwork, useIndexer, useWallet } from '../index'
 
 // Mock Svelte's context functions
 vi.mock('svelte', async (importOriginal) => {
@@ -25,6 +26,7 @@ vi.mock('svelte', async (importOriginal) => {
   return {
     ...mod,
     getContext: vi.fn(),
+    onDestroy: vi.fn(),
     setContext: vi.fn()
   }
 })
@@ -183,6 +185,16 @@ describe('useWalletContext', () => {
     })
   })
 
+  it('destroys the wallet manager when the component is destroyed', () => {
+    const destroy = vi.spyOn(mockWalletManager, 'destroy')
+
+    useWalletContext(mockWalletManager)
+    const [[onDestroyCallback]] = (onDestroy as Mock).mock.calls
+    onDestroyCallback()
+
+    expect(destroy).toHaveBeenCalled()
+  })
+
   it('handles resumeSessions errors gracefully', async () => {
     const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
     const error = new Error('Resume session failed')
@@ -269,20 +281,20 @@ describe('useNetwork', () => {
     )
   })
 
-  it('updates algod config and creates new client for active network', () => {
+  it('updates algod config and creates new client for active network', async () => {
     const network = useNetwork()
     const networkId = NetworkId.TESTNET
     const config = { baseServer: 'https://new-server.com' }
 
     const updateAlgodConfigSpy = vi.spyOn(mockWalletManager, 'updateAlgodConfig')
 
-    network.updateAlgodConfig(networkId, config)
+    await network.updateAlgodConfig(networkId, config)
 
     expect(updateAlgodConfigSpy).toHaveBeenCalledWith(networkId, config)
     expect(mockStore.state.algodClient).toBeInstanceOf(algosdk.Algodv2)
   })
 
-  it('does not update algod client when updating config for non-active network', () => {
+  it('does not update algod client when updating config for non-active network', async () => {
     const network = useNetwork()
     const nonActiveNetwork = NetworkId.MAINNET
     const config = { baseServer: 'https://new-server.com' }
@@ -290,12 +302,26 @@ describe('useNetwork', () => {
 
     const updateAlgodConfigSpy = vi.spyOn(mockWalletManager, 'updateAlgodConfig')
 
-    network.updateAlgodConfig(nonActiveNetwork, config)
+    await network.updateAlgodConfig(nonActiveNetwork, config)
 
     expect(updateAlgodConfigSpy).toHaveBeenCalledWith(nonActiveNetwork, config)
     expect(mockStore.state.algodClient).toBe(originalClient)
   })
 
+  it('does not update algod client if the manager rejects the config', async () => {
+    const network = useNetwork()
+    const originalClient = mockStore.state.algodClient
+
+    vi.spyOn(mockWalletManager, 'updateAlgodConfig').mockRejectedValueOnce(
+      new NetworkMismatchError('Algod node is on another chain')
+    )
+
+    await expect(
+      network.updateAlgodConfig(NetworkId.TESTNET, { baseServer: 'https://new-server.com' })
+    ).rejects.toThrow(NetworkMismatchError)
+    expect(mockStore.state.algodClient).toBe(originalClient)
+  })
+
   it('resets network config and updates client for active network', () => {
     const network = useNetwork()
     const networkId = NetworkId.TESTNET
@@ -307,6 +333,72 @@ describe('useNetwork', () => {
     expect(resetNetworkConfigSpy).toHaveBeenCalledWith(networkId)
     expect(mockStore.state.algodClient).toBeInstanceOf(algosdk.Algodv2)
   })
+
+  it('provides algod health and checks it with the manager', async () => {
+    const network = useNetwork()
+    const newHealth = {
+      networkId: NetworkId.TESTNET,
+      activeEndpoint: 1,
+      endpoints: [
+        { baseServer: 'https://primary.test', status: 'unhealthy' as const },
+        { baseServer: 'https://backup.test', status: 'healthy' as const }
+      ]
+    }
+    const checkAlgodHealthSpy = vi
+      .spyOn(mockWalletManager, 'checkAlgodHealth')
+      .mockImplementation(async () => {
+        mockStore.setState((state) => ({ ...state, algodHealth: newHealth }))
+        return newHealth
+      })
+
+    await network.checkAlgodHealth()
+
+    expect(checkAlgodHealthSpy).toHaveBeenCalled()
+    expect(network.algodHealth.current).toEqual(newHealth)
+  })
+
+  it('adds and removes networks', () => {
+    const network = useNetwork()
+    const privateNetwork = { algod: { token: '', baseServer: 'https://private-node.test' } }
+
+    network.addNetwork('private', privateNetwork)
+    expect(mockWalletManager.networkConfig.private).toEqual(privateNetwork)
+
+    network.removeNetwork('private')
+    expect(mockWalletManager.networkConfig.private).toBeUndefined()
+  })
+})
+
+describe('useIndexer', () => {
+  beforeEach(() => {
+    const mockGetContext = getContext as Mock
+    mockGetContext.mockReturnValue(mockWalletManager)
+  })
+
+  it('updates indexer client when the active network changes', async () => {
+    const indexer = useIndexer()
+
+    await mockWalletManager.setActiveNetwork(NetworkId.MAINNET)
+
+    expect(indexer.indexerClient.current).toEqual(
+      new algosdk.Indexer('', 'https://mainnet-idx.4160.nodely.dev', '')
+    )
+  })
+
+  it('updates indexer config and creates new client for active network', () => {
+    const indexer = useIndexer()
+    const networkId = NetworkId.TESTNET
+    const config = { baseServer: 'https://new-indexer.com' }
+
+    const updateIndexerConfigSpy = vi.spyOn(mockWalletManager, 'updateIndexerConfig')
+
+    indexer.updateIndexerConfig(networkId, config)
+
+    expect(updateIndexerConfigSpy).toHaveBeenCalledWith(networkId, config)
+    expect(indexer.indexerClient.current).toEqual(
+      new algosdk.Indexer('', 'https://new-indexer.com', '')
+    )
+  })
 })
 
 describe('useWallet', () => {
@@ -422,7 +514,14 @@ describe('useWallet', () => {
 
     mockStore.setState((state) => ({
       ...state,
-      managerStatus: 'loading' as ManagerStatus
+      managerStatus: 'degraded' as ManagerStatus
+    }))
+
+    expect(wallet.isReady()).toBe(true)
+
+    mockStore.setState((state) => ({
+      ...state,
+      managerStatus: 'initializing' as ManagerStatus
     }))
 
     expect(wallet.isReady()).toBe(false)
@@ -477,7 +576,39 @@ describe('useWallet', () => {
 
     await wallet.signTransactions(txns, indexes)
 
-    expect(mocks.signTransactions).toHaveBeenCalledWith(txns, indexes)
+    expect(mocks.signTransactions).toHaveBeenCalledWith(txns, indexes, undefined)
+  })
+
+  it('signs and sends transactions with the manager', async () => {
+    const wallet = useWallet()
+    const sendResult = { txIds: [], confirmedRound: BigInt(1), returnLogs: [], confirmations: [] }
+    const signAndSend = vi.spyOn(mockWalletManager, 'signAndSend').mockResolvedValue(sendResult)
+
+    expect(() => wallet.signAndSend([])).toThrow('No active wallet')
+
+    mockStore.setState((state) => ({
+      ...state,
+      activeWallet: WalletId.LUTE
+    }))
+
+    await expect(wallet.signAndSend([], { waitRounds: 10 })).resolves.toBe(sendResult)
+    expect(signAndSend).toHaveBeenCalledWith([], { waitRounds: 10 })
+  })
+
+  it('updates trackedTransactions when a tracked group changes', () => {
+    const wallet = useWallet()
+    const group = {
+      networkId: 'testnet',
+      txIds: ['txid1'],
+      lastValid: 1000,
+      status: 'confirmed' as const,
+      confirmedRound: 900,
+      submittedAt: 0
+    }
+
+    mockStore.setState((state) => ({ ...state, trackedTransactions: { txid1: group } }))
+
+    expect(wallet.trackedTransactions.current).toEqual({ txid1: group })
   })
 
   it('throws error when using transaction signer without active wallet', () => {
@@ -486,8 +617,10 @@ describe('useWallet', () => {
     expect(() => wallet.transactionSigner([], [])).toThrow('No active wallet')
   })
 
-  it('uses transaction signer with active wallet', async () => {
+  it('uses the manager transaction signer with active wallet', async () => {
     const wallet = useWallet()
+    const signer = vi.fn().mockResolvedValue([])
+    vi.spyOn(mockWalletManager, 'transactionSigner', 'get').mockReturnValue(signer)
 
     // Set active wallet
     mockStore.setState((state) => ({
@@ -500,7 +633,7 @@ describe('useWallet', () => {
 
     await wallet.transactionSigner(txns, indexes)
 
-    expect(mocks.transactionSigner).toHaveBeenCalledWith(txns, indexes)
+    expect(signer).toHaveBeenCalledWith(txns, indexes)
   })
 
   it('throws error when signing data without active wallet', () => {
@@ -525,6 +658,6 @@ describe('useWallet', () => {
 
     await wallet.signData(data, metadata)
 
-    expect(mocks.signData).toHaveBeenCalledWith(data, metadata)
+    expect(mocks.signData).toHaveBeenCalledWith(data, metadata, undefined)
   })
 })
@@ -1,17 +1,24 @@
 import { useStore } from '@tanstack/svelte-store'
 import algosdk from 'algosdk'
-import { getContext, setContext } from 'svelte'
+import { getContext, onDestroy, setContext } from 'svelte'
 import {
   type AlgodConfig,
+  type AlgodHealth,
   BaseWallet,
+  type IndexerConfig,
+  type NetworkConfig,
   NetworkId,
+  type SendTransactionsResult,
+  type SignAndSendOptions,
   type SignDataResponse,
   type SignMetadata,
+  type SignRequestOptions,
   WalletAccount,
   WalletId,
   type WalletKey,
   WalletManager,
-  WalletMetadata
+  WalletMetadata,
+  type WalletStatus
 } from '@txnlab/use-wallet'
 
 export * from '@txnlab/use-wallet'
@@ -22,6 +29,8 @@ export const useWalletContext = (manager: WalletManager) => {
   manager.resumeSessions().catch((error) => {
     console.error('Error resuming sessions:', error)
   })
+
+  onDestroy(() => manager.destroy())
 }
 
 export const useWalletManager = (): WalletManager => {
@@ -35,6 +44,7 @@ export const useWalletManager = (): WalletManager => {
 export const useNetwork = () => {
   const manager = useWalletManager()
   const activeNetwork = useStore(manager.store, (state) => state.activeNetwork)
+  const algodHealth = useStore(manager.store, (state) => state.algodHealth)
   const activeNetworkConfig = useStore(
     manager.store,
     (state) => state.networkConfig[activeNetwork.current]
@@ -66,8 +76,11 @@ export const useNetwork = () => {
     console.info(`[Svelte] ✅ Active network set to ${networkId}.`)
   }
 
-  const updateAlgodConfig = (networkId: string, config: Partial<AlgodConfig>): void => {
-    manager.updateAlgodConfig(networkId, config)
+  const updateAlgodConfig = async (
+    networkId: string,
+    config: Partial<AlgodConfig>
+  ): Promise<void> => {
+    await manager.updateAlgodConfig(networkId, config)
 
     // If this is the active network, update the algodClient
     if (networkId === activeNetwork.current) {
@@ -100,13 +113,43 @@ export const useNetwork = () => {
     }
   }
 
+  const addNetwork = (networkId: string, config: NetworkConfig): void => {
+    manager.addNetwork(networkId, config)
+  }
+
+  const removeNetwork = (networkId: string): void => {
+    manager.removeNetwork(networkId)
+  }
+
+  const checkAlgodHealth = (): Promise<AlgodHealth> => {
+    return manager.checkAlgodHealth()
+  }
+
   return {
     activeNetwork,
     networkConfig: manager.networkConfig,
     activeNetworkConfig,
     setActiveNetwork,
     updateAlgodConfig,
-    resetNetworkConfig
+    resetNetworkConfig,
+    addNetwork,
+    removeNetwork,
+    algodHealth,
+    checkAlgodHealth
+  }
+}
+
+export const useIndexer = () => {
+  const manager = useWalletManager()
+  const indexerClient = useStore(manager.store, (state) => state.indexerClient)
+
+  const updateIndexerConfig = (networkId: string, config: Partial<IndexerConfig>): void => {
+    manager.updateIndexerConfig(networkId, config)
+  }
+
+  return {
+    indexerClient,
+    updateIndexerConfig
   }
 }
 
@@ -118,6 +161,10 @@ export interface Wallet {
   accounts: { current: WalletAccount[] | undefined }
   isConnected: () => boolean
   isActive: () => boolean
+  /** Connection status, e.g. to show a spinner while connecting */
+  status: () => WalletStatus
+  /** Error from the last failed connect, resume or disconnect */
+  error: () => Error | null
   canSignData: boolean
   connect: (args?: Record<string, any>) => Promise<WalletAccount[]>
   disconnect: () => Promise<void>
@@ -128,15 +175,25 @@ export interface Wallet {
 export const useWallet = () => {
   const manager = useWalletManager()
   const walletStore = useStore(manager.store, (state) => state.wallets)
+  const walletKeys = useStore(manager.store, (state) => state.walletKeys)
+  const walletStatusStore = useStore(manager.store, (state) => state.walletStatus)
 
   const transformToWallet = (wallet: BaseWallet): Wallet => {
     return {
       id: wallet.id,
       walletKey: wallet.walletKey,
       metadata: wallet.metadata,
-      accounts: useStore(manager.store, (state) => state.wallets[wallet.walletKey]?.accounts),
+      accounts: {
+        get current() {
+          return walletStore.current[wallet.walletKey]?.accounts
+        }
+      },
       isConnected: () => !!walletStore.current[wallet.walletKey],
       isActive: () => wallet.walletKey === activeWalletId.current,
+      status: () =>
+        walletStatusStore.current[wallet.walletKey]?.status ??
+        (walletStore.current[wallet.walletKey] ? 'connected' : 'idle'),
+      error: () => walletStatusStore.current[wallet.walletKey]?.error ?? null,
       canSignData: wallet.canSignData ?? false,
       connect: (args) => wallet.connect(args),
       disconnect: () => wallet.disconnect(),
@@ -145,12 +202,26 @@ export const useWallet = () => {
     }
   }
 
-  const wallets = [...manager.wallets].map(transformToWallet)
+  // Wallets can be added or removed at runtime, so transformed wallets are cached by key
+  const walletCache = new Map<WalletKey, Wallet>()
+  const getWallets = (): Wallet[] => {
+    void walletKeys.current
+    return manager.wallets.map((wallet) => {
+      const cached = walletCache.get(wallet.walletKey)
+      if (cached) {
+        return cached
+      }
+      const transformed = transformToWallet(wallet)
+      walletCache.set(wallet.walletKey, transformed)
+      return transformed
+    })
+  }
   const activeWalletId = useStore(manager.store, (state) => state.activeWallet)
   const managerStatus = useStore(manager.store, (state) => state.managerStatus)
-  const isReady = () => managerStatus.current === 'ready'
+  const isReady = () => managerStatus.current !== 'initializing'
   const algodClient = useStore(manager.store, (state) => state.algodClient)
-  const activeWallet = () => wallets.find((w) => w.walletKey === activeWalletId.current)
+  const trackedTransactions = useStore(manager.store, (state) => state.trackedTransactions)
+  const activeWallet = () => getWallets().find((w) => w.walletKey === activeWalletId.current)
   const activeWalletAccounts = useStore(
     manager.store,
     (state) => state.wallets[activeWalletId.current!]?.accounts
@@ -169,36 +240,51 @@ export const useWallet = () => {
 
   const signTransactions = <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
-    indexesToSign?: number[]
+    indexesToSign?: number[],
+    options?: SignRequestOptions
   ): Promise<(Uint8Array | null)[]> => {
-    const wallet = manager.wallets.find((w) => w.walletKey === activeWalletId.current)
-    if (!wallet) {
+    if (!manager.wallets.some((w) => w.walletKey === activeWalletId.current)) {
+      throw new Error('No active wallet')
+    }
+    return manager.signTransactions(txnGroup, indexesToSign, options)
+  }
+
+  const signAndSend = <T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    options?: SignAndSendOptions
+  ): Promise<SendTransactionsResult> => {
+    if (!manager.wallets.some((w) => w.walletKey === activeWalletId.current)) {
       throw new Error('No active wallet')
     }
-    return wallet.signTransactions(txnGroup, indexesToSign)
+    return manager.signAndSend(txnGroup, options)
   }
 
   const transactionSigner = (
     txnGroup: algosdk.Transaction[],
     indexesToSign: number[]
   ): Promise<Uint8Array[]> => {
-    const wallet = manager.wallets.find((w) => w.walletKey === activeWalletId.current)
-    if (!wallet) {
+    if (!manager.wallets.some((w) => w.walletKey === activeWalletId.current)) {
       throw new Error('No active wallet')
     }
-    return wallet.transactionSigner(txnGroup, indexesToSign)
+    return manager.transactionSigner(txnGroup, indexesToSign)
   }
 
-  const signData = (data: string, metadata: SignMetadata): Promise<SignDataResponse> => {
+  const signData = (
+    data: string,
+    metadata: SignMetadata,
+    options?: SignRequestOptions
+  ): Promise<SignDataResponse> => {
     const wallet = manager.wallets.find((w) => w.walletKey === activeWalletId.current)
     if (!wallet) {
       throw new Error('No active wallet')
     }
-    return wallet.signData(data, metadata)
+    return wallet.signData(data, metadata, options)
   }
 
   return {
-    wallets,
+    get wallets() {
+      return getWallets()
+    },
     isReady,
     algodClient,
     activeWallet,
@@ -206,6 +292,8 @@ export const useWallet = () => {
     activeWalletAddresses,
     activeAccount,
     activeAddress,
+    trackedTransactions,
+    signAndSend,
     signData,
     signTransactions,
     transactionSigner
@@ -0,0 +1,58 @@
+import { NetworkId, WalletManager, WalletId } from '@txnlab/use-wallet'
+import algosdk from 'algosdk'
+import { inject, type InjectionKey } from 'vue'
+import { useIndexer } from '../useIndexer'
+import type { Mock } from 'vitest'
+
+// Mock Vue's inject function
+vi.mock('vue', async (importOriginal) => {
+  const mod = await importOriginal<typeof import('vue')>()
+  return {
+    ...mod,
+    inject: vi.fn()
+  }
+})
+
+let mockWalletManager: WalletManager
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  localStorage.clear()
+  mockWalletManager = new WalletManager({
+    wallets: [WalletId.DEFLY]
+  })
+  ;(inject as Mock).mockImplementation((token: string | InjectionKey<unknown>) => {
+    if (token === 'walletManager') return mockWalletManager
+    return null
+  })
+})
+
+describe('useIndexer', () => {
+  it('throws error if WalletManager is not installed', () => {
+    vi.mocked(inject).mockImplementation(() => null)
+    expect(() => useIndexer()).toThrow('WalletManager plugin is not properly installed')
+  })
+
+  it('updates indexerClient when the active network changes', async () => {
+    const { indexerClient } = useIndexer()
+    expect(indexerClient.value).toEqual(mockWalletManager.indexerClient)
+
+    await mockWalletManager.setActiveNetwork(NetworkId.MAINNET)
+
+    const { token, baseServer, port, headers } = mockWalletManager.networkConfig.mainnet.indexer!
+    expect(indexerClient.value).toEqual(new algosdk.Indexer(token, baseServer, port ?? '', headers))
+  })
+
+  it('updates indexerClient when the active network config is updated', () => {
+    const { indexerClient, updateIndexerConfig } = useIndexer()
+    const initialClient = indexerClient.value
+
+    updateIndexerConfig(NetworkId.TESTNET, { baseServer: 'https://new-indexer.com' })
+
+    expect(mockWalletManager.networkConfig.testnet.indexer?.baseServer).toBe(
+      'https://new-indexer.com'
+    )
+    expect(indexerClient.value).not.toBe(initialClient)
+    expect(indexerClient.value).toEqual(new algosdk.Indexer('', 'https://new-indexer.com', '', {}))
+  })
+})
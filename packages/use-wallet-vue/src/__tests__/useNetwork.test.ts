@@ -271,13 +271,48 @@ describe('useNetwork', () => {
     }
 
     const { updateAlgodConfig } = useNetwork()
-    updateAlgodConfig(networkId, newConfig)
+    await updateAlgodConfig(networkId, newConfig)
     await nextTick()
 
     const actual = JSON.parse(wrapper.get('[data-testid="active-network-config"]').text())
     expect(actual.algod.baseServer).toBe(newConfig.baseServer)
   })
 
+  it('provides algodHealth from the store', async () => {
+    const { algodHealth, checkAlgodHealth } = useNetwork()
+    const newHealth = {
+      networkId: NetworkId.TESTNET,
+      activeEndpoint: 1,
+      endpoints: [
+        { baseServer: 'https://primary.test', status: 'unhealthy' as const },
+        { baseServer: 'https://backup.test', status: 'healthy' as const }
+      ]
+    }
+    const checkAlgodHealthSpy = vi
+      .spyOn(mockWalletManager, 'checkAlgodHealth')
+      .mockImplementation(async () => {
+        mockStore.setState((state) => ({ ...state, algodHealth: newHealth }))
+        return newHealth
+      })
+
+    await checkAlgodHealth()
+    await nextTick()
+
+    expect(checkAlgodHealthSpy).toHaveBeenCalled()
+    expect(algodHealth.value).toEqual(newHealth)
+  })
+
+  it('adds and removes networks', () => {
+    const { addNetwork, removeNetwork } = useNetwork()
+    const privateNetwork = { algod: { token: '', baseServer: 'https://private-node.test' } }
+
+    addNetwork('private', privateNetwork)
+    expect(mockWalletManager.networkConfig.private).toEqual(privateNetwork)
+
+    removeNetwork('private')
+    expect(mockWalletManager.networkConfig.private).toBeUndefined()
+  })
+
   it('provides resetNetworkConfig functionality', () => {
     const mockResetNetworkConfig = vi.fn()
     mockWalletManager.resetNetworkConfig = mockResetNetworkConfig
@@ -143,6 +143,8 @@ describe('useWallet', () => {
         activeAccount: null,
         isConnected: false,
         isActive: false,
+        status: 'idle',
+        error: null,
         connect: expect.any(Function),
         disconnect: expect.any(Function),
         setActive: expect.any(Function),
@@ -157,6 +159,8 @@ describe('useWallet', () => {
         activeAccount: null,
         isConnected: false,
         isActive: false,
+        status: 'idle',
+        error: null,
         connect: expect.any(Function),
         disconnect: expect.any(Function),
         setActive: expect.any(Function),
@@ -223,6 +227,8 @@ describe('useWallet', () => {
 
   it('calls signTransactions and transactionSigner correctly', async () => {
     const { signTransactions, transactionSigner } = useWallet()
+    const signer = vi.fn().mockResolvedValue([])
+    vi.spyOn(mockWalletManager, 'transactionSigner', 'get').mockReturnValue(signer)
 
     mockStore.setState((state) => ({
       ...state,
@@ -247,8 +253,37 @@ describe('useWallet', () => {
     await signTransactions([], [])
     await transactionSigner([], [])
 
-    expect(mocks.signTransactions).toHaveBeenCalledWith([], [])
-    expect(mocks.transactionSigner).toHaveBeenCalledWith([], [])
+    expect(mocks.signTransactions).toHaveBeenCalledWith([], [], undefined)
+    expect(signer).toHaveBeenCalledWith([], [])
+  })
+
+  it('calls signAndSend on the manager', async () => {
+    const { signAndSend } = useWallet()
+    const sendResult = { txIds: [], confirmedRound: BigInt(1), returnLogs: [], confirmations: [] }
+    const mockSignAndSend = vi.spyOn(mockWalletManager, 'signAndSend').mockResolvedValue(sendResult)
+
+    mockStore.setState((state) => ({ ...state, activeWallet: WalletId.DEFLY }))
+
+    await expect(signAndSend([], { waitRounds: 10 })).resolves.toBe(sendResult)
+    expect(mockSignAndSend).toHaveBeenCalledWith([], { waitRounds: 10 })
+  })
+
+  it('updates trackedTransactions when a tracked group changes', () => {
+    const { trackedTransactions } = useWallet()
+    const group = {
+      networkId: 'testnet',
+      txIds: ['txid1'],
+      lastValid: 1000,
+      status: 'confirmed' as const,
+      confirmedRound: 900,
+      submittedAt: 0
+    }
+
+    expect(trackedTransactions.value).toEqual({})
+
+    mockStore.setState((state) => ({ ...state, trackedTransactions: { txid1: group } }))
+
+    expect(trackedTransactions.value).toEqual({ txid1: group })
   })
 
   it('updates wallets when store state changes', () => {
@@ -295,7 +330,8 @@ describe('useWallet', () => {
           address: 'address1'
         },
         isConnected: true,
-        isActive: true
+        isActive: true,
+        status: 'connected'
       },
       mockWallets[1]
     ])
@@ -1,6 +1,6 @@
 import { defineComponent, h, inject } from 'vue'
 import { WalletManagerPlugin } from '../walletManagerPlugin'
-import { NetworkId, WalletManager, type WalletManagerConfig } from '@txnlab/use-wallet'
+import { NetworkId, WalletManager, type State, type WalletManagerConfig } from '@txnlab/use-wallet'
 import algosdk from 'algosdk'
 import { mount } from '@vue/test-utils'
 import type { SetAlgodClient } from '../useWallet'
@@ -13,7 +13,9 @@ vi.mock('@txnlab/use-wallet', async (importOriginal) => {
     ...module,
     WalletManager: vi.fn().mockImplementation(() => ({
       algodClient: mockAlgodClient,
-      resumeSessions: vi.fn().mockResolvedValue(undefined)
+      resumeSessions: vi.fn().mockResolvedValue(undefined),
+      destroy: vi.fn(),
+      subscribe: vi.fn().mockReturnValue(vi.fn())
     }))
   }
 })
@@ -104,4 +106,41 @@ describe('WalletManagerPlugin', () => {
 
     expect(walletManager?.resumeSessions).toHaveBeenCalled()
   })
+
+  it('destroys the walletManager when the app is unmounted', () => {
+    const options: WalletManagerConfig = {
+      wallets: [],
+      defaultNetwork: NetworkId.TESTNET
+    }
+
+    const wrapper = mount(TestComponent, {
+      global: {
+        plugins: [[WalletManagerPlugin, options]]
+      }
+    })
+    const { walletManager } = wrapper.vm
+    wrapper.unmount()
+
+    expect(walletManager?.destroy).toHaveBeenCalled()
+  })
+
+  it('updates the reactive algodClient when the store switches to another client', () => {
+    const options: WalletManagerConfig = {
+      wallets: [],
+      defaultNetwork: NetworkId.TESTNET
+    }
+    const fallbackClient = new algosdk.Algodv2('', 'https://backup-server', '')
+
+    const wrapper = mount(TestComponent, {
+      global: {
+        plugins: [[WalletManagerPlugin, options]]
+      }
+    })
+
+    const [callback] = vi.mocked(wrapper.vm.walletManager!.subscribe).mock.calls[0]
+
+    callback({ algodClient: fallbackClient } as State)
+
+    expect(wrapper.vm.algodClient).toStrictEqual(fallbackClient)
+  })
 })
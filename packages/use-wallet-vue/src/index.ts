@@ -2,3 +2,4 @@ export * from '@txnlab/use-wallet'
 export { WalletManagerPlugin } from './walletManagerPlugin'
 export { useWallet, type Wallet } from './useWallet'
 export { useNetwork } from './useNetwork'
+export { useIndexer } from './useIndexer'
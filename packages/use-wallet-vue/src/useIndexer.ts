@@ -0,0 +1,22 @@
+import { useStore } from '@tanstack/vue-store'
+import { WalletManager, type IndexerConfig } from '@txnlab/use-wallet'
+import { inject } from 'vue'
+
+export function useIndexer() {
+  const manager = inject<WalletManager>('walletManager')
+
+  if (!manager) {
+    throw new Error('WalletManager plugin is not properly installed')
+  }
+
+  const indexerClient = useStore(manager.store, (state) => state.indexerClient)
+
+  const updateIndexerConfig = (networkId: string, config: Partial<IndexerConfig>): void => {
+    manager.updateIndexerConfig(networkId, config)
+  }
+
+  return {
+    indexerClient,
+    updateIndexerConfig
+  }
+}
@@ -1,5 +1,10 @@
 import { useStore } from '@tanstack/vue-store'
-import { WalletManager, type AlgodConfig } from '@txnlab/use-wallet'
+import {
+  WalletManager,
+  type AlgodConfig,
+  type AlgodHealth,
+  type NetworkConfig
+} from '@txnlab/use-wallet'
 import algosdk from 'algosdk'
 import { computed, inject, ref } from 'vue'
 import type { SetAlgodClient } from './useWallet'
@@ -17,6 +22,7 @@ export function useNetwork() {
   }
 
   const activeNetwork = useStore(manager.store, (state) => state.activeNetwork)
+  const algodHealth = useStore(manager.store, (state) => state.algodHealth)
 
   // Create a reactive store for network config
   const networkConfig = useStore(manager.store, (state) => ({
@@ -49,8 +55,11 @@ export function useNetwork() {
     console.info(`[Vue] ✅ Active network set to ${networkId}.`)
   }
 
-  const updateAlgodConfig = (networkId: string, config: Partial<AlgodConfig>): void => {
-    manager.updateAlgodConfig(networkId, config)
+  const updateAlgodConfig = async (
+    networkId: string,
+    config: Partial<AlgodConfig>
+  ): Promise<void> => {
+    await manager.updateAlgodConfig(networkId, config)
     manager.store.setState((state) => ({ ...state }))
 
     // If this is the active network, update the algodClient
@@ -77,12 +86,28 @@ export function useNetwork() {
     }
   }
 
+  const addNetwork = (networkId: string, config: NetworkConfig): void => {
+    manager.addNetwork(networkId, config)
+  }
+
+  const removeNetwork = (networkId: string): void => {
+    manager.removeNetwork(networkId)
+  }
+
+  const checkAlgodHealth = (): Promise<AlgodHealth> => {
+    return manager.checkAlgodHealth()
+  }
+
   return {
     activeNetwork,
     networkConfig: manager.networkConfig,
     activeNetworkConfig,
     setActiveNetwork,
     updateAlgodConfig,
-    resetNetworkConfig
+    resetNetworkConfig,
+    addNetwork,
+    removeNetwork,
+    algodHealth,
+    checkAlgodHealth
   }
 }
@@ -5,8 +5,12 @@ import {
   type WalletAccount,
   type WalletKey,
   type WalletMetadata,
+  type WalletStatus,
   type WalletId,
+  type SendTransactionsResult,
+  type SignAndSendOptions,
   type SignMetadata,
+  type SignRequestOptions,
   type SignDataResponse
 } from '@txnlab/use-wallet'
 import algosdk from 'algosdk'
@@ -21,6 +25,10 @@ export interface Wallet {
   activeAccount: WalletAccount | null
   isConnected: boolean
   isActive: boolean
+  /** Connection status, e.g. to show a spinner while connecting */
+  status: WalletStatus
+  /** Error from the last failed connect, resume or disconnect */
+  error: Error | null
   connect: (args?: Record<string, any>) => Promise<WalletAccount[]>
   disconnect: () => Promise<void>
   setActive: () => void
@@ -42,13 +50,17 @@ export function useWallet() {
   }
 
   const managerStatus = useStore(manager.store, (state) => state.managerStatus)
-  const isReady = computed(() => managerStatus.value === 'ready')
+  const isReady = computed(() => managerStatus.value !== 'initializing')
 
   const walletStateMap = useStore(manager.store, (state) => state.wallets)
   const activeWalletId = useStore(manager.store, (state) => state.activeWallet)
+  const walletKeys = useStore(manager.store, (state) => state.walletKeys)
+  const walletStatusMap = useStore(manager.store, (state) => state.walletStatus)
+  const trackedTransactions = useStore(manager.store, (state) => state.trackedTransactions)
 
   const transformToWallet = (wallet: BaseWallet): Wallet => {
     const walletState = walletStateMap.value[wallet.walletKey]
+    const walletStatus = walletStatusMap.value[wallet.walletKey]
     return {
       id: wallet.id,
       walletKey: wallet.walletKey,
@@ -57,6 +69,8 @@ export function useWallet() {
       activeAccount: walletState?.activeAccount ?? null,
       isConnected: !!walletState,
       isActive: wallet.walletKey === activeWalletId.value,
+      status: walletStatus?.status ?? (walletState ? 'connected' : 'idle'),
+      error: walletStatus?.error ?? null,
       canSignData: wallet.canSignData ?? false,
       connect: (args) => wallet.connect(args),
       disconnect: () => wallet.disconnect(),
@@ -66,6 +80,8 @@ export function useWallet() {
   }
 
   const wallets = computed(() => {
+    // Recompute when wallets are added or removed at runtime
+    void walletKeys.value
     return [...manager.wallets.values()].map(transformToWallet)
   })
 
@@ -101,12 +117,23 @@ export function useWallet() {
 
   const signTransactions = <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
-    indexesToSign?: number[]
+    indexesToSign?: number[],
+    options?: SignRequestOptions
   ): Promise<(Uint8Array | null)[]> => {
     if (!activeBaseWallet.value) {
       throw new Error('No active wallet')
     }
-    return activeBaseWallet.value.signTransactions(txnGroup, indexesToSign)
+    return manager.signTransactions(txnGroup, indexesToSign, options)
+  }
+
+  const signAndSend = <T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    options?: SignAndSendOptions
+  ): Promise<SendTransactionsResult> => {
+    if (!activeBaseWallet.value) {
+      throw new Error('No active wallet')
+    }
+    return manager.signAndSend(txnGroup, options)
   }
 
   const transactionSigner = (
@@ -116,14 +143,18 @@ export function useWallet() {
     if (!activeBaseWallet.value) {
       throw new Error('No active wallet')
     }
-    return activeBaseWallet.value.transactionSigner(txnGroup, indexesToSign)
+    return manager.transactionSigner(txnGroup, indexesToSign)
   }
 
-  const signData = (data: string, metadata: SignMetadata): Promise<SignDataResponse> => {
+  const signData = (
+    data: string,
+    metadata: SignMetadata,
+    options?: SignRequestOptions
+  ): Promise<SignDataResponse> => {
     if (!activeBaseWallet.value) {
       throw new Error('No active wallet')
     }
-    return activeBaseWallet.value.signData(data, metadata)
+    return activeBaseWallet.value.signData(data, metadata, options)
   }
 
   return {
@@ -140,6 +171,8 @@ export function useWallet() {
     activeWalletAddresses,
     activeAccount,
     activeAddress,
+    trackedTransactions,
+    signAndSend,
     signData,
     signTransactions,
     transactionSigner
@@ -1,5 +1,5 @@
 import { WalletManager, type WalletManagerConfig } from '@txnlab/use-wallet'
-import { ref } from 'vue'
+import { ref, toRaw } from 'vue'
 import type algosdk from 'algosdk'
 
 export const WalletManagerPlugin = {
@@ -12,6 +12,13 @@ export const WalletManagerPlugin = {
       manager.algodClient = client
     }
 
+    // Follow the store when the health checker switches to another algod endpoint
+    const unsubscribe = manager.subscribe((state) => {
+      if (state.algodClient !== toRaw(algodClient.value)) {
+        algodClient.value = state.algodClient
+      }
+    })
+
     app.provide('walletManager', manager)
     app.provide('algodClient', algodClient)
     app.provide('setAlgodClient', setAlgodClient)
@@ -19,5 +26,11 @@ export const WalletManagerPlugin = {
     manager.resumeSessions().catch((error) => {
       console.error('Error resuming sessions:', error)
     })
+
+    // Stop the manager's background work when the app is unmounted
+    app.onUnmount(() => {
+      unsubscribe()
+      manager.destroy()
+    })
   }
 }
@@ -0,0 +1,198 @@
+import algosdk from 'algosdk'
+import { describeTransactions } from 'src/describe'
+
+const sender = '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
+const receiver = 'EW64GC6F24M7NDSC5R3ES4YUVE3ZXXNMARJHDCCCLIHZU6TBEOC7XRSBG4'
+
+const suggestedParams = { fee: 1000, flatFee: true, firstValid: 1, lastValid: 1001, minFee: 1000 }
+
+const createAlgodClient = () => {
+  const getAssetByID = vi.fn((assetId: bigint) => ({
+    do: () =>
+      assetId === BigInt(31566704)
+        ? Promise.resolve(
+            new algosdk.modelsv2.Asset({
+              index: assetId,
+              params: new algosdk.modelsv2.AssetParams({
+                creator: sender,
+                decimals: 6,
+                total: BigInt(1e15),
+                unitName: 'USDC'
+              })
+            })
+          )
+        : Promise.reject(new Error('asset does not exist'))
+  }))
+  return { getAssetByID } as unknown as algosdk.Algodv2 & { getAssetByID: typeof getAssetByID }
+}
+
+describe('describeTransactions', () => {
+  it('describes payments', async () => {
+    const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender,
+      receiver,
+      amount: 5_250_000,
+      suggestedParams
+    })
+
+    const [description] = await describeTransactions([algosdk.encodeUnsignedTransaction(txn)])
+
+    expect(description).toMatchObject({
+      index: 0,
+      type: algosdk.TransactionType.pay,
+      sender,
+      summary: `Send 5.25 ALGO to ${receiver}`,
+      fee: BigInt(1000),
+      risks: []
+    })
+  })
+
+  it('formats asset amounts with the unit name and decimals from algod', async () => {
+    const algodClient = createAlgodClient()
+    const txns = [
+      algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+        sender,
+        receiver,
+        amount: 1_500_000,
+        assetIndex: 31566704,
+        suggestedParams
+      }),
+      algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+        sender,
+        receiver: sender,
+        amount: 0,
+        assetIndex: 31566704,
+        suggestedParams
+      }),
+      algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+        sender,
+        receiver,
+        amount: 7,
+        assetIndex: 123,
+        suggestedParams
+      })
+    ]
+
+    const descriptions = await describeTransactions(txns, { algodClient })
+
+    expect(descriptions.map(({ summary }) => summary)).toEqual([
+      `Send 1.5 USDC to ${receiver}`,
+      'Opt in to asset 31566704 (USDC)',
+      `Send 7 units of asset 123 to ${receiver}`
+    ])
+    expect(algodClient.getAssetByID).toHaveBeenCalledTimes(2)
+  })
+
+  it('decodes ARC-4 method calls with a matching contract', async () => {
+    const contract = new algosdk.ABIContract({
+      name: 'Greeter',
+      methods: [
+        {
+          name: 'hello',
+          args: [
+            { type: 'string', name: 'name' },
+            { type: 'account', name: 'friend' }
+          ],
+          returns: { type: 'string' }
+        }
+      ]
+    })
+    const method = contract.getMethodByName('hello')
+    const txn = algosdk.makeApplicationNoOpTxnFromObject({
+      sender,
+      appIndex: 42,
+      appArgs: [
+        method.getSelector(),
+        algosdk.ABIType.from('string').encode('World'),
+        algosdk.ABIType.from('uint8').encode(1)
+      ],
+      accounts: [receiver],
+      suggestedParams
+    })
+
+    const [withContract] = await describeTransactions([txn], { contracts: [contract] })
+    const [withoutContract] = await describeTransactions([txn])
+
+    expect(withContract.summary).toBe('Call app 42 (method hello)')
+    expect(withContract.method).toEqual({
+      name: 'hello',
+      signature: 'hello(string,account)string',
+      args: [
+        { name: 'name', value: 'World' },
+        { name: 'friend', value: BigInt(1) }
+      ]
+    })
+    expect(withoutContract.summary).toBe('Call app 42')
+    expect(withoutContract.method).toBeUndefined()
+  })
+
+  it('flags risky fields', async () => {
+    const txns = [
+      algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender,
+        receiver,
+        amount: 0,
+        closeRemainderTo: receiver,
+        rekeyTo: receiver,
+        suggestedParams
+      }),
+      algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+        sender,
+        receiver,
+        amount: 10,
+        assetIndex: 123,
+        assetSender: receiver,
+        suggestedParams
+      })
+    ]
+
+    const descriptions = await describeTransactions([[txns[0]], [txns[1]]])
+
+    expect(descriptions[0].summary).toBe(
+      `Send 0 ALGO to ${receiver} and close the account to ${receiver}`
+    )
+    expect(descriptions[0].risks.map(({ type }) => type)).toEqual(['rekey', 'closeAccount'])
+    expect(descriptions[1]).toMatchObject({
+      index: 1,
+      summary: `Claw back 10 units of asset 123 from ${receiver} to ${receiver}`,
+      risks: [{ type: 'clawback' }]
+    })
+  })
+
+  it('describes other transaction types', async () => {
+    const txns = [
+      algosdk.makeAssetCreateTxnWithSuggestedParamsFromObject({
+        sender,
+        total: 1000,
+        decimals: 0,
+        defaultFrozen: false,
+        assetName: 'Token',
+        suggestedParams
+      }),
+      algosdk.makeAssetDestroyTxnWithSuggestedParamsFromObject({
+        sender,
+        assetIndex: 5,
+        suggestedParams
+      }),
+      algosdk.makeAssetFreezeTxnWithSuggestedParamsFromObject({
+        sender,
+        assetIndex: 5,
+        freezeTarget: receiver,
+        frozen: true,
+        suggestedParams
+      }),
+      algosdk.makeApplicationOptInTxnFromObject({ sender, appIndex: 7, suggestedParams }),
+      algosdk.makeKeyRegistrationTxnWithSuggestedParamsFromObject({ sender, suggestedParams })
+    ]
+
+    const descriptions = await describeTransactions(txns)
+
+    expect(descriptions.map(({ summary }) => summary)).toEqual([
+      'Create asset Token with a supply of 1000',
+      'Destroy asset 5',
+      `Freeze asset 5 for ${receiver}`,
+      'Opt in to app 7',
+      'Go offline'
+    ])
+  })
+})
@@ -0,0 +1,109 @@
+import {
+  InvalidInputError,
+  SessionExpiredError,
+  UnauthorizedError,
+  UnsupportedMethodError,
+  UserRejectedError,
+  WalletError,
+  WalletErrorCode,
+  createWalletError,
+  fromARC0027Error,
+  fromMobileWalletError,
+  toWalletError
+} from 'src/errors'
+
+describe('Errors', () => {
+  describe('WalletError', () => {
+    it('sets the code, name and cause', () => {
+      const cause = new Error('Native error')
+      const error = new UserRejectedError(undefined, { cause, data: { reason: 'closed' } })
+
+      expect(error).toBeInstanceOf(WalletError)
+      expect(error).toBeInstanceOf(Error)
+      expect(error.name).toBe('UserRejectedError')
+      expect(error.message).toBe('User rejected the request')
+      expect(error.code).toBe(WalletErrorCode.USER_REJECTED)
+      expect(error.cause).toBe(cause)
+      expect(error.data).toEqual({ reason: 'closed' })
+    })
+  })
+
+  describe('createWalletError', () => {
+    it('uses the subclass for the code', () => {
+      const error = createWalletError(WalletErrorCode.SESSION_EXPIRED, 'No session')
+
+      expect(error).toBeInstanceOf(SessionExpiredError)
+      expect(error.message).toBe('No session')
+    })
+
+    it('falls back to WalletError for codes without a subclass', () => {
+      const error = createWalletError(WalletErrorCode.UNINITIALIZED_WALLET, 'Not initialized')
+
+      expect(error.constructor).toBe(WalletError)
+      expect(error.code).toBe(WalletErrorCode.UNINITIALIZED_WALLET)
+    })
+  })
+
+  describe('toWalletError', () => {
+    it('returns WalletErrors unchanged', () => {
+      const error = new InvalidInputError()
+      expect(toWalletError(error)).toBe(error)
+    })
+
+    it('maps errors with an ARC-0001 code', () => {
+      const cause = Object.assign(new Error('Unsupported'), { code: 4200, data: { id: 1 } })
+      const error = toWalletError(cause)
+
+      expect(error).toBeInstanceOf(UnsupportedMethodError)
+      expect(error.message).toBe('Unsupported')
+      expect(error.cause).toBe(cause)
+      expect(error.data).toEqual({ id: 1 })
+    })
+
+    it('maps errors without a known code to UNKNOWN', () => {
+      expect(toWalletError(new Error('Oops')).code).toBe(WalletErrorCode.UNKNOWN)
+      expect(toWalletError({ code: -32603, message: 'Internal error' })).toMatchObject({
+        code: WalletErrorCode.UNKNOWN,
+        message: 'Internal error'
+      })
+      expect(toWalletError('Oops').message).toBe('Oops')
+    })
+  })
+
+  describe('fromARC0027Error', () => {
+    it('maps ARC-0027 codes', () => {
+      expect(fromARC0027Error({ code: 4001, message: 'Canceled' })).toBeInstanceOf(
+        UserRejectedError
+      )
+      expect(fromARC0027Error({ code: 4003, message: 'Not supported' })).toBeInstanceOf(
+        UnsupportedMethodError
+      )
+      expect(fromARC0027Error({ code: 4201, message: 'Invalid group' })).toBeInstanceOf(
+        InvalidInputError
+      )
+      expect(fromARC0027Error({ code: 4300, message: 'Failed to post' }).code).toBe(
+        WalletErrorCode.UNKNOWN
+      )
+    })
+  })
+
+  describe('fromMobileWalletError', () => {
+    it('maps ARC-0001 codes, and rejections without a code by their message', () => {
+      const cause = new Error('Failed to sign transaction')
+
+      expect(fromMobileWalletError({ code: 4100, message: 'Unauthorized' }, cause)).toBeInstanceOf(
+        UnauthorizedError
+      )
+      expect(fromMobileWalletError(new Error('Transaction Request Rejected'), cause)).toMatchObject(
+        {
+          code: WalletErrorCode.USER_REJECTED,
+          cause
+        }
+      )
+      expect(fromMobileWalletError(undefined, cause)).toMatchObject({
+        code: WalletErrorCode.UNKNOWN,
+        message: 'Failed to sign transaction'
+      })
+    })
+  })
+})
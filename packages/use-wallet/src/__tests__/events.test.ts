@@ -0,0 +1,251 @@
+import { Store } from '@tanstack/store'
+import algosdk from 'algosdk'
+import { attachEventEmitter, EventEmitter, type WalletManagerEvents } from 'src/events'
+import {
+  DEFAULT_STATE,
+  addWallet,
+  removeWallet,
+  setAccounts,
+  setActiveAccount,
+  setActiveNetwork,
+  type State
+} from 'src/store'
+import { BaseWallet } from 'src/wallets/base'
+import { WalletId, type WalletConstructor } from 'src/wallets/types'
+
+vi.mock('src/logger', () => ({
+  logger: {
+    error: vi.fn(),
+    warn: vi.fn(),
+    createScopedLogger: vi.fn().mockReturnValue({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn()
+    })
+  }
+}))
+
+class TestWallet extends BaseWallet {
+  public signer = vi.fn()
+
+  constructor(args: WalletConstructor<WalletId.CUSTOM>) {
+    super(args)
+  }
+
+  protected doConnect = async () => []
+  protected doDisconnect = async () => {}
+  protected doResumeSession = async () => {}
+
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    indexesToSign?: number[]
+  ): Promise<(Uint8Array | null)[]> => {
+    return this.signer(txnGroup, indexesToSign)
+  }
+}
+
+describe('Events', () => {
+  describe('EventEmitter', () => {
+    it('calls handlers with the event payload', () => {
+      const emitter = new EventEmitter<WalletManagerEvents>()
+      const handler = vi.fn()
+
+      emitter.on('disconnect', handler)
+      emitter.emit('disconnect', { walletKey: WalletId.PERA })
+
+      expect(handler).toHaveBeenCalledWith({ walletKey: WalletId.PERA })
+    })
+
+    it('removes handlers', () => {
+      const emitter = new EventEmitter<WalletManagerEvents>()
+      const handlerA = vi.fn()
+      const handlerB = vi.fn()
+
+      const unsubscribe = emitter.on('disconnect', handlerA)
+      emitter.on('disconnect', handlerB)
+      unsubscribe()
+      emitter.off('disconnect', handlerB)
+      emitter.emit('disconnect', { walletKey: WalletId.PERA })
+
+      expect(handlerA).not.toHaveBeenCalled()
+      expect(handlerB).not.toHaveBeenCalled()
+    })
+
+    it('keeps calling handlers if one throws', () => {
+      const emitter = new EventEmitter<WalletManagerEvents>()
+      const handler = vi.fn()
+
+      emitter.on('disconnect', () => {
+        throw new Error('Handler error')
+      })
+      emitter.on('disconnect', handler)
+      emitter.emit('disconnect', { walletKey: WalletId.PERA })
+
+      expect(handler).toHaveBeenCalled()
+    })
+  })
+
+  describe('store mutations', () => {
+    let store: Store<State>
+    let emitter: EventEmitter<WalletManagerEvents>
+
+    const account1 = { name: 'Account 1', address: 'address1' }
+    const account2 = { name: 'Account 2', address: 'address2' }
+
+    beforeEach(() => {
+      store = new Store<State>(DEFAULT_STATE)
+      emitter = new EventEmitter<WalletManagerEvents>()
+      attachEventEmitter(store, emitter)
+    })
+
+    it('emits connect and disconnect', () => {
+      const onConnect = vi.fn()
+      const onDisconnect = vi.fn()
+      emitter.on('connect', onConnect)
+      emitter.on('disconnect', onDisconnect)
+
+      addWallet(store, {
+        walletId: WalletId.PERA,
+        wallet: { accounts: [account1], activeAccount: account1 }
+      })
+      removeWallet(store, { walletId: WalletId.PERA })
+      removeWallet(store, { walletId: WalletId.PERA })
+
+      expect(onConnect).toHaveBeenCalledWith({ walletKey: WalletId.PERA, accounts: [account1] })
+      expect(onDisconnect).toHaveBeenCalledTimes(1)
+      expect(onDisconnect).toHaveBeenCalledWith({ walletKey: WalletId.PERA })
+    })
+
+    it('emits activeAccountChanged when the active account changes', () => {
+      const handler = vi.fn()
+      addWallet(store, {
+        walletId: WalletId.PERA,
+        wallet: { accounts: [account1, account2], activeAccount: account1 }
+      })
+      emitter.on('activeAccountChanged', handler)
+
+      setActiveAccount(store, { walletId: WalletId.PERA, address: account1.address })
+      expect(handler).not.toHaveBeenCalled()
+
+      setActiveAccount(store, { walletId: WalletId.PERA, address: account2.address })
+      expect(handler).toHaveBeenCalledWith({ walletKey: WalletId.PERA, account: account2 })
+    })
+
+    it('emits accountsChanged, and activeAccountChanged if the active account was removed', () => {
+      const onAccountsChanged = vi.fn()
+      const onActiveAccountChanged = vi.fn()
+      addWallet(store, {
+        walletId: WalletId.PERA,
+        wallet: { accounts: [account1, account2], activeAccount: account1 }
+      })
+      emitter.on('accountsChanged', onAccountsChanged)
+      emitter.on('activeAccountChanged', onActiveAccountChanged)
+
+      setAccounts(store, { walletId: WalletId.PERA, accounts: [account2] })
+
+      expect(onAccountsChanged).toHaveBeenCalledWith({
+        walletKey: WalletId.PERA,
+        accounts: [account2]
+      })
+      expect(onActiveAccountChanged).toHaveBeenCalledWith({
+        walletKey: WalletId.PERA,
+        account: account2
+      })
+    })
+
+    it('emits networkChanged when the network changes', () => {
+      const handler = vi.fn()
+      emitter.on('networkChanged', handler)
+      const algodClient = new algosdk.Algodv2('', 'https://mainnet-api.4160.nodely.dev/')
+
+      setActiveNetwork(store, { networkId: 'testnet', algodClient })
+      expect(handler).not.toHaveBeenCalled()
+
+      setActiveNetwork(store, { networkId: 'mainnet', algodClient })
+      expect(handler).toHaveBeenCalledWith({ networkId: 'mainnet', previousNetworkId: 'testnet' })
+    })
+  })
+
+  describe('signing', () => {
+    let store: Store<State>
+    let emitter: EventEmitter<WalletManagerEvents>
+    let wallet: TestWallet
+
+    const txn = new algosdk.Transaction({
+      type: algosdk.TransactionType.pay,
+      sender: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+      suggestedParams: {
+        fee: 0,
+        firstValid: 51,
+        lastValid: 61,
+        minFee: 1000,
+        genesisID: 'testnet-v1.0'
+      },
+      paymentParams: {
+        receiver: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+        amount: 1000
+      }
+    })
+
+    beforeEach(() => {
+      store = new Store<State>(DEFAULT_STATE)
+      emitter = new EventEmitter<WalletManagerEvents>()
+      attachEventEmitter(store, emitter)
+      wallet = new TestWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () => ({}) as any,
+        store,
+        subscribe: vi.fn()
+      })
+    })
+
+    it('emits signRequested and signCompleted', async () => {
+      const onSignRequested = vi.fn()
+      const onSignCompleted = vi.fn()
+      emitter.on('signRequested', onSignRequested)
+      emitter.on('signCompleted', onSignCompleted)
+
+      const signedTxns = [new Uint8Array([1, 2, 3])]
+      wallet.signer.mockResolvedValue(signedTxns)
+
+      await expect(wallet.signTransactions([txn], [0])).resolves.toEqual(signedTxns)
+
+      expect(onSignRequested).toHaveBeenCalledWith({
+        walletKey: WalletId.CUSTOM,
+        txnGroup: [txn],
+        indexesToSign: [0]
+      })
+      expect(onSignCompleted).toHaveBeenCalledWith({ walletKey: WalletId.CUSTOM, signedTxns })
+    })
+
+    it('emits signFailed when signing fails', async () => {
+      const onSignFailed = vi.fn()
+      const onSignCompleted = vi.fn()
+      emitter.on('signFailed', onSignFailed)
+      emitter.on('signCompleted', onSignCompleted)
+
+      const error = new Error('User rejected')
+      wallet.signer.mockRejectedValue(error)
+
+      await expect(wallet.signTransactions([txn])).rejects.toThrow('User rejected')
+
+      expect(onSignFailed).toHaveBeenCalledWith({
+        walletKey: WalletId.CUSTOM,
+        error: expect.objectContaining({ message: 'User rejected', cause: error })
+      })
+      expect(onSignCompleted).not.toHaveBeenCalled()
+    })
+
+    it('emits signing events for transactionSigner', async () => {
+      const onSignRequested = vi.fn()
+      emitter.on('signRequested', onSignRequested)
+      wallet.signer.mockResolvedValue([new Uint8Array([1])])
+
+      await wallet.transactionSigner([txn], [0])
+
+      expect(onSignRequested).toHaveBeenCalled()
+    })
+  })
+})
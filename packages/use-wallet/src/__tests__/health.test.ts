@@ -0,0 +1,211 @@
+import { Store } from '@tanstack/store'
+import { AlgodHealthChecker, createAlgodHealth } from 'src/health'
+import { DEFAULT_STATE, type State } from 'src/store'
+import type { AlgodEndpoint, NetworkConfig } from 'src/network'
+
+vi.mock('src/logger', () => ({
+  logger: {
+    createScopedLogger: vi.fn().mockReturnValue({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn()
+    })
+  }
+}))
+
+const networkConfig: NetworkConfig = {
+  algod: {
+    token: '',
+    baseServer: 'https://primary.test',
+    fallbacks: [
+      { token: '', baseServer: 'https://backup-1.test' },
+      { token: '', baseServer: 'https://backup-2.test' }
+    ]
+  }
+}
+
+const getBaseServer = (algodClient: State['algodClient']) =>
+  JSON.stringify(algodClient).match(/https:\/\/[\w-]+\.test/)?.[0]
+
+describe('AlgodHealthChecker', () => {
+  let store: Store<State>
+  let unhealthyServers: Set<string>
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    store = new Store<State>({
+      ...DEFAULT_STATE,
+      activeNetwork: 'custom',
+      networkConfig: { custom: networkConfig },
+      algodHealth: createAlgodHealth('custom', networkConfig)
+    })
+    unhealthyServers = new Set()
+    fetchMock = vi.fn((url: string | URL) => {
+      const { origin } = new URL(url)
+      return unhealthyServers.has(origin)
+        ? Promise.reject(new TypeError('Failed to fetch'))
+        : Promise.resolve(new Response('{}', { status: 200 }))
+    })
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('creates health with every endpoint unchecked', () => {
+    expect(createAlgodHealth('custom', networkConfig)).toEqual({
+      networkId: 'custom',
+      activeEndpoint: 0,
+      endpoints: [
+        { baseServer: 'https://primary.test', status: 'unknown' },
+        { baseServer: 'https://backup-1.test', status: 'unknown' },
+        { baseServer: 'https://backup-2.test', status: 'unknown' }
+      ]
+    })
+  })
+
+  it('reports the health of each endpoint', async () => {
+    unhealthyServers.add('https://backup-1.test')
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 1000 })
+
+    const algodHealth = await checker.check()
+
+    expect(algodHealth).toEqual({
+      networkId: 'custom',
+      activeEndpoint: 0,
+      endpoints: [
+        { baseServer: 'https://primary.test', status: 'healthy', checkedAt: expect.any(Number) },
+        {
+          baseServer: 'https://backup-1.test',
+          status: 'unhealthy',
+          checkedAt: expect.any(Number),
+          error: expect.any(String)
+        },
+        { baseServer: 'https://backup-2.test', status: 'healthy', checkedAt: expect.any(Number) }
+      ]
+    })
+    expect(store.state.algodHealth).toEqual(algodHealth)
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('https://primary.test/health'),
+      expect.anything()
+    )
+  })
+
+  it('switches to the first healthy endpoint, and back once the primary recovers', async () => {
+    const initialClient = store.state.algodClient
+    unhealthyServers.add('https://primary.test').add('https://backup-1.test')
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 1000 })
+
+    await checker.check()
+
+    expect(store.state.algodHealth.activeEndpoint).toBe(2)
+    expect(store.state.algodClient).not.toBe(initialClient)
+    expect(getBaseServer(store.state.algodClient)).toBe('https://backup-2.test')
+
+    unhealthyServers.clear()
+    await checker.check()
+
+    expect(store.state.algodHealth.activeEndpoint).toBe(0)
+    expect(getBaseServer(store.state.algodClient)).toBe('https://primary.test')
+  })
+
+  it('keeps the current endpoint if no endpoint is healthy', async () => {
+    const initialClient = store.state.algodClient
+    unhealthyServers
+      .add('https://primary.test')
+      .add('https://backup-1.test')
+      .add('https://backup-2.test')
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 1000 })
+
+    await checker.check()
+
+    expect(store.state.algodHealth.activeEndpoint).toBe(0)
+    expect(store.state.algodClient).toBe(initialClient)
+  })
+
+  it('verifies fallback endpoints before switching to them', async () => {
+    unhealthyServers.add('https://primary.test')
+    const verifyEndpoint = vi.fn(async (_networkId: string, { baseServer }: AlgodEndpoint) => {
+      if (baseServer === 'https://backup-1.test') {
+        throw new Error('Wrong chain')
+      }
+    })
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 1000, verifyEndpoint })
+
+    await checker.check()
+    await checker.check()
+
+    expect(store.state.algodHealth.activeEndpoint).toBe(2)
+    expect(store.state.algodHealth.endpoints[1]).toMatchObject({
+      status: 'unhealthy',
+      error: 'Wrong chain'
+    })
+    expect(getBaseServer(store.state.algodClient)).toBe('https://backup-2.test')
+    // Endpoints that passed are not verified again
+    expect(verifyEndpoint).toHaveBeenCalledTimes(3)
+    expect(verifyEndpoint).toHaveBeenCalledWith('custom', networkConfig.algod.fallbacks![1])
+  })
+
+  it('marks endpoints that do not respond in time as unhealthy', async () => {
+    vi.useFakeTimers()
+    fetchMock.mockImplementation(() => new Promise(() => {}))
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 500 })
+
+    const result = checker.check()
+    await vi.advanceTimersByTimeAsync(500)
+
+    expect((await result).endpoints[0]).toMatchObject({
+      status: 'unhealthy',
+      error: 'No response after 500ms'
+    })
+  })
+
+  it('discards results for a previous network or config', async () => {
+    unhealthyServers.add('https://primary.test')
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 1000 })
+
+    const result = checker.check()
+    checker.reset()
+    await result
+
+    expect(store.state.algodHealth).toEqual(createAlgodHealth('custom', networkConfig))
+  })
+
+  it('checks networks with fallbacks periodically once started', async () => {
+    vi.useFakeTimers()
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 500 })
+
+    checker.start()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fetchMock).toHaveBeenCalledTimes(6)
+
+    checker.stop()
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(fetchMock).toHaveBeenCalledTimes(6)
+  })
+
+  it('does not check networks without fallbacks until asked', async () => {
+    vi.useFakeTimers()
+    const singleEndpoint = { algod: { token: '', baseServer: 'https://primary.test' } }
+    store.setState((state) => ({
+      ...state,
+      networkConfig: { custom: singleEndpoint },
+      algodHealth: createAlgodHealth('custom', singleEndpoint)
+    }))
+    const checker = new AlgodHealthChecker({ store, interval: 1000, timeout: 500 })
+
+    checker.start()
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    await checker.check()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    checker.stop()
+  })
+})
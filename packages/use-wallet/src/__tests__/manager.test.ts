@@ -1,14 +1,32 @@
 import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
+import { InvalidInputError, NetworkMismatchError, TimeoutError, WalletError } from 'src/errors'
+import { AlgodHealthChecker } from 'src/health'
 import { logger } from 'src/logger'
 import { createNetworkConfig, DEFAULT_NETWORK_CONFIG, NetworkConfigBuilder } from 'src/network'
-import { LOCAL_STORAGE_KEY, PersistedState, State, DEFAULT_STATE } from 'src/store'
+import {
+  LEGACY_V3_STORAGE_KEY,
+  LOCAL_STORAGE_KEY,
+  PERSISTED_STATE_VERSION,
+  PersistedState,
+  State,
+  DEFAULT_STATE,
+  addWallet,
+  setActiveWallet,
+  setAvailability,
+  setPendingRequests,
+  setWalletStatus
+} from 'src/store'
 import { WalletManager } from 'src/manager'
-import { StorageAdapter } from 'src/storage'
+import { EncryptedSecretStore, NODE_SECRETS_STORAGE_KEY } from 'src/secrets'
+import { MemoryStorageBackend, StorageAdapter } from 'src/storage'
+import { TransactionTracker } from 'src/tracker'
+import { decodeTransaction } from 'src/validation'
 import { BaseWallet } from 'src/wallets/base'
 import { DeflyWallet } from 'src/wallets/defly'
 import { KibisisWallet } from 'src/wallets/kibisis'
-import { WalletId } from 'src/wallets/types'
+import { registerWalletProvider, unregisterWalletProvider } from 'src/wallets/registry'
+import { WalletId, type WalletConstructor } from 'src/wallets/types'
 import type { Mock } from 'vitest'
 
 vi.mock('src/logger', () => {
@@ -35,7 +53,8 @@ vi.mock('src/logger', () => {
 })
 
 // Mock storage adapter
-vi.mock('src/storage', () => ({
+vi.mock('src/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('src/storage')>()),
   StorageAdapter: {
     getItem: vi.fn(),
     setItem: vi.fn(),
@@ -265,6 +284,42 @@ describe('WalletManager', () => {
       expect(manager.activeNetwork).toBe('mainnet')
     })
 
+    it('updates the indexer client for the new network', async () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+
+      const initialClient = manager.indexerClient
+      await manager.setActiveNetwork('mainnet')
+
+      expect(manager.indexerClient).toBeInstanceOf(algosdk.Indexer)
+      expect(manager.indexerClient).not.toBe(initialClient)
+    })
+
+    it('resets algod health for the new network', async () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+
+      await manager.setActiveNetwork('mainnet')
+
+      expect(manager.algodHealth).toEqual({
+        networkId: 'mainnet',
+        activeEndpoint: 0,
+        endpoints: [{ baseServer: 'https://mainnet-api.4160.nodely.dev', status: 'unknown' }]
+      })
+    })
+
+    it('sets the indexer client to null for networks without an indexer', async () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+
+      await manager.setActiveNetwork('fnet')
+
+      expect(manager.indexerClient).toBeNull()
+    })
+
     it('throws error for invalid network', async () => {
       const manager = new WalletManager({
         wallets: [WalletId.DEFLY, WalletId.KIBISIS]
@@ -332,31 +387,31 @@ describe('WalletManager', () => {
       expect(manager.networkConfig.testnet.algod.baseServer).toBe('https://new-server.com')
     })
 
-    it('throws error for non-existent network', () => {
+    it('rejects for non-existent network', async () => {
       const manager = new WalletManager({
         wallets: [WalletId.DEFLY, WalletId.KIBISIS]
       })
 
-      expect(() =>
+      await expect(
         manager.updateAlgodConfig('invalid-network', {
           token: 'new-token',
           baseServer: 'https://new-server.com'
         })
-      ).toThrow('Network "invalid-network" not found in network configuration')
+      ).rejects.toThrow('Network "invalid-network" not found in network configuration')
     })
 
-    it('throws error for invalid configuration', () => {
+    it('rejects for invalid configuration', async () => {
       const manager = new WalletManager({
         wallets: [WalletId.DEFLY, WalletId.KIBISIS]
       })
 
-      expect(() =>
+      await expect(
         manager.updateAlgodConfig('mainnet', {
           token: 'new-token',
           // @ts-expect-error Testing invalid config
           baseServer: 123 // Invalid type for baseServer
         })
-      ).toThrow('Invalid network configuration')
+      ).rejects.toThrow('Invalid network configuration')
     })
 
     it('preserves existing configuration when partially updating', () => {
@@ -376,6 +431,248 @@ describe('WalletManager', () => {
     })
   })
 
+  describe('checkAlgodHealth', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('switches to a fallback endpoint while the primary endpoint is unhealthy', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn((url: string) =>
+          url.startsWith('https://primary.test')
+            ? Promise.reject(new TypeError('Failed to fetch'))
+            : Promise.resolve(new Response('{}', { status: 200 }))
+        )
+      )
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        networks: {
+          custom: {
+            algod: {
+              token: '',
+              baseServer: 'https://primary.test',
+              fallbacks: [{ token: '', baseServer: 'https://backup.test' }]
+            }
+          }
+        },
+        defaultNetwork: 'custom'
+      })
+      const initialClient = manager.algodClient
+
+      const algodHealth = await manager.checkAlgodHealth()
+
+      expect(algodHealth.activeEndpoint).toBe(1)
+      expect(algodHealth.endpoints.map(({ status }) => status)).toEqual(['unhealthy', 'healthy'])
+      expect(manager.algodHealth).toEqual(algodHealth)
+      expect(manager.algodClient).not.toBe(initialClient)
+    })
+
+    it('switches back to the primary endpoint when the network config is updated', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn((url: string) =>
+          url.startsWith('https://primary.test')
+            ? Promise.reject(new TypeError('Failed to fetch'))
+            : Promise.resolve(new Response('{}', { status: 200 }))
+        )
+      )
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        networks: {
+          custom: {
+            algod: {
+              token: '',
+              baseServer: 'https://primary.test',
+              fallbacks: [{ token: '', baseServer: 'https://backup.test' }]
+            }
+          }
+        },
+        defaultNetwork: 'custom'
+      })
+      await manager.checkAlgodHealth()
+      expect(manager.algodHealth.activeEndpoint).toBe(1)
+
+      manager.updateAlgodConfig('custom', { baseServer: 'https://new-primary.test' })
+
+      expect(manager.algodHealth).toEqual({
+        networkId: 'custom',
+        activeEndpoint: 0,
+        endpoints: [
+          { baseServer: 'https://new-primary.test', status: 'unknown' },
+          { baseServer: 'https://backup.test', status: 'unknown' }
+        ]
+      })
+    })
+  })
+
+  describe('verifyGenesis', () => {
+    const stubVersions = (genesisId: string, genesisHash: string) => {
+      const fetchMock = vi.fn(() =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              build: {
+                branch: 'rel/stable',
+                build_number: 1,
+                channel: 'stable',
+                commit_hash: 'abc',
+                major: 3,
+                minor: 0,
+                build_number_str: '1'
+              },
+              genesis_hash_b64: genesisHash,
+              genesis_id: genesisId,
+              versions: ['v2']
+            }),
+            { status: 200, headers: { 'Content-Type': 'application/json' } }
+          )
+        )
+      )
+      vi.stubGlobal('fetch', fetchMock)
+      return fetchMock
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('switches networks when the node is on the configured chain', async () => {
+      const fetchMock = stubVersions(
+        DEFAULT_NETWORK_CONFIG.mainnet.genesisId!,
+        DEFAULT_NETWORK_CONFIG.mainnet.genesisHash!
+      )
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        options: { verifyGenesis: true }
+      })
+
+      await manager.setActiveNetwork('mainnet')
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringContaining('https://mainnet-api.4160.nodely.dev/versions'),
+        expect.anything()
+      )
+      expect(manager.activeNetwork).toBe('mainnet')
+    })
+
+    it('rejects with a NetworkMismatchError if the node is on another chain', async () => {
+      stubVersions(
+        DEFAULT_NETWORK_CONFIG.testnet.genesisId!,
+        DEFAULT_NETWORK_CONFIG.testnet.genesisHash!
+      )
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        options: { verifyGenesis: true }
+      })
+
+      const result = manager.setActiveNetwork('mainnet')
+
+      await expect(result).rejects.toThrow(NetworkMismatchError)
+      await expect(result).rejects.toThrow(
+        'Algod node at https://mainnet-api.4160.nodely.dev is on testnet-v1.0, but "mainnet" expects mainnet-v1.0'
+      )
+      expect(manager.activeNetwork).toBe('testnet')
+    })
+
+    it('fills in the genesis ID and hash of networks that do not set them', async () => {
+      stubVersions('dockernet-v1', 'dGVzdC1nZW5lc2lzLWhhc2gtdGhhdC1pcy0zMi1ieXQ=')
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        options: { verifyGenesis: true }
+      })
+
+      await manager.setActiveNetwork('localnet')
+
+      expect(manager.activeNetworkConfig).toMatchObject({
+        genesisId: 'dockernet-v1',
+        genesisHash: 'dGVzdC1nZW5lc2lzLWhhc2gtdGhhdC1pcy0zMi1ieXQ='
+      })
+
+      // Persisted, so the node's genesis is still known after a reload
+      const [, serializedState] = vi.mocked(StorageAdapter.setItem).mock.lastCall!
+      expect(JSON.parse(serializedState).customNetworkConfigs.localnet).toMatchObject({
+        genesisId: 'dockernet-v1',
+        genesisHash: 'dGVzdC1nZW5lc2lzLWhhc2gtdGhhdC1pcy0zMi1ieXQ='
+      })
+    })
+
+    it('keeps the algod config if the updated node is on another chain', async () => {
+      stubVersions(
+        DEFAULT_NETWORK_CONFIG.testnet.genesisId!,
+        DEFAULT_NETWORK_CONFIG.testnet.genesisHash!
+      )
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        defaultNetwork: 'mainnet',
+        options: { verifyGenesis: true }
+      })
+      const initialClient = manager.algodClient
+
+      await expect(
+        manager.updateAlgodConfig('mainnet', { baseServer: 'https://testnet-node.test' })
+      ).rejects.toThrow(NetworkMismatchError)
+
+      expect(manager.networkConfig.mainnet.algod.baseServer).toBe(
+        'https://mainnet-api.4160.nodely.dev'
+      )
+      expect(manager.algodClient).toBe(initialClient)
+    })
+  })
+
+  describe('updateIndexerConfig', () => {
+    it('updates indexer configuration for a network', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+
+      manager.updateIndexerConfig('mainnet', { token: 'new-token' })
+
+      expect(manager.networkConfig.mainnet.indexer).toEqual({
+        token: 'new-token',
+        baseServer: 'https://mainnet-idx.4160.nodely.dev',
+        headers: {}
+      })
+      // Algod config should remain unchanged
+      expect(manager.networkConfig.mainnet.algod.token).toBe('')
+    })
+
+    it('updates active indexer client when modifying active network', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS],
+        defaultNetwork: 'mainnet'
+      })
+
+      const initialAlgodClient = manager.algodClient
+      const initialIndexerClient = manager.indexerClient
+      manager.updateIndexerConfig('mainnet', { baseServer: 'https://new-indexer.com' })
+
+      expect(manager.indexerClient).not.toBe(initialIndexerClient)
+      expect(manager.algodClient).toBe(initialAlgodClient)
+    })
+
+    it('throws error for non-existent network', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+
+      expect(() => manager.updateIndexerConfig('invalid-network', { token: 'new-token' })).toThrow(
+        'Network "invalid-network" not found in network configuration'
+      )
+    })
+
+    it('throws error for incomplete configuration', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+
+      // fnet has no default indexer, so a base server is required
+      expect(() => manager.updateIndexerConfig('fnet', { token: 'new-token' })).toThrow(
+        'Invalid network configuration'
+      )
+    })
+  })
+
   describe('resetNetworkConfig', () => {
     it('resets network configuration to base config', () => {
       // Set up initial state with custom network config
@@ -384,6 +681,8 @@ describe('WalletManager', () => {
         activeWallet: null,
         activeNetwork: 'testnet',
         algodClient: new algosdk.Algodv2('', 'https://testnet-api.4160.nodely.dev'),
+        indexerClient: null,
+        algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
         managerStatus: 'ready',
         networkConfig: DEFAULT_NETWORK_CONFIG,
         customNetworkConfigs: {
@@ -393,7 +692,14 @@ describe('WalletManager', () => {
               baseServer: 'https://custom-server.com'
             }
           }
-        }
+        },
+        walletKeys: [],
+        availability: {},
+        walletStatus: {},
+        pendingRequests: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       const manager = new WalletManager({
@@ -430,6 +736,8 @@ describe('WalletManager', () => {
         activeWallet: null,
         activeNetwork: 'mainnet',
         algodClient: new algosdk.Algodv2('', 'https://custom-server.com'),
+        indexerClient: null,
+        algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
         managerStatus: 'ready',
         networkConfig: DEFAULT_NETWORK_CONFIG,
         customNetworkConfigs: {
@@ -439,7 +747,14 @@ describe('WalletManager', () => {
               baseServer: 'https://custom-server.com'
             }
           }
-        }
+        },
+        walletKeys: [],
+        availability: {},
+        walletStatus: {},
+        pendingRequests: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       const manager = new WalletManager()
@@ -452,6 +767,107 @@ describe('WalletManager', () => {
     })
   })
 
+  describe('addNetwork', () => {
+    const privateNetwork = {
+      algod: { token: 'private-token', baseServer: 'https://private-node.test' },
+      isTestnet: true
+    }
+
+    it('adds a network that can be made active', async () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      manager.addNetwork('private', privateNetwork)
+      await manager.setActiveNetwork('private')
+
+      expect(manager.networkConfig.private).toEqual(privateNetwork)
+      expect(manager.activeNetwork).toBe('private')
+    })
+
+    it('restores added networks after a reload', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+      manager.addNetwork('private', privateNetwork)
+
+      const [, serializedState] = vi.mocked(StorageAdapter.setItem).mock.lastCall!
+      expect(JSON.parse(serializedState).customNetworkConfigs).toEqual({
+        private: privateNetwork
+      })
+
+      vi.mocked(StorageAdapter.getItem).mockReturnValue(serializedState)
+      const reloadedManager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      expect(reloadedManager.networkConfig.private).toEqual(privateNetwork)
+    })
+
+    it('throws error for an existing network', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      expect(() => manager.addNetwork('mainnet', privateNetwork)).toThrow(
+        'Network "mainnet" already exists in network configuration'
+      )
+    })
+
+    it('throws error for invalid configuration', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      expect(() =>
+        // @ts-expect-error Testing invalid config
+        manager.addNetwork('private', { algod: { token: '', baseServer: 123 } })
+      ).toThrow('Invalid network configuration')
+      expect(manager.networkConfig.private).toBeUndefined()
+    })
+  })
+
+  describe('removeNetwork', () => {
+    it('removes an added network and its persisted config', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+      manager.addNetwork('private', {
+        algod: { token: '', baseServer: 'https://private-node.test' }
+      })
+
+      manager.removeNetwork('private')
+
+      const [, serializedState] = vi.mocked(StorageAdapter.setItem).mock.lastCall!
+      expect(manager.networkConfig.private).toBeUndefined()
+      expect(JSON.parse(serializedState).customNetworkConfigs).toEqual({})
+    })
+
+    it('throws error for networks passed to the manager', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      expect(() => manager.removeNetwork('mainnet')).toThrow(
+        'Network "mainnet" was not added with addNetwork and can\'t be removed'
+      )
+    })
+
+    it('throws error for the active network', async () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+      manager.addNetwork('private', {
+        algod: { token: '', baseServer: 'https://private-node.test' }
+      })
+      await manager.setActiveNetwork('private')
+
+      expect(() => manager.removeNetwork('private')).toThrow(
+        'Network "private" is the active network and can\'t be removed'
+      )
+    })
+  })
+
   describe('activeNetworkConfig', () => {
     it('returns the configuration for the active network', () => {
       const manager = new WalletManager({
@@ -532,9 +948,18 @@ describe('WalletManager', () => {
         activeWallet: WalletId.KIBISIS,
         activeNetwork: 'betanet',
         algodClient: new algosdk.Algodv2('', 'https://betanet-api.4160.nodely.dev/'),
+        indexerClient: null,
+        algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
         managerStatus: 'ready',
         networkConfig: DEFAULT_NETWORK_CONFIG,
-        customNetworkConfigs: {}
+        customNetworkConfigs: {},
+        walletKeys: [],
+        availability: {},
+        walletStatus: {},
+        pendingRequests: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
     })
 
@@ -555,7 +980,10 @@ describe('WalletManager', () => {
       })
 
       // Store initializes with default state if null is returned
-      expect(manager.store.state).toEqual(DEFAULT_STATE)
+      expect(manager.store.state).toEqual({
+        ...DEFAULT_STATE,
+        walletKeys: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
       expect(manager.activeWallet).toBeNull()
       expect(manager.activeNetwork).toBe('testnet')
     })
@@ -573,7 +1001,10 @@ describe('WalletManager', () => {
         'Could not load state from local storage: Persisted state is invalid'
       )
       // Store initializes with default state if null is returned
-      expect(manager.store.state).toEqual(DEFAULT_STATE)
+      expect(manager.store.state).toEqual({
+        ...DEFAULT_STATE,
+        walletKeys: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
     })
   })
 
@@ -585,10 +1016,14 @@ describe('WalletManager', () => {
       await manager.setActiveNetwork('mainnet')
 
       const expectedState: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
         wallets: {},
         activeWallet: null,
         activeNetwork: 'mainnet',
-        customNetworkConfigs: {}
+        customNetworkConfigs: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       expect(vi.mocked(StorageAdapter.setItem)).toHaveBeenCalledWith(
@@ -613,6 +1048,7 @@ describe('WalletManager', () => {
 
       // Verify the persisted state includes the custom network config
       const expectedState: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
         wallets: {},
         activeWallet: null,
         activeNetwork: 'testnet',
@@ -620,7 +1056,42 @@ describe('WalletManager', () => {
           mainnet: {
             algod: customAlgod
           }
-        }
+        },
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
+      }
+
+      expect(vi.mocked(StorageAdapter.setItem)).toHaveBeenLastCalledWith(
+        LOCAL_STORAGE_KEY,
+        JSON.stringify(expectedState)
+      )
+    })
+
+    it('persists custom indexer configurations', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      manager.updateIndexerConfig('mainnet', { token: 'custom-token' })
+
+      const expectedState: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
+        wallets: {},
+        activeWallet: null,
+        activeNetwork: 'testnet',
+        customNetworkConfigs: {
+          mainnet: {
+            indexer: {
+              token: 'custom-token',
+              baseServer: 'https://mainnet-idx.4160.nodely.dev',
+              headers: {}
+            }
+          }
+        },
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       expect(vi.mocked(StorageAdapter.setItem)).toHaveBeenLastCalledWith(
@@ -644,6 +1115,7 @@ describe('WalletManager', () => {
 
       // The persisted state should only include the modified property
       const expectedState: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
         wallets: {},
         activeWallet: null,
         activeNetwork: 'testnet',
@@ -654,7 +1126,10 @@ describe('WalletManager', () => {
               token: 'custom-token'
             }
           }
-        }
+        },
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       expect(vi.mocked(StorageAdapter.setItem)).toHaveBeenCalledWith(
@@ -681,10 +1156,14 @@ describe('WalletManager', () => {
 
       // The persisted state should not include mainnet in customNetworkConfigs
       const expectedState: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
         wallets: {},
         activeWallet: null,
         activeNetwork: 'testnet',
-        customNetworkConfigs: {}
+        customNetworkConfigs: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       expect(vi.mocked(StorageAdapter.setItem)).toHaveBeenLastCalledWith(
@@ -701,6 +1180,8 @@ describe('WalletManager', () => {
         activeWallet: null,
         activeNetwork: 'testnet',
         algodClient: new algosdk.Algodv2('', 'https://testnet-api.4160.nodely.dev'),
+        indexerClient: null,
+        algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
         managerStatus: 'ready',
         networkConfig: DEFAULT_NETWORK_CONFIG,
         customNetworkConfigs: {
@@ -716,7 +1197,14 @@ describe('WalletManager', () => {
             genesisId: 'mainnet-v1.0',
             caipChainId: 'algorand:wGHE2Pwdvd7S12BL5FaOP20EGYesN73k'
           }
-        }
+        },
+        walletKeys: [],
+        availability: {},
+        walletStatus: {},
+        pendingRequests: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       const manager = new WalletManager({
@@ -735,6 +1223,8 @@ describe('WalletManager', () => {
         activeWallet: null,
         activeNetwork: 'testnet',
         algodClient: new algosdk.Algodv2('', 'https://testnet-api.4160.nodely.dev/'),
+        indexerClient: null,
+        algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
         managerStatus: 'ready',
         networkConfig: DEFAULT_NETWORK_CONFIG,
         customNetworkConfigs: {
@@ -750,7 +1240,14 @@ describe('WalletManager', () => {
             genesisId: 'mainnet-v1.0',
             caipChainId: 'algorand:wGHE2Pwdvd7S12BL5FaOP20EGYesN73k'
           }
-        }
+        },
+        walletKeys: [],
+        availability: {},
+        walletStatus: {},
+        pendingRequests: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
 
       // Provide configuration in constructor with different baseServer
@@ -823,19 +1320,907 @@ describe('WalletManager', () => {
     })
   })
 
-  describe('activeWallet', () => {
-    beforeEach(() => {
-      mockInitialState = {
-        wallets: {
-          [WalletId.KIBISIS]: {
-            accounts: [
-              {
-                name: 'Kibisis 1',
-                address: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
-              }
-            ],
-            activeAccount: {
-              name: 'Kibisis 1',
+  describe('nodeSecrets', () => {
+    const customAlgod = {
+      baseServer: 'https://private-node.test',
+      token: 'secret-token',
+      headers: { 'X-API-Key': 'secret-key' }
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('keeps tokens and headers out of persisted state', () => {
+      const storage = new MemoryStorageBackend()
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        storage,
+        options: { nodeSecrets: 'exclude' }
+      })
+
+      manager.updateAlgodConfig('mainnet', customAlgod)
+
+      expect(manager.networkConfig.mainnet.algod).toMatchObject(customAlgod)
+      expect(storage.getItem(LOCAL_STORAGE_KEY)).not.toContain('secret')
+
+      const reloadedManager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        storage,
+        options: { nodeSecrets: 'exclude' }
+      })
+
+      // The base config's token and headers are used instead
+      expect(reloadedManager.networkConfig.mainnet.algod).toEqual({
+        ...DEFAULT_NETWORK_CONFIG.mainnet.algod,
+        baseServer: 'https://private-node.test'
+      })
+    })
+
+    it('restores secrets kept in sessionStorage, and clears them on reset', () => {
+      const sessionStorage = new MemoryStorageBackend()
+      vi.stubGlobal('window', globalThis)
+      vi.stubGlobal('sessionStorage', sessionStorage)
+      const storage = new MemoryStorageBackend()
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        storage,
+        options: { nodeSecrets: 'session' }
+      })
+
+      manager.updateAlgodConfig('mainnet', customAlgod)
+
+      expect(storage.getItem(LOCAL_STORAGE_KEY)).not.toContain('secret')
+      expect(
+        new WalletManager({
+          wallets: [WalletId.DEFLY],
+          storage,
+          options: { nodeSecrets: 'session' }
+        }).networkConfig.mainnet.algod
+      ).toMatchObject(customAlgod)
+
+      manager.resetNetworkConfig('mainnet')
+
+      expect(sessionStorage.getItem(NODE_SECRETS_STORAGE_KEY)).toBeNull()
+    })
+
+    it('moves tokens persisted in plaintext to the secret store', () => {
+      const sessionStorage = new MemoryStorageBackend()
+      vi.stubGlobal('window', globalThis)
+      vi.stubGlobal('sessionStorage', sessionStorage)
+      const storage = new MemoryStorageBackend()
+      new WalletManager({ wallets: [WalletId.DEFLY], storage }).updateAlgodConfig(
+        'mainnet',
+        customAlgod
+      )
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        storage,
+        options: { nodeSecrets: 'session' }
+      })
+
+      expect(manager.networkConfig.mainnet.algod).toMatchObject(customAlgod)
+      expect(storage.getItem(LOCAL_STORAGE_KEY)).not.toContain('secret')
+      expect(JSON.parse(sessionStorage.getItem(NODE_SECRETS_STORAGE_KEY)!)).toEqual({
+        mainnet: { algod: { token: 'secret-token', headers: { 'X-API-Key': 'secret-key' } } }
+      })
+    })
+
+    it('restores encrypted secrets before resuming sessions', async () => {
+      vi.spyOn(EncryptedSecretStore.prototype, 'load').mockResolvedValue({
+        mainnet: { algod: { token: 'secret-token' } }
+      })
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        defaultNetwork: 'mainnet',
+        storage: new MemoryStorageBackend(),
+        options: { nodeSecrets: 'encrypt' }
+      })
+      const initialClient = manager.algodClient
+      expect(manager.networkConfig.mainnet.algod.token).toBe('')
+
+      await manager.resumeSessions()
+
+      expect(manager.networkConfig.mainnet.algod.token).toBe('secret-token')
+      expect(manager.algodClient).not.toBe(initialClient)
+    })
+  })
+
+  describe('storage', () => {
+    const persistedState: PersistedState = {
+      version: PERSISTED_STATE_VERSION,
+      wallets: {
+        [WalletId.KIBISIS]: {
+          accounts: [{ name: 'Kibisis 1', address: 'address1' }],
+          activeAccount: { name: 'Kibisis 1', address: 'address1' }
+        }
+      },
+      activeWallet: WalletId.KIBISIS,
+      activeNetwork: 'mainnet',
+      customNetworkConfigs: {},
+      multisigAccounts: {},
+      pendingMultisigGroups: {},
+      trackedTransactions: {}
+    }
+
+    it('loads and saves state using a custom storage backend', async () => {
+      const storage = {
+        getItem: vi.fn().mockReturnValue(JSON.stringify(persistedState)),
+        setItem: vi.fn(),
+        removeItem: vi.fn()
+      }
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS],
+        storage
+      })
+
+      expect(storage.getItem).toHaveBeenCalledWith(LOCAL_STORAGE_KEY)
+      expect(StorageAdapter.getItem).not.toHaveBeenCalled()
+      expect(manager.activeWallet?.id).toBe(WalletId.KIBISIS)
+      expect(manager.activeNetwork).toBe('mainnet')
+
+      await manager.setActiveNetwork('testnet')
+
+      expect(storage.setItem).toHaveBeenLastCalledWith(
+        LOCAL_STORAGE_KEY,
+        JSON.stringify({ ...persistedState, activeNetwork: 'testnet' })
+      )
+      expect(StorageAdapter.setItem).not.toHaveBeenCalled()
+    })
+
+    it('hydrates state from an asynchronous storage backend in resumeSessions', async () => {
+      const storage = {
+        getItem: vi.fn().mockResolvedValue(JSON.stringify(persistedState)),
+        setItem: vi.fn().mockResolvedValue(undefined),
+        removeItem: vi.fn().mockResolvedValue(undefined)
+      }
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS],
+        storage
+      })
+      manager.wallets.forEach((wallet) => {
+        vi.spyOn(wallet, 'resumeSession').mockResolvedValue(undefined)
+      })
+
+      // Defaults are used until persisted state is loaded, and nothing is written back
+      expect(manager.activeWallet).toBeNull()
+      expect(manager.activeNetwork).toBe('testnet')
+      expect(storage.setItem).not.toHaveBeenCalled()
+
+      await manager.resumeSessions()
+
+      expect(manager.activeWallet?.id).toBe(WalletId.KIBISIS)
+      expect(manager.activeNetwork).toBe('mainnet')
+      expect(manager.status).toBe('ready')
+      expect(storage.setItem).toHaveBeenCalledWith(
+        LOCAL_STORAGE_KEY,
+        JSON.stringify(persistedState)
+      )
+    })
+
+    it('keeps saving state if hydration fails', async () => {
+      const storage = {
+        getItem: vi.fn().mockResolvedValue(JSON.stringify(persistedState)),
+        setItem: vi.fn().mockResolvedValue(undefined),
+        removeItem: vi.fn().mockResolvedValue(undefined)
+      }
+      const hydratePersistedState = vi
+        .spyOn(WalletManager.prototype as any, 'hydratePersistedState')
+        .mockImplementation(() => {
+          throw new Error('Hydration failed')
+        })
+
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY], storage })
+      await manager.resumeSessions()
+      hydratePersistedState.mockRestore()
+
+      expect(mockLoggerError).toHaveBeenCalledWith(
+        'Could not hydrate persisted state: Hydration failed'
+      )
+
+      await manager.setActiveNetwork('mainnet')
+
+      expect(storage.setItem).toHaveBeenCalled()
+    })
+
+    it('removes unknown wallets when hydrating asynchronously', async () => {
+      const storage = {
+        getItem: vi.fn().mockResolvedValue(JSON.stringify(persistedState)),
+        setItem: vi.fn().mockResolvedValue(undefined),
+        removeItem: vi.fn().mockResolvedValue(undefined)
+      }
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        storage
+      })
+      await manager.resumeSessions()
+
+      expect(manager.store.state.wallets).toEqual({})
+      expect(manager.activeWallet).toBeNull()
+    })
+  })
+
+  describe('persisted state migrations', () => {
+    const v3Session = JSON.stringify({
+      state: {
+        accounts: [{ providerId: 'kibisis', name: 'Kibisis 1', address: 'address1' }],
+        activeAccount: { providerId: 'kibisis', name: 'Kibisis 1', address: 'address1' }
+      },
+      version: 0
+    })
+
+    it('saves state with the current schema version', () => {
+      mockInitialState = {
+        ...DEFAULT_STATE,
+        activeNetwork: 'mainnet'
+      }
+
+      new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      const savedState = JSON.parse(vi.mocked(StorageAdapter.setItem).mock.calls[0][1])
+      expect(savedState.version).toBe(PERSISTED_STATE_VERSION)
+      expect(savedState.activeNetwork).toBe('mainnet')
+    })
+
+    it('imports a v3 session from the legacy storage key', () => {
+      vi.mocked(StorageAdapter.getItem).mockImplementation((key: string) =>
+        key === LEGACY_V3_STORAGE_KEY ? v3Session : null
+      )
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS],
+        defaultNetwork: 'mainnet'
+      })
+
+      expect(manager.activeWallet?.id).toBe(WalletId.KIBISIS)
+      expect(manager.activeAddress).toBe('address1')
+      expect(manager.activeNetwork).toBe('mainnet')
+      expect(StorageAdapter.removeItem).toHaveBeenCalledWith(LEGACY_V3_STORAGE_KEY)
+      expect(StorageAdapter.setItem).toHaveBeenCalledWith(
+        LOCAL_STORAGE_KEY,
+        expect.stringContaining('"activeWallet":"kibisis"')
+      )
+    })
+
+    it('imports a v3 session from an asynchronous storage backend', async () => {
+      const storage = {
+        getItem: vi.fn((key: string) =>
+          Promise.resolve(key === LEGACY_V3_STORAGE_KEY ? v3Session : null)
+        ),
+        setItem: vi.fn().mockResolvedValue(undefined),
+        removeItem: vi.fn().mockResolvedValue(undefined)
+      }
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS],
+        storage
+      })
+      manager.wallets.forEach((wallet) => {
+        vi.spyOn(wallet, 'resumeSession').mockResolvedValue(undefined)
+      })
+
+      await manager.resumeSessions()
+
+      expect(manager.activeWallet?.id).toBe(WalletId.KIBISIS)
+      expect(storage.removeItem).toHaveBeenCalledWith(LEGACY_V3_STORAGE_KEY)
+    })
+
+    it('does not import a v3 session if v4 state exists', () => {
+      mockInitialState = {
+        ...DEFAULT_STATE,
+        activeNetwork: 'mainnet'
+      }
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+
+      expect(StorageAdapter.getItem).not.toHaveBeenCalledWith(LEGACY_V3_STORAGE_KEY)
+      expect(manager.activeWallet).toBeNull()
+    })
+
+    it('runs app migrations and persists the app version', () => {
+      mockInitialState = {
+        ...DEFAULT_STATE,
+        wallets: {
+          [WalletId.KIBISIS]: {
+            accounts: [{ name: 'Kibisis 1', address: 'address1' }],
+            activeAccount: { name: 'Kibisis 1', address: 'address1' }
+          }
+        },
+        activeWallet: WalletId.KIBISIS
+      }
+
+      const manager = new WalletManager({
+        wallets: [WalletId.KIBISIS],
+        migrations: [
+          {
+            version: 1,
+            migrate: (state) => ({
+              ...state,
+              wallets: Object.fromEntries(
+                Object.entries(state.wallets).map(([walletId, wallet]) => [
+                  walletId,
+                  {
+                    accounts: wallet!.accounts.map((account) => ({
+                      ...account,
+                      metadata: { label: account.name }
+                    })),
+                    activeAccount: wallet!.activeAccount
+                  }
+                ])
+              )
+            })
+          }
+        ]
+      })
+
+      expect(manager.store.state.wallets[WalletId.KIBISIS]?.accounts[0].metadata).toEqual({
+        label: 'Kibisis 1'
+      })
+
+      const savedState = JSON.parse(vi.mocked(StorageAdapter.setItem).mock.calls[0][1])
+      expect(savedState.appVersion).toBe(1)
+    })
+
+    it('discards state from a newer schema version without overwriting it', () => {
+      vi.mocked(StorageAdapter.getItem).mockReturnValueOnce(
+        JSON.stringify({
+          version: PERSISTED_STATE_VERSION + 1,
+          wallets: {},
+          activeWallet: null,
+          activeNetwork: 'mainnet'
+        })
+      )
+
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY]
+      })
+
+      expect(manager.activeNetwork).toBe('testnet')
+      expect(mockLoggerError).toHaveBeenCalledWith(
+        `Could not load state from local storage: Persisted state version ${PERSISTED_STATE_VERSION + 1} is newer than supported version ${PERSISTED_STATE_VERSION}`
+      )
+
+      manager.store.setState((state) => ({ ...state, activeWallet: WalletId.DEFLY }))
+      expect(StorageAdapter.setItem).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('tab sync', () => {
+    class MockBroadcastChannel {
+      static channels: MockBroadcastChannel[] = []
+      onmessage: ((event: { data: unknown }) => void) | null = null
+      postMessage = vi.fn()
+      close = vi.fn()
+
+      constructor() {
+        MockBroadcastChannel.channels.push(this)
+      }
+    }
+
+    const receiveFromOtherTab = (state: Partial<PersistedState>) => {
+      for (const channel of MockBroadcastChannel.channels) {
+        channel.onmessage?.({
+          data: {
+            tabId: 'other-tab',
+            state: {
+              version: PERSISTED_STATE_VERSION,
+              wallets: {},
+              activeWallet: null,
+              activeNetwork: 'testnet',
+              customNetworkConfigs: {},
+              ...state
+            }
+          }
+        })
+      }
+    }
+
+    const kibisisState = {
+      accounts: [{ name: 'Kibisis 1', address: 'address1' }],
+      activeAccount: { name: 'Kibisis 1', address: 'address1' }
+    }
+
+    beforeEach(() => {
+      MockBroadcastChannel.channels = []
+      vi.stubGlobal('window', { addEventListener: vi.fn(), removeEventListener: vi.fn() })
+      vi.stubGlobal('BroadcastChannel', MockBroadcastChannel)
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('broadcasts state changes to other tabs', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const [channel] = MockBroadcastChannel.channels
+
+      await manager.setActiveNetwork('mainnet')
+
+      expect(channel.postMessage).toHaveBeenLastCalledWith({
+        tabId: expect.any(String),
+        state: {
+          version: PERSISTED_STATE_VERSION,
+          wallets: {},
+          activeWallet: null,
+          activeNetwork: 'mainnet',
+          customNetworkConfigs: {},
+          multisigAccounts: {},
+          pendingMultisigGroups: {},
+          trackedTransactions: {}
+        }
+      })
+    })
+
+    it('does not save or broadcast updates to state that is not persisted', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const [channel] = MockBroadcastChannel.channels
+      setActiveWallet(manager.store, { walletId: WalletId.DEFLY })
+      vi.mocked(StorageAdapter.setItem).mockClear()
+      channel.postMessage.mockClear()
+
+      setWalletStatus(manager.store, { walletId: WalletId.DEFLY, status: 'connecting' })
+      setAvailability(manager.store, { walletId: WalletId.DEFLY, isAvailable: true })
+
+      expect(StorageAdapter.setItem).not.toHaveBeenCalled()
+      expect(channel.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('keeps sessions of wallets not configured in this tab when saving', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+
+      receiveFromOtherTab({
+        wallets: { [WalletId.KIBISIS]: kibisisState },
+        activeWallet: WalletId.KIBISIS
+      })
+
+      expect(manager.store.state.wallets).toEqual({})
+      expect(manager.activeWallet).toBeNull()
+
+      await manager.setActiveNetwork('mainnet')
+
+      const savedState = JSON.parse(vi.mocked(StorageAdapter.setItem).mock.lastCall![1])
+      expect(savedState.activeNetwork).toBe('mainnet')
+      expect(savedState.wallets).toEqual({ [WalletId.KIBISIS]: kibisisState })
+      expect(savedState.activeWallet).toBe(WalletId.KIBISIS)
+    })
+
+    it('syncs a wallet connected in another tab and resumes its session', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY, WalletId.KIBISIS] })
+      const [channel] = MockBroadcastChannel.channels
+      const resumeSession = vi
+        .spyOn(manager.getWallet(WalletId.KIBISIS)!, 'resumeSession')
+        .mockResolvedValue(undefined)
+      channel.postMessage.mockClear()
+
+      receiveFromOtherTab({
+        wallets: { [WalletId.KIBISIS]: kibisisState },
+        activeWallet: WalletId.KIBISIS
+      })
+
+      expect(manager.store.state.wallets[WalletId.KIBISIS]).toEqual(kibisisState)
+      expect(manager.activeWallet?.id).toBe(WalletId.KIBISIS)
+      expect(resumeSession).toHaveBeenCalledTimes(1)
+
+      // State received from another tab is not echoed back
+      expect(channel.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('syncs a wallet disconnected in another tab', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY, WalletId.KIBISIS] })
+      addWallet(manager.store, { walletId: WalletId.KIBISIS, wallet: kibisisState })
+
+      receiveFromOtherTab({ wallets: {}, activeWallet: null })
+
+      expect(manager.store.state.wallets).toEqual({})
+      expect(manager.activeWallet).toBeNull()
+    })
+
+    it('syncs the active network', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const algodClient = manager.algodClient
+
+      receiveFromOtherTab({ activeNetwork: 'mainnet' })
+
+      expect(manager.activeNetwork).toBe('mainnet')
+      expect(manager.algodClient).not.toBe(algodClient)
+    })
+
+    it('switches networks from another tab like setActiveNetwork, without echoing', () => {
+      const manager = new WalletManager({ wallets: [WalletId.KIBISIS] })
+      const [channel] = MockBroadcastChannel.channels
+      addWallet(manager.store, { walletId: WalletId.KIBISIS, wallet: kibisisState })
+      const updateAuthAddresses = vi
+        .spyOn(manager.getWallet(WalletId.KIBISIS)!, 'updateAuthAddresses')
+        .mockResolvedValue(undefined)
+      const networkChanged = vi.fn()
+      manager.on('networkChanged', networkChanged)
+      channel.postMessage.mockClear()
+      vi.mocked(StorageAdapter.setItem).mockClear()
+
+      receiveFromOtherTab({
+        wallets: { [WalletId.KIBISIS]: kibisisState },
+        activeWallet: WalletId.KIBISIS,
+        activeNetwork: 'mainnet'
+      })
+
+      expect(networkChanged).toHaveBeenCalledWith({
+        networkId: 'mainnet',
+        previousNetworkId: 'testnet'
+      })
+      expect(updateAuthAddresses).toHaveBeenCalled()
+      // Saved once, with the new network
+      expect(StorageAdapter.setItem).toHaveBeenCalledTimes(1)
+      const [, serializedState] = vi.mocked(StorageAdapter.setItem).mock.lastCall!
+      expect(JSON.parse(serializedState).activeNetwork).toBe('mainnet')
+      expect(channel.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('verifies the node of a network switched to from another tab', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(() =>
+          Promise.resolve(
+            new Response(
+              JSON.stringify({
+                build: {
+                  branch: 'rel/stable',
+                  build_number: 1,
+                  channel: 'stable',
+                  commit_hash: 'abc',
+                  major: 3,
+                  minor: 0,
+                  build_number_str: '1'
+                },
+                genesis_hash_b64: DEFAULT_NETWORK_CONFIG.testnet.genesisHash,
+                genesis_id: DEFAULT_NETWORK_CONFIG.testnet.genesisId,
+                versions: ['v2']
+              }),
+              { status: 200, headers: { 'Content-Type': 'application/json' } }
+            )
+          )
+        )
+      )
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        options: { verifyGenesis: true }
+      })
+
+      receiveFromOtherTab({ activeNetwork: 'mainnet' })
+
+      await vi.waitFor(() =>
+        expect(mockLoggerWarn).toHaveBeenCalledWith(
+          expect.stringContaining('Could not switch to mainnet from another tab')
+        )
+      )
+      expect(manager.activeNetwork).toBe('testnet')
+    })
+
+    it('ignores wallets and networks not configured in this tab', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        networks: { testnet: DEFAULT_NETWORK_CONFIG.testnet }
+      })
+
+      receiveFromOtherTab({
+        wallets: { [WalletId.KIBISIS]: kibisisState },
+        activeWallet: WalletId.KIBISIS,
+        activeNetwork: 'mainnet'
+      })
+
+      expect(manager.store.state.wallets).toEqual({})
+      expect(manager.activeWallet).toBeNull()
+      expect(manager.activeNetwork).toBe('testnet')
+    })
+
+    it('ignores invalid state from another tab', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const [channel] = MockBroadcastChannel.channels
+
+      channel.onmessage?.({ data: { tabId: 'other-tab', state: { invalid: 'state' } } })
+
+      expect(manager.activeNetwork).toBe('testnet')
+      expect(mockLoggerWarn).toHaveBeenCalledWith(
+        'Ignoring state from another tab: Persisted state is invalid'
+      )
+    })
+
+    it('stops syncing and background checks when destroyed, until sessions are resumed', async () => {
+      const stopHealthChecks = vi.spyOn(AlgodHealthChecker.prototype, 'stop')
+      const stopTracking = vi.spyOn(TransactionTracker.prototype, 'stop')
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const [channel] = MockBroadcastChannel.channels
+
+      manager.destroy()
+
+      expect(channel.close).toHaveBeenCalled()
+      expect(stopHealthChecks).toHaveBeenCalled()
+      expect(stopTracking).toHaveBeenCalled()
+
+      await manager.resumeSessions()
+
+      expect(MockBroadcastChannel.channels).toHaveLength(2)
+      stopHealthChecks.mockRestore()
+      stopTracking.mockRestore()
+    })
+
+    it('restarts background checks without resuming sessions when started', () => {
+      const startHealthChecks = vi.spyOn(AlgodHealthChecker.prototype, 'start')
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const resumeSession = vi.spyOn(manager.getWallet(WalletId.DEFLY)!, 'resumeSession')
+
+      manager.destroy()
+      manager.start()
+
+      expect(MockBroadcastChannel.channels).toHaveLength(2)
+      expect(startHealthChecks).toHaveBeenCalled()
+      expect(resumeSession).not.toHaveBeenCalled()
+      startHealthChecks.mockRestore()
+    })
+
+    it('does not sync when syncTabs is disabled', () => {
+      new WalletManager({
+        wallets: [WalletId.KIBISIS],
+        options: { syncTabs: false }
+      })
+
+      expect(MockBroadcastChannel.channels).toHaveLength(0)
+    })
+  })
+
+  describe('events', () => {
+    it('emits events from store mutations', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const onNetworkChanged = vi.fn()
+      const onConnect = vi.fn()
+      manager.on('networkChanged', onNetworkChanged)
+      manager.on('connect', onConnect)
+
+      await manager.setActiveNetwork('mainnet')
+      addWallet(manager.store, {
+        walletId: WalletId.DEFLY,
+        wallet: { accounts: [{ name: 'Defly 1', address: 'address1' }], activeAccount: null }
+      })
+
+      expect(onNetworkChanged).toHaveBeenCalledWith({
+        networkId: 'mainnet',
+        previousNetworkId: 'testnet'
+      })
+      expect(onConnect).toHaveBeenCalledWith({
+        walletKey: WalletId.DEFLY,
+        accounts: [{ name: 'Defly 1', address: 'address1' }]
+      })
+    })
+
+    it('removes event handlers', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const handlerA = vi.fn()
+      const handlerB = vi.fn()
+
+      const unsubscribe = manager.on('networkChanged', handlerA)
+      manager.on('networkChanged', handlerB)
+      unsubscribe()
+      manager.off('networkChanged', handlerB)
+
+      await manager.setActiveNetwork('mainnet')
+
+      expect(handlerA).not.toHaveBeenCalled()
+      expect(handlerB).not.toHaveBeenCalled()
+    })
+
+    it('does not share events between managers', async () => {
+      const managerA = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const managerB = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const handler = vi.fn()
+      managerB.on('networkChanged', handler)
+
+      await managerA.setActiveNetwork('mainnet')
+
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('addWallet', () => {
+    it('adds a wallet at runtime', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+
+      const wallet = manager.addWallet({
+        id: WalletId.KIBISIS,
+        metadata: { name: 'Custom Kibisis' }
+      })
+
+      expect(manager.getWallet(WalletId.KIBISIS)).toBe(wallet)
+      expect(wallet.metadata.name).toBe('Custom Kibisis')
+      expect(manager.wallets).toHaveLength(2)
+      expect(manager.store.state.walletKeys).toEqual([WalletId.DEFLY, WalletId.KIBISIS])
+    })
+
+    it('throws if the wallet already exists', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+
+      expect(() => manager.addWallet(WalletId.DEFLY)).toThrow('Wallet already exists: defly')
+      expect(manager.wallets).toHaveLength(1)
+    })
+
+    it('throws if the wallet is not supported', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+
+      expect(() => manager.addWallet('unknown' as WalletId)).toThrow('Wallet not found: unknown')
+      expect(manager.store.state.walletKeys).toEqual([WalletId.DEFLY])
+    })
+  })
+
+  describe('removeWallet', () => {
+    it('disconnects and removes a connected wallet', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY, WalletId.KIBISIS] })
+      addWallet(manager.store, {
+        walletId: WalletId.KIBISIS,
+        wallet: {
+          accounts: [{ name: 'Kibisis 1', address: 'address1' }],
+          activeAccount: { name: 'Kibisis 1', address: 'address1' }
+        }
+      })
+      const disconnect = vi
+        .spyOn(manager.getWallet(WalletId.KIBISIS)!, 'disconnect')
+        .mockResolvedValue(undefined)
+
+      await manager.removeWallet(WalletId.KIBISIS)
+
+      expect(disconnect).toHaveBeenCalled()
+      expect(manager.getWallet(WalletId.KIBISIS)).toBeUndefined()
+      expect(manager.store.state.wallets).toEqual({})
+      expect(manager.activeWallet).toBeNull()
+      expect(manager.store.state.walletKeys).toEqual([WalletId.DEFLY])
+    })
+
+    it('cancels queued requests and clears the wallet status', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY, WalletId.KIBISIS] })
+      const wallet = manager.getWallet(WalletId.KIBISIS)!
+      const cancelPendingRequests = vi.spyOn(wallet, 'cancelPendingRequests')
+      setWalletStatus(manager.store, { walletId: WalletId.KIBISIS, status: 'connecting' })
+      setAvailability(manager.store, { walletId: WalletId.KIBISIS, isAvailable: true })
+      setPendingRequests(manager.store, { walletId: WalletId.KIBISIS, count: 2 })
+
+      await manager.removeWallet(WalletId.KIBISIS)
+
+      expect(cancelPendingRequests).toHaveBeenCalled()
+      expect(manager.store.state.walletStatus).not.toHaveProperty(WalletId.KIBISIS)
+      expect(manager.store.state.availability).not.toHaveProperty(WalletId.KIBISIS)
+      expect(manager.store.state.pendingRequests).not.toHaveProperty(WalletId.KIBISIS)
+    })
+
+    it('removes the session even if disconnecting fails', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.KIBISIS] })
+      addWallet(manager.store, {
+        walletId: WalletId.KIBISIS,
+        wallet: { accounts: [{ name: 'Kibisis 1', address: 'address1' }], activeAccount: null }
+      })
+      vi.spyOn(manager.getWallet(WalletId.KIBISIS)!, 'disconnect').mockRejectedValue(
+        new Error('Disconnect failed')
+      )
+
+      await manager.removeWallet(WalletId.KIBISIS)
+
+      expect(mockLoggerWarn).toHaveBeenCalledWith('Error disconnecting kibisis: Disconnect failed')
+      expect(manager.store.state.wallets).toEqual({})
+      expect(manager.wallets).toHaveLength(0)
+    })
+
+    it('throws if the wallet is not found', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+
+      await expect(manager.removeWallet(WalletId.KIBISIS)).rejects.toThrow(
+        'Wallet not found: kibisis'
+      )
+    })
+  })
+
+  describe('registered wallet providers', () => {
+    class AcmeWallet extends BaseWallet {
+      constructor(args: WalletConstructor<WalletId>) {
+        super(args)
+      }
+
+      protected doConnect = async () => []
+      protected doDisconnect = async () => {}
+      protected doResumeSession = async () => {}
+      protected doSignTransactions = async () => []
+    }
+
+    beforeEach(() => {
+      registerWalletProvider('acme', AcmeWallet, { name: 'Acme Wallet', icon: 'acme-icon' })
+    })
+
+    afterEach(() => {
+      unregisterWalletProvider('acme')
+    })
+
+    it('initializes registered wallets like built-in ones', () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, 'acme' as WalletId]
+      })
+
+      const wallet = manager.getWallet('acme' as WalletId)
+      expect(wallet).toBeInstanceOf(AcmeWallet)
+      expect(wallet?.id).toBe('acme')
+      expect(wallet?.metadata).toEqual({ name: 'Acme Wallet', icon: 'acme-icon' })
+      expect(manager.store.state.walletKeys).toEqual([WalletId.DEFLY, 'acme'])
+    })
+
+    it('merges metadata from the wallet config over the default metadata', () => {
+      const manager = new WalletManager({
+        wallets: [{ id: 'acme' as WalletId.KIBISIS, metadata: { name: 'My Acme' } }]
+      })
+
+      expect(manager.getWallet('acme' as WalletId)?.metadata).toEqual({
+        name: 'My Acme',
+        icon: 'acme-icon'
+      })
+    })
+
+    it('adds registered wallets at runtime', () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+
+      const wallet = manager.addWallet('acme' as WalletId)
+
+      expect(wallet).toBeInstanceOf(AcmeWallet)
+      expect(manager.wallets).toHaveLength(2)
+    })
+  })
+
+  describe('checkAvailability', () => {
+    it('stores the availability of each wallet', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY, WalletId.KIBISIS] })
+      vi.spyOn(manager.getWallet(WalletId.KIBISIS)!, 'isAvailable').mockResolvedValue(false)
+
+      const availability = await manager.checkAvailability()
+
+      expect(availability).toEqual({ [WalletId.DEFLY]: true, [WalletId.KIBISIS]: false })
+      expect(manager.store.state.availability).toEqual(availability)
+    })
+
+    it('treats wallets that fail the check as unavailable', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      vi.spyOn(manager.getWallet(WalletId.DEFLY)!, 'isAvailable').mockRejectedValue(
+        new Error('Check failed')
+      )
+
+      await expect(manager.checkAvailability()).resolves.toEqual({ [WalletId.DEFLY]: false })
+      expect(mockLoggerWarn).toHaveBeenCalledWith(
+        'Error checking availability of defly: Check failed'
+      )
+    })
+
+    it('is called when sessions are resumed', async () => {
+      const manager = new WalletManager({ wallets: [WalletId.DEFLY] })
+      const isAvailable = vi.spyOn(manager.getWallet(WalletId.DEFLY)!, 'isAvailable')
+
+      await manager.resumeSessions()
+
+      expect(isAvailable).toHaveBeenCalled()
+    })
+  })
+
+  describe('activeWallet', () => {
+    beforeEach(() => {
+      mockInitialState = {
+        wallets: {
+          [WalletId.KIBISIS]: {
+            accounts: [
+              {
+                name: 'Kibisis 1',
+                address: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
+              }
+            ],
+            activeAccount: {
+              name: 'Kibisis 1',
               address: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
             }
           }
@@ -843,9 +2228,18 @@ describe('WalletManager', () => {
         activeWallet: WalletId.KIBISIS,
         activeNetwork: 'betanet',
         algodClient: new algosdk.Algodv2('', 'https://betanet-api.4160.nodely.dev/'),
+        indexerClient: null,
+        algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
         managerStatus: 'ready',
         networkConfig: DEFAULT_NETWORK_CONFIG,
-        customNetworkConfigs: {}
+        customNetworkConfigs: {},
+        walletKeys: [],
+        availability: {},
+        walletStatus: {},
+        pendingRequests: {},
+        multisigAccounts: {},
+        pendingMultisigGroups: {},
+        trackedTransactions: {}
       }
     })
 
@@ -893,7 +2287,286 @@ describe('WalletManager', () => {
       expect(() => manager.signTransactions).toThrow()
     })
 
-    // @todo: Tests for successful signing
+    describe('with multiple connected wallets', () => {
+      const accounts = [algosdk.generateAccount(), algosdk.generateAccount()]
+      const [alice, bob] = accounts.map(({ addr }) => addr.toString())
+
+      // Signs with the keys of its accounts, returning only the signed transactions
+      class KeyWallet extends BaseWallet {
+        constructor(args: WalletConstructor<WalletId>) {
+          super(args)
+        }
+
+        protected doConnect = async () => []
+        protected doDisconnect = async () => {}
+        protected doResumeSession = async () => {}
+        protected doSignTransactions = async (txnGroup: unknown[], indexesToSign?: number[]) =>
+          txnGroup.flat().flatMap((item, index) => {
+            const txn = decodeTransaction(item as algosdk.Transaction | Uint8Array, index)
+            const account = accounts.find(({ addr }) => addr.equals(txn.sender))
+            if (!account || !this.addresses.includes(txn.sender.toString())) {
+              return []
+            }
+            return !indexesToSign || indexesToSign.includes(index) ? [txn.signTxn(account.sk)] : []
+          })
+      }
+
+      const connect = (manager: WalletManager, walletKey: string, address: string) => {
+        const account = { name: walletKey, address }
+        addWallet(manager.store, {
+          walletId: walletKey as WalletId,
+          wallet: { accounts: [account], activeAccount: account }
+        })
+      }
+
+      const makePayTxn = (sender: string, amount: number) =>
+        algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+          sender,
+          receiver: sender,
+          amount,
+          suggestedParams: {
+            fee: 1000,
+            firstValid: 1,
+            lastValid: 1001,
+            minFee: 1000,
+            genesisID: 'testnet-v1.0'
+          }
+        })
+
+      let manager: WalletManager
+
+      beforeEach(() => {
+        registerWalletProvider('alpha', KeyWallet, { name: 'Alpha', icon: 'alpha-icon' })
+        registerWalletProvider('beta', KeyWallet, { name: 'Beta', icon: 'beta-icon' })
+        manager = new WalletManager({ wallets: ['alpha' as WalletId, 'beta' as WalletId] })
+        connect(manager, 'alpha', alice)
+        connect(manager, 'beta', bob)
+      })
+
+      afterEach(() => {
+        unregisterWalletProvider('alpha')
+        unregisterWalletProvider('beta')
+      })
+
+      it('signs each transaction with the wallet holding its sender, in ARC-0001 order', async () => {
+        const txnGroup = algosdk.assignGroupID([
+          makePayTxn(alice, 1),
+          makePayTxn(bob, 2),
+          makePayTxn(alice, 3)
+        ])
+        const alpha = manager.getWallet('alpha' as WalletId)!
+        const beta = manager.getWallet('beta' as WalletId)!
+        const alphaSpy = vi.spyOn(alpha, 'signTransactions')
+        const betaSpy = vi.spyOn(beta, 'signTransactions')
+
+        const signedTxns = await manager.signTransactions(txnGroup)
+
+        expect(alphaSpy).toHaveBeenCalledWith(txnGroup, [0, 2], undefined)
+        expect(betaSpy).toHaveBeenCalledWith(txnGroup, [1], undefined)
+        expect(signedTxns).toEqual([
+          txnGroup[0].signTxn(accounts[0].sk),
+          txnGroup[1].signTxn(accounts[1].sk),
+          txnGroup[2].signTxn(accounts[0].sk)
+        ])
+      })
+
+      it('returns null for transactions not requested or not held by any wallet', async () => {
+        const stranger = algosdk.generateAccount().addr.toString()
+        const txnGroup = algosdk.assignGroupID([
+          makePayTxn(alice, 1),
+          makePayTxn(stranger, 2),
+          makePayTxn(bob, 3)
+        ])
+
+        const signedTxns = await manager.signTransactions(txnGroup, [0, 1])
+
+        expect(signedTxns).toEqual([txnGroup[0].signTxn(accounts[0].sk), null, null])
+      })
+
+      it('routes transactions from an AtomicTransactionComposer through transactionSigner', async () => {
+        const atc = new algosdk.AtomicTransactionComposer()
+        const signer = manager.transactionSigner
+        const alicePay = makePayTxn(alice, 1)
+        const bobPay = makePayTxn(bob, 2)
+        atc.addTransaction({ txn: alicePay, signer })
+        atc.addTransaction({ txn: bobPay, signer })
+        const betaSpy = vi.spyOn(manager.getWallet('beta' as WalletId)!, 'signTransactions')
+
+        const signedTxns = await atc.gatherSignatures()
+
+        const [groupedAlicePay, groupedBobPay] = atc.buildGroup().map(({ txn }) => txn)
+        expect(betaSpy).toHaveBeenCalledWith([groupedAlicePay, groupedBobPay], [1], undefined)
+        expect(signedTxns).toEqual([
+          groupedAlicePay.signTxn(accounts[0].sk),
+          groupedBobPay.signTxn(accounts[1].sk)
+        ])
+      })
+
+      it('signs and sends transactions with signAndSend', async () => {
+        const txnGroup = algosdk.assignGroupID([makePayTxn(alice, 1), makePayTxn(bob, 2)])
+        const sendRawTransaction = vi.fn(() => ({ do: () => Promise.resolve({ txid: '' }) }))
+        manager.algodClient = {
+          sendRawTransaction,
+          status: () => ({ do: () => Promise.resolve({ lastRound: BigInt(100) }) }),
+          pendingTransactionInformation: () => ({
+            do: () =>
+              Promise.resolve(
+                new algosdk.modelsv2.PendingTransactionResponse({
+                  confirmedRound: BigInt(101),
+                  poolError: '',
+                  txn: new algosdk.SignedTransaction({ txn: txnGroup[0] })
+                })
+              )
+          })
+        } as unknown as algosdk.Algodv2
+
+        const result = await manager.signAndSend(txnGroup)
+
+        expect(sendRawTransaction).toHaveBeenCalledWith([
+          txnGroup[0].signTxn(accounts[0].sk),
+          txnGroup[1].signTxn(accounts[1].sk)
+        ])
+        expect(result.txIds).toEqual(txnGroup.map((txn) => txn.txID()))
+        expect(result.confirmedRound).toBe(BigInt(101))
+        expect(manager.trackedTransactions[txnGroup[0].txID()]).toMatchObject({
+          networkId: 'testnet',
+          txIds: result.txIds,
+          status: 'confirmed',
+          confirmedRound: 101
+        })
+
+        const stranger = algosdk.generateAccount().addr.toString()
+        await expect(manager.signAndSend([makePayTxn(stranger, 1)])).rejects.toThrow(
+          InvalidInputError
+        )
+      })
+
+      it('delegates to the active wallet when it holds every sender', async () => {
+        const txn = makePayTxn(bob, 1)
+        const beta = manager.getWallet('beta' as WalletId)!
+        const betaSpy = vi.spyOn(beta, 'signTransactions')
+
+        const signedTxns = await manager.signTransactions([txn])
+
+        expect(manager.activeWallet).toBe(beta)
+        expect(betaSpy).toHaveBeenCalledWith([txn], undefined, undefined)
+        expect(signedTxns).toEqual([txn.signTxn(accounts[1].sk)])
+      })
+    })
+  })
+
+  describe('multisig', () => {
+    const members = [
+      algosdk.generateAccount(),
+      algosdk.generateAccount(),
+      algosdk.generateAccount()
+    ]
+    const metadata = {
+      version: 1,
+      threshold: 2,
+      addrs: members.map(({ addr }) => addr.toString())
+    }
+
+    // Signs multisig transactions with the key of its first connected member
+    class KeyWallet extends BaseWallet {
+      constructor(args: WalletConstructor<WalletId>) {
+        super(args)
+      }
+
+      protected doConnect = async () => []
+      protected doDisconnect = async () => {}
+      protected doResumeSession = async () => {}
+      protected doSignTransactions = async (txnGroup: unknown[], indexesToSign?: number[]) =>
+        txnGroup.flat().map((item, index) => {
+          const txn = decodeTransaction(item as algosdk.Transaction | Uint8Array, index)
+          const multisig = this.getMultisigSigners(txn.sender.toString())
+          if (!multisig || !indexesToSign?.includes(index)) {
+            return null
+          }
+          const { sk } = members.find(({ addr }) => addr.toString() === multisig.signers[0])!
+          return algosdk.signMultisigTransaction(txn, multisig.msig, sk).blob
+        })
+    }
+
+    const connect = (manager: WalletManager, walletKey: string, memberIndex: number) => {
+      const account = { name: walletKey, address: metadata.addrs[memberIndex] }
+      addWallet(manager.store, {
+        walletId: walletKey as WalletId,
+        wallet: { accounts: [account], activeAccount: account }
+      })
+    }
+
+    const countSignatures = (signedTxn: Uint8Array | null) =>
+      algosdk.decodeSignedTransaction(signedTxn!).msig!.subsig.filter(({ s }) => s).length
+
+    let manager: WalletManager
+    let multisigAddress: string
+    let txn: algosdk.Transaction
+
+    beforeEach(() => {
+      registerWalletProvider('alpha', KeyWallet, { name: 'Alpha', icon: 'alpha-icon' })
+      registerWalletProvider('beta', KeyWallet, { name: 'Beta', icon: 'beta-icon' })
+      manager = new WalletManager({ wallets: ['alpha' as WalletId, 'beta' as WalletId] })
+      multisigAddress = manager.registerMultisig(metadata)
+      txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: multisigAddress,
+        receiver: multisigAddress,
+        amount: 0,
+        suggestedParams: {
+          fee: 1000,
+          firstValid: 1,
+          lastValid: 1001,
+          minFee: 1000,
+          genesisID: 'testnet-v1.0'
+        }
+      })
+    })
+
+    afterEach(() => {
+      unregisterWalletProvider('alpha')
+      unregisterWalletProvider('beta')
+    })
+
+    it('registers multisig accounts by address', () => {
+      expect(multisigAddress).toBe(algosdk.multisigAddress(metadata).toString())
+      expect(manager.multisigAccounts).toEqual({ [multisigAddress]: metadata })
+
+      expect(() => manager.registerMultisig({ ...metadata, threshold: 4 })).toThrow(
+        InvalidInputError
+      )
+
+      manager.unregisterMultisig(multisigAddress)
+      expect(manager.multisigAccounts).toEqual({})
+    })
+
+    it('collects and merges signatures from each wallet holding a member key', async () => {
+      connect(manager, 'alpha', 0)
+      connect(manager, 'beta', 1)
+
+      const [signedTxn] = await manager.signTransactions([txn])
+
+      expect(countSignatures(signedTxn)).toBe(2)
+      expect(manager.pendingMultisigGroups).toEqual({})
+    })
+
+    it('saves partially signed groups so co-signers can finish them later', async () => {
+      connect(manager, 'alpha', 0)
+
+      const [partialTxn] = await manager.signTransactions([txn])
+
+      expect(countSignatures(partialTxn)).toBe(1)
+      expect(manager.pendingMultisigGroups).toEqual({ [txn.txID()]: [partialTxn] })
+      expect(manager.store.state.pendingMultisigGroups[txn.txID()]).toHaveLength(1)
+
+      // A co-signer connects another wallet and adds their signature
+      await manager.getWallet('alpha' as WalletId)!.disconnect()
+      connect(manager, 'beta', 1)
+
+      const [signedTxn] = await manager.signTransactions(manager.pendingMultisigGroups[txn.txID()])
+
+      expect(countSignatures(signedTxn)).toBe(2)
+      expect(manager.pendingMultisigGroups).toEqual({})
+    })
   })
 
   describe('status', () => {
@@ -920,7 +2593,7 @@ describe('WalletManager', () => {
       expect(manager.isReady).toBe(true)
     })
 
-    it('changes to ready after resumeSessions even if it fails', async () => {
+    it('changes to degraded after resumeSessions if a session fails', async () => {
       const manager = new WalletManager({
         wallets: [WalletId.DEFLY, WalletId.KIBISIS]
       })
@@ -935,8 +2608,8 @@ describe('WalletManager', () => {
       )
 
       expect(manager.status).toBe('initializing')
-      await expect(manager.resumeSessions()).rejects.toThrow('Failed to resume session')
-      expect(manager.status).toBe('ready')
+      await manager.resumeSessions()
+      expect(manager.status).toBe('degraded')
       expect(manager.isReady).toBe(true)
     })
   })
@@ -967,6 +2640,72 @@ describe('WalletManager', () => {
       ]
       expect(calls).toEqual([1, 1])
     })
+
+    it('returns a report and resumes other sessions if one fails', async () => {
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS]
+      })
+      manager._clients = new Map<WalletId, BaseWallet>([
+        [WalletId.DEFLY, mockDeflyWallet],
+        [WalletId.KIBISIS, mockKibisisWallet]
+      ])
+      const error = new Error('Failed to resume session')
+      vi.mocked(mockDeflyWallet.resumeSession).mockRejectedValueOnce(error)
+
+      const report = await manager.resumeSessions()
+
+      expect(report[WalletId.KIBISIS]).toEqual({ status: 'resumed', error: null, attempts: 1 })
+      expect(report[WalletId.DEFLY]).toMatchObject({ status: 'failed', attempts: 1 })
+      expect(report[WalletId.DEFLY]?.error).toBeInstanceOf(WalletError)
+      expect(report[WalletId.DEFLY]?.error?.cause).toBe(error)
+    })
+
+    it('times out sessions that take too long', async () => {
+      vi.useFakeTimers()
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY, WalletId.KIBISIS],
+        options: { resumeTimeout: 5000, resumeRetries: 2 }
+      })
+      manager._clients = new Map<WalletId, BaseWallet>([
+        [WalletId.DEFLY, mockDeflyWallet],
+        [WalletId.KIBISIS, mockKibisisWallet]
+      ])
+      vi.mocked(mockDeflyWallet.resumeSession).mockReturnValueOnce(new Promise(() => {}))
+
+      const resumePromise = manager.resumeSessions()
+      await vi.advanceTimersByTimeAsync(5000)
+      const report = await resumePromise
+
+      // Timed out sessions are not retried
+      expect(report[WalletId.DEFLY]).toMatchObject({ status: 'failed', attempts: 1 })
+      expect(report[WalletId.DEFLY]?.error).toBeInstanceOf(TimeoutError)
+      expect(report[WalletId.KIBISIS]?.status).toBe('resumed')
+      expect(manager.status).toBe('degraded')
+      vi.useRealTimers()
+    })
+
+    it('retries failed sessions with backoff', async () => {
+      vi.useFakeTimers()
+      const manager = new WalletManager({
+        wallets: [WalletId.DEFLY],
+        options: { resumeRetries: 2, resumeRetryDelay: 100 }
+      })
+      manager._clients = new Map<WalletId, BaseWallet>([[WalletId.DEFLY, mockDeflyWallet]])
+      vi.mocked(mockDeflyWallet.resumeSession)
+        .mockRejectedValueOnce(new Error('Relay unavailable'))
+        .mockRejectedValueOnce(new Error('Relay unavailable'))
+
+      const resumePromise = manager.resumeSessions()
+      await vi.advanceTimersByTimeAsync(100)
+      expect(mockDeflyWallet.resumeSession).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(200)
+      const report = await resumePromise
+
+      expect(mockDeflyWallet.resumeSession).toHaveBeenCalledTimes(3)
+      expect(report[WalletId.DEFLY]).toEqual({ status: 'resumed', error: null, attempts: 3 })
+      expect(manager.status).toBe('ready')
+      vi.useRealTimers()
+    })
   })
 
   describe('disconnect', () => {
@@ -1039,9 +2778,18 @@ describe('WalletManager', () => {
           activeWallet: null,
           activeNetwork: 'mainnet',
           algodClient: new algosdk.Algodv2('', 'https://mainnet-api.4160.nodely.dev'),
+          indexerClient: null,
+          algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
           managerStatus: 'ready',
           networkConfig: DEFAULT_NETWORK_CONFIG,
-          customNetworkConfigs: {}
+          customNetworkConfigs: {},
+          walletKeys: [],
+          availability: {},
+          walletStatus: {},
+          pendingRequests: {},
+          multisigAccounts: {},
+          pendingMultisigGroups: {},
+          trackedTransactions: {}
         }
 
         const manager = new WalletManager({
@@ -1059,9 +2807,18 @@ describe('WalletManager', () => {
           activeWallet: null,
           activeNetwork: 'mainnet',
           algodClient: new algosdk.Algodv2('', 'https://mainnet-api.4160.nodely.dev'),
+          indexerClient: null,
+          algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
           managerStatus: 'ready',
           networkConfig: DEFAULT_NETWORK_CONFIG,
-          customNetworkConfigs: {}
+          customNetworkConfigs: {},
+          walletKeys: [],
+          availability: {},
+          walletStatus: {},
+          pendingRequests: {},
+          multisigAccounts: {},
+          pendingMultisigGroups: {},
+          trackedTransactions: {}
         }
 
         const manager = new WalletManager({
@@ -1094,9 +2851,18 @@ describe('WalletManager', () => {
           activeWallet: WalletId.PERA,
           activeNetwork: 'mainnet',
           algodClient: new algosdk.Algodv2('', 'https://mainnet-api.4160.nodely.dev'),
+          indexerClient: null,
+          algodHealth: { networkId: 'testnet', activeEndpoint: 0, endpoints: [] },
           managerStatus: 'ready',
           networkConfig: DEFAULT_NETWORK_CONFIG,
-          customNetworkConfigs: {}
+          customNetworkConfigs: {},
+          walletKeys: [],
+          availability: {},
+          walletStatus: {},
+          pendingRequests: {},
+          multisigAccounts: {},
+          pendingMultisigGroups: {},
+          trackedTransactions: {}
         }
 
         const manager = new WalletManager({
@@ -0,0 +1,156 @@
+import {
+  getAppStateVersion,
+  migratePersistedState,
+  migrateV3State,
+  type PersistedStateMigration
+} from 'src/migrations'
+import { PERSISTED_STATE_VERSION } from 'src/store'
+import { WalletId } from 'src/wallets/types'
+
+describe('Persisted State Migrations', () => {
+  describe('migratePersistedState', () => {
+    it('upgrades unversioned state to the current version', () => {
+      const state = migratePersistedState({
+        wallets: {},
+        activeWallet: null,
+        activeNetwork: 'mainnet'
+      })
+
+      expect(state).toEqual({
+        wallets: {},
+        activeWallet: null,
+        activeNetwork: 'mainnet',
+        customNetworkConfigs: {},
+        version: PERSISTED_STATE_VERSION
+      })
+    })
+
+    it('leaves current state unchanged', () => {
+      const currentState = {
+        version: PERSISTED_STATE_VERSION,
+        wallets: {},
+        activeWallet: null,
+        activeNetwork: 'mainnet',
+        customNetworkConfigs: {}
+      }
+
+      expect(migratePersistedState(currentState)).toEqual(currentState)
+    })
+
+    it('throws if state is newer than the supported version', () => {
+      expect(() => migratePersistedState({ version: PERSISTED_STATE_VERSION + 1 })).toThrow(
+        `Persisted state version ${PERSISTED_STATE_VERSION + 1} is newer than supported version ${PERSISTED_STATE_VERSION}`
+      )
+    })
+
+    it('applies pending app migrations in order', () => {
+      const calls: number[] = []
+      const migrations: PersistedStateMigration[] = [
+        {
+          version: 3,
+          migrate: (state) => {
+            calls.push(3)
+            return { ...state, activeNetwork: `${state.activeNetwork}-v3` }
+          }
+        },
+        {
+          version: 1,
+          migrate: (state) => {
+            calls.push(1)
+            return state
+          }
+        },
+        {
+          version: 2,
+          migrate: (state) => {
+            calls.push(2)
+            return { ...state, activeNetwork: `${state.activeNetwork}-v2` }
+          }
+        }
+      ]
+
+      const state = migratePersistedState(
+        {
+          version: PERSISTED_STATE_VERSION,
+          appVersion: 1,
+          wallets: {},
+          activeWallet: null,
+          activeNetwork: 'mainnet',
+          customNetworkConfigs: {}
+        },
+        migrations
+      )
+
+      expect(calls).toEqual([2, 3])
+      expect(state.activeNetwork).toBe('mainnet-v2-v3')
+      expect(state.appVersion).toBe(3)
+    })
+  })
+
+  describe('getAppStateVersion', () => {
+    it('returns the latest app migration version', () => {
+      const migrate = (state: any) => state
+      expect(getAppStateVersion([])).toBeUndefined()
+      expect(
+        getAppStateVersion([
+          { version: 2, migrate },
+          { version: 5, migrate },
+          { version: 1, migrate }
+        ])
+      ).toBe(5)
+    })
+  })
+
+  describe('migrateV3State', () => {
+    it('groups v3 accounts into wallets', () => {
+      const legacyState = {
+        state: {
+          accounts: [
+            { providerId: 'pera', name: 'Pera Wallet 1', address: 'address1' },
+            { providerId: 'defly', name: 'Defly Wallet 1', address: 'address2' },
+            { providerId: 'defly', name: 'Defly Wallet 2', address: 'address3' }
+          ],
+          activeAccount: { providerId: 'defly', name: 'Defly Wallet 2', address: 'address3' }
+        },
+        version: 0
+      }
+
+      expect(migrateV3State(legacyState, 'mainnet')).toEqual({
+        wallets: {
+          [WalletId.PERA]: {
+            accounts: [{ name: 'Pera Wallet 1', address: 'address1' }],
+            activeAccount: { name: 'Pera Wallet 1', address: 'address1' }
+          },
+          [WalletId.DEFLY]: {
+            accounts: [
+              { name: 'Defly Wallet 1', address: 'address2' },
+              { name: 'Defly Wallet 2', address: 'address3' }
+            ],
+            activeAccount: { name: 'Defly Wallet 2', address: 'address3' }
+          }
+        },
+        activeWallet: WalletId.DEFLY,
+        activeNetwork: 'mainnet',
+        customNetworkConfigs: {}
+      })
+    })
+
+    it('sets no active wallet if there is no active account', () => {
+      const legacyState = {
+        state: { accounts: [], activeAccount: null },
+        version: 0
+      }
+
+      expect(migrateV3State(legacyState, 'testnet')).toEqual({
+        wallets: {},
+        activeWallet: null,
+        activeNetwork: 'testnet',
+        customNetworkConfigs: {}
+      })
+    })
+
+    it('throws if the legacy state is invalid', () => {
+      expect(() => migrateV3State({ foo: 'bar' }, 'testnet')).toThrow('Legacy v3 state is invalid')
+    })
+  })
+})
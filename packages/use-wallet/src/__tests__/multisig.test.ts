@@ -0,0 +1,73 @@
+import algosdk from 'algosdk'
+import { InvalidInputError } from 'src/errors'
+import {
+  countMultisigSignatures,
+  getMultisigAddress,
+  getPendingGroupId,
+  mergeMultisigSignatures
+} from 'src/multisig'
+
+const members = [algosdk.generateAccount(), algosdk.generateAccount()]
+const metadata = { version: 1, threshold: 2, addrs: members.map(({ addr }) => addr.toString()) }
+const multisigAddress = algosdk.multisigAddress(metadata).toString()
+
+const suggestedParams = { fee: 1000, flatFee: true, firstValid: 1, lastValid: 1001, minFee: 1000 }
+
+const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+  sender: multisigAddress,
+  receiver: multisigAddress,
+  amount: 0,
+  suggestedParams
+})
+
+describe('getMultisigAddress', () => {
+  it('returns the address of the multisig account', () => {
+    expect(getMultisigAddress(metadata)).toBe(multisigAddress)
+  })
+
+  it('throws an InvalidInputError for invalid metadata', () => {
+    expect(() => getMultisigAddress({ ...metadata, threshold: 3 })).toThrow(InvalidInputError)
+    expect(() => getMultisigAddress({ ...metadata, addrs: ['invalid'] })).toThrow(InvalidInputError)
+  })
+})
+
+describe('mergeMultisigSignatures', () => {
+  it('merges partial signatures', () => {
+    const partials = members.map(
+      ({ sk }) => algosdk.signMultisigTransaction(txn, metadata, sk).blob
+    )
+
+    expect(countMultisigSignatures(algosdk.decodeSignedTransaction(partials[0]))).toBe(1)
+
+    const merged = mergeMultisigSignatures(partials)
+    expect(countMultisigSignatures(algosdk.decodeSignedTransaction(merged))).toBe(2)
+  })
+
+  it('throws an InvalidInputError if the transactions are not multisig transactions', () => {
+    const signedTxn = txn.signTxn(members[0].sk)
+
+    expect(() => mergeMultisigSignatures([signedTxn, signedTxn])).toThrow(InvalidInputError)
+  })
+})
+
+describe('getPendingGroupId', () => {
+  it('uses the group ID, or the transaction ID of a single transaction', () => {
+    expect(getPendingGroupId([txn])).toBe(txn.txID())
+
+    const group = algosdk.assignGroupID([
+      algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: multisigAddress,
+        receiver: multisigAddress,
+        amount: 1,
+        suggestedParams
+      }),
+      algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: multisigAddress,
+        receiver: multisigAddress,
+        amount: 2,
+        suggestedParams
+      })
+    ])
+    expect(getPendingGroupId(group)).toBe(algosdk.bytesToBase64(group[0].group!))
+  })
+})
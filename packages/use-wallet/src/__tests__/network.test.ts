@@ -1,4 +1,11 @@
-import { NetworkConfigBuilder, isNetworkConfig, createNetworkConfig } from 'src/network'
+import {
+  NetworkConfigBuilder,
+  isNetworkConfig,
+  createNetworkConfig,
+  DEFAULT_NETWORK_CONFIG,
+  getAlgodEndpoints,
+  isSameGenesisHash
+} from 'src/network'
 
 describe('Network Configuration', () => {
   describe('createNetworkConfig', () => {
@@ -21,6 +28,11 @@ describe('Network Configuration', () => {
           baseServer: 'https://mainnet-api.4160.nodely.dev',
           headers: {}
         },
+        indexer: {
+          token: '',
+          baseServer: 'https://mainnet-idx.4160.nodely.dev',
+          headers: {}
+        },
         isTestnet: false,
         genesisHash: 'wGHE2Pwdvd7S12BL5FaOP20EGYesN73ktiC1qzkkit8=',
         genesisId: 'mainnet-v1.0',
@@ -50,6 +62,25 @@ describe('Network Configuration', () => {
       expect(networks.mainnet.isTestnet).toBe(false)
     })
 
+    it('allows customizing default network indexer config', () => {
+      const networks = new NetworkConfigBuilder()
+        .testnet({
+          indexer: {
+            token: 'custom-token',
+            baseServer: 'custom-indexer'
+          }
+        })
+        .build()
+
+      expect(networks.testnet.indexer).toEqual({
+        token: 'custom-token',
+        baseServer: 'custom-indexer',
+        headers: {}
+      })
+      // Algod config should remain unchanged
+      expect(networks.testnet.algod.baseServer).toBe('https://testnet-api.4160.nodely.dev')
+    })
+
     it('allows adding custom networks', () => {
       const customNetwork = {
         algod: {
@@ -121,6 +152,23 @@ describe('Network Configuration', () => {
       expect(isNetworkConfig(validConfig)).toBe(true)
     })
 
+    it('validates network configs with fallback algod endpoints', () => {
+      expect(
+        isNetworkConfig({
+          algod: {
+            token: '',
+            baseServer: 'primary',
+            fallbacks: [{ token: '', baseServer: 'backup' }]
+          }
+        })
+      ).toBe(true)
+      expect(
+        isNetworkConfig({
+          algod: { token: '', baseServer: 'primary', fallbacks: [{ token: '' }] }
+        })
+      ).toBe(false)
+    })
+
     it('rejects invalid network configs', () => {
       expect(isNetworkConfig(null)).toBe(false)
       expect(isNetworkConfig({})).toBe(false)
@@ -129,6 +177,32 @@ describe('Network Configuration', () => {
           algod: { baseServer: 'server' }
         })
       ).toBe(false)
+      expect(
+        isNetworkConfig({
+          algod: { token: 'token', baseServer: 'server' },
+          indexer: { token: 'token' }
+        })
+      ).toBe(false)
+    })
+  })
+
+  describe('getAlgodEndpoints', () => {
+    it('lists the primary endpoint, then its fallbacks', () => {
+      const backup = { token: 'backup-token', baseServer: 'backup' }
+      const algod = { token: '', baseServer: 'primary', port: 443, fallbacks: [backup] }
+
+      expect(getAlgodEndpoints(algod)).toEqual([
+        { token: '', baseServer: 'primary', port: 443 },
+        backup
+      ])
+    })
+  })
+  describe('isSameGenesisHash', () => {
+    it('treats standard and URL-safe base64 hashes as the same', () => {
+      const hash = 'mFgazF-2uRS1tMiL9dsj01hJGySEmPN2OvOTQHJ6iQg='
+
+      expect(isSameGenesisHash(hash, 'mFgazF+2uRS1tMiL9dsj01hJGySEmPN2OvOTQHJ6iQg=')).toBe(true)
+      expect(isSameGenesisHash(hash, DEFAULT_NETWORK_CONFIG.testnet.genesisHash!)).toBe(false)
     })
   })
 })
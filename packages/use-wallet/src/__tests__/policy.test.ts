@@ -0,0 +1,117 @@
+import algosdk from 'algosdk'
+import { PolicyViolationError, UserRejectedError } from 'src/errors'
+import { enforceSigningPolicy, evaluateSigningPolicy } from 'src/policy'
+
+const sender = '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
+const attacker = 'EW64GC6F24M7NDSC5R3ES4YUVE3ZXXNMARJHDCCCLIHZU6TBEOC7XRSBG4'
+
+const suggestedParams = { fee: 0, firstValid: 1, lastValid: 1001, minFee: 1000 }
+
+const makePayTxn = (fields: { rekeyTo?: string; closeRemainderTo?: string } = {}) =>
+  algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender,
+    receiver: sender,
+    amount: 0,
+    suggestedParams,
+    ...fields
+  })
+
+const makeAssetTxn = (fields: { closeRemainderTo?: string; assetSender?: string } = {}) =>
+  algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender,
+    receiver: sender,
+    amount: 0,
+    assetIndex: 123,
+    suggestedParams,
+    ...fields
+  })
+
+const makeAppCallTxn = (appIndex: number) =>
+  algosdk.makeApplicationNoOpTxnFromObject({ sender, appIndex, suggestedParams })
+
+describe('evaluateSigningPolicy', () => {
+  it('flags dangerous fields with the default actions', () => {
+    const txns = [
+      makePayTxn({ rekeyTo: attacker }),
+      makePayTxn({ closeRemainderTo: attacker }),
+      makeAssetTxn({ closeRemainderTo: attacker }),
+      makeAssetTxn({ assetSender: attacker }),
+      makePayTxn()
+    ]
+
+    expect(
+      evaluateSigningPolicy(txns, {}).map(({ index, rule, action }) => ({ index, rule, action }))
+    ).toEqual([
+      { index: 0, rule: 'rekey', action: 'reject' },
+      { index: 1, rule: 'closeAccount', action: 'confirm' },
+      { index: 2, rule: 'closeAsset', action: 'confirm' },
+      { index: 3, rule: 'clawback', action: 'confirm' }
+    ])
+  })
+
+  it('uses the actions set by the policy', () => {
+    const txns = [makePayTxn({ rekeyTo: attacker }), makePayTxn({ closeRemainderTo: attacker })]
+
+    expect(evaluateSigningPolicy(txns, { rekey: 'confirm', closeAccount: 'allow' })).toEqual([
+      {
+        index: 0,
+        rule: 'rekey',
+        action: 'confirm',
+        message: `Transaction 0 rekeys ${sender} to ${attacker}`
+      }
+    ])
+  })
+
+  it('checks app calls only if allowed app IDs are set', () => {
+    const txns = [makeAppCallTxn(1), makeAppCallTxn(2)]
+
+    expect(evaluateSigningPolicy(txns, {})).toEqual([])
+    expect(evaluateSigningPolicy(txns, { allowedAppIds: [1] })).toMatchObject([
+      { index: 1, rule: 'appCall', action: 'reject' }
+    ])
+  })
+
+  it('only checks transactions that will be signed', () => {
+    const txns = [makePayTxn({ rekeyTo: attacker }), makePayTxn()]
+
+    expect(evaluateSigningPolicy(txns, {}, [1])).toEqual([])
+  })
+
+  it('checks encoded transactions and nested groups', () => {
+    const txns = [
+      [algosdk.encodeUnsignedTransaction(makePayTxn())],
+      [algosdk.encodeUnsignedTransaction(makePayTxn({ rekeyTo: attacker }))]
+    ]
+
+    expect(evaluateSigningPolicy(txns, {})).toMatchObject([{ index: 1, rule: 'rekey' }])
+  })
+})
+
+describe('enforceSigningPolicy', () => {
+  it('throws a PolicyViolationError for rejected transactions', async () => {
+    const confirm = vi.fn()
+
+    await expect(
+      enforceSigningPolicy([makePayTxn({ rekeyTo: attacker })], {}, undefined, confirm)
+    ).rejects.toBeInstanceOf(PolicyViolationError)
+    expect(confirm).not.toHaveBeenCalled()
+  })
+
+  it('asks to confirm flagged transactions', async () => {
+    const txns = [makePayTxn({ closeRemainderTo: attacker })]
+    const confirm = vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+
+    await expect(enforceSigningPolicy(txns, {}, undefined, confirm)).resolves.toBeUndefined()
+    expect(confirm).toHaveBeenCalledWith([expect.objectContaining({ rule: 'closeAccount' })])
+
+    await expect(enforceSigningPolicy(txns, {}, undefined, confirm)).rejects.toBeInstanceOf(
+      UserRejectedError
+    )
+  })
+
+  it('rejects flagged transactions if there is no way to confirm them', async () => {
+    await expect(
+      enforceSigningPolicy([makePayTxn({ closeRemainderTo: attacker })], {})
+    ).rejects.toBeInstanceOf(PolicyViolationError)
+  })
+})
@@ -0,0 +1,112 @@
+import { RequestCanceledError } from 'src/errors'
+import { RequestQueue } from 'src/queue'
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (reason: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+describe('RequestQueue', () => {
+  it('runs requests one at a time, in order', async () => {
+    const queue = new RequestQueue()
+    const first = deferred<string>()
+    const second = vi.fn().mockResolvedValue('second')
+
+    const firstResult = queue.add(() => first.promise)
+    const secondResult = queue.add(second)
+
+    await Promise.resolve()
+    expect(second).not.toHaveBeenCalled()
+
+    first.resolve('first')
+    await expect(firstResult).resolves.toBe('first')
+    await expect(secondResult).resolves.toBe('second')
+    expect(second).toHaveBeenCalledTimes(1)
+  })
+
+  it('runs the next request if one fails', async () => {
+    const queue = new RequestQueue()
+
+    const firstResult = queue.add(() => Promise.reject(new Error('Rejected')))
+    const secondResult = queue.add(() => Promise.resolve('second'))
+
+    await expect(firstResult).rejects.toThrow('Rejected')
+    await expect(secondResult).resolves.toBe('second')
+  })
+
+  it('reports its size', async () => {
+    const onSizeChange = vi.fn()
+    const queue = new RequestQueue(onSizeChange)
+    const first = deferred<void>()
+
+    const firstResult = queue.add(() => first.promise)
+    const secondResult = queue.add(() => Promise.resolve())
+    expect(queue.size).toBe(2)
+
+    first.resolve()
+    await Promise.all([firstResult, secondResult])
+
+    expect(queue.size).toBe(0)
+    expect(onSizeChange.mock.calls.map(([size]) => size)).toEqual([1, 2, 1, 0])
+  })
+
+  it('shares the result of requests with the same key', async () => {
+    const queue = new RequestQueue()
+    const first = deferred<string>()
+    const request = vi.fn(() => first.promise)
+
+    const firstResult = queue.add(request, { key: 'txn' })
+    const secondResult = queue.add(request, { key: 'txn' })
+    first.resolve('signed')
+
+    expect(secondResult).toBe(firstResult)
+    await expect(secondResult).resolves.toBe('signed')
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('cancels queued requests when their signal is aborted', async () => {
+    const queue = new RequestQueue()
+    const first = deferred<void>()
+    const second = vi.fn()
+    const controller = new AbortController()
+
+    const firstResult = queue.add(() => first.promise)
+    const secondResult = queue.add(second, { signal: controller.signal })
+    controller.abort()
+
+    await expect(secondResult).rejects.toBeInstanceOf(RequestCanceledError)
+    expect(queue.size).toBe(1)
+
+    first.resolve()
+    await firstResult
+    expect(second).not.toHaveBeenCalled()
+  })
+
+  it('rejects requests whose signal is already aborted', async () => {
+    const queue = new RequestQueue()
+    const request = vi.fn()
+
+    await expect(queue.add(request, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(
+      RequestCanceledError
+    )
+    expect(request).not.toHaveBeenCalled()
+  })
+
+  it('clears queued requests but not the one in progress', async () => {
+    const queue = new RequestQueue()
+    const first = deferred<string>()
+
+    const firstResult = queue.add(() => first.promise)
+    const secondResult = queue.add(() => Promise.resolve('second'))
+    queue.clear()
+    first.resolve('first')
+
+    await expect(firstResult).resolves.toBe('first')
+    await expect(secondResult).rejects.toBeInstanceOf(RequestCanceledError)
+  })
+})
@@ -0,0 +1,108 @@
+import {
+  createSecretStore,
+  EncryptedSecretStore,
+  getNetworkSecrets,
+  NODE_SECRETS_STORAGE_KEY,
+  omitNetworkSecrets,
+  restoreNetworkSecrets,
+  StorageSecretStore
+} from 'src/secrets'
+import { DEFAULT_NETWORK_CONFIG, type NetworkConfig } from 'src/network'
+import { MemoryStorageBackend } from 'src/storage'
+
+const customConfig: NetworkConfig = {
+  algod: {
+    token: 'algod-token',
+    baseServer: 'https://node.test',
+    headers: { 'X-API-Key': 'algod-key' },
+    fallbacks: [
+      { token: '', baseServer: 'https://public.test' },
+      { token: 'backup-token', baseServer: 'https://backup.test' }
+    ]
+  },
+  indexer: { token: '', baseServer: 'https://indexer.test', headers: { 'X-API-Key': 'idx-key' } }
+}
+
+describe('network secrets', () => {
+  it('gets the tokens and headers of each endpoint', () => {
+    expect(getNetworkSecrets(customConfig)).toEqual({
+      algod: { token: 'algod-token', headers: { 'X-API-Key': 'algod-key' } },
+      fallbacks: [null, { token: 'backup-token' }],
+      indexer: { headers: { 'X-API-Key': 'idx-key' } }
+    })
+    expect(getNetworkSecrets(DEFAULT_NETWORK_CONFIG.mainnet)).toBeNull()
+  })
+
+  it('leaves out tokens of endpoints in the base config, and empties the others', () => {
+    expect(omitNetworkSecrets(customConfig, DEFAULT_NETWORK_CONFIG.mainnet)).toEqual({
+      algod: {
+        baseServer: 'https://node.test',
+        fallbacks: [
+          { token: '', baseServer: 'https://public.test' },
+          { token: '', baseServer: 'https://backup.test' }
+        ]
+      },
+      indexer: { baseServer: 'https://indexer.test' }
+    })
+    expect(omitNetworkSecrets(customConfig, undefined)).toMatchObject({
+      algod: { token: '', baseServer: 'https://node.test' },
+      indexer: { token: '', baseServer: 'https://indexer.test' }
+    })
+  })
+
+  it('restores tokens and headers into a config without them', () => {
+    const config = omitNetworkSecrets(customConfig, undefined) as NetworkConfig
+
+    expect(restoreNetworkSecrets(config, getNetworkSecrets(customConfig)!)).toEqual(customConfig)
+  })
+})
+
+describe('StorageSecretStore', () => {
+  it('saves secrets as JSON, and removes them once there are none', () => {
+    const storage = new MemoryStorageBackend()
+    const secretStore = new StorageSecretStore(storage)
+    const secrets = { mainnet: { algod: { token: 'algod-token' } } }
+
+    secretStore.save(secrets)
+    expect(secretStore.load()).toEqual(secrets)
+
+    secretStore.save({})
+    expect(storage.getItem(NODE_SECRETS_STORAGE_KEY)).toBeNull()
+  })
+})
+
+describe('EncryptedSecretStore', () => {
+  const getKey = () =>
+    crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+
+  it('stores only the ciphertext of the secrets', async () => {
+    const storage = new MemoryStorageBackend()
+    const key = await getKey()
+    const secretStore = new EncryptedSecretStore({ storage, getKey: () => Promise.resolve(key) })
+    const secrets = { mainnet: { algod: { token: 'algod-token' } } }
+
+    await secretStore.save(secrets)
+
+    expect(storage.getItem(NODE_SECRETS_STORAGE_KEY)).not.toContain('algod-token')
+    await expect(secretStore.load()).resolves.toEqual(secrets)
+  })
+
+  it('cannot decrypt secrets without the key', async () => {
+    const storage = new MemoryStorageBackend()
+    await new EncryptedSecretStore({ storage, getKey }).save({
+      mainnet: { algod: { token: 'algod-token' } }
+    })
+
+    await expect(new EncryptedSecretStore({ storage, getKey }).load()).rejects.toThrow()
+  })
+})
+
+describe('createSecretStore', () => {
+  it('creates the store for each mode', () => {
+    const storage = new MemoryStorageBackend()
+
+    expect(createSecretStore('plaintext', storage)).toBeNull()
+    expect(createSecretStore('session', storage)).toBeInstanceOf(StorageSecretStore)
+    expect(createSecretStore('encrypt', storage)).toBeInstanceOf(EncryptedSecretStore)
+  })
+})
@@ -0,0 +1,120 @@
+import algosdk from 'algosdk'
+import { TimeoutError, TransactionRejectedError } from 'src/errors'
+import { sendTransactions } from 'src/send'
+
+const account = algosdk.generateAccount()
+const sender = account.addr.toString()
+
+const suggestedParams = { fee: 1000, flatFee: true, firstValid: 1, lastValid: 1001, minFee: 1000 }
+
+const makeSignedTxn = (amount: number) =>
+  algosdk
+    .makePaymentTxnWithSuggestedParamsFromObject({
+      sender,
+      receiver: sender,
+      amount,
+      suggestedParams
+    })
+    .signTxn(account.sk)
+
+const getTxId = (signedTxn: Uint8Array) => algosdk.decodeSignedTransaction(signedTxn).txn.txID()
+
+const makePendingInfo = (fields: Partial<algosdk.modelsv2.PendingTransactionResponse> = {}) =>
+  new algosdk.modelsv2.PendingTransactionResponse({
+    poolError: '',
+    txn: new algosdk.SignedTransaction({
+      txn: algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender,
+        receiver: sender,
+        amount: 0,
+        suggestedParams
+      })
+    }),
+    ...fields
+  })
+
+const createAlgodClient = (
+  pendingInfo: (txId: string, round: bigint) => algosdk.modelsv2.PendingTransactionResponse
+) => {
+  let round = BigInt(100)
+  const algodClient = {
+    sendRawTransaction: vi.fn(() => ({ do: () => Promise.resolve({ txid: '' }) })),
+    status: vi.fn(() => ({ do: () => Promise.resolve({ lastRound: round }) })),
+    statusAfterBlock: vi.fn(() => ({
+      do: () => {
+        round++
+        return Promise.resolve({ lastRound: round })
+      }
+    })),
+    pendingTransactionInformation: vi.fn((txId: string) => ({
+      do: () => Promise.resolve(pendingInfo(txId, round))
+    }))
+  }
+  return algodClient as unknown as algosdk.Algodv2 & typeof algodClient
+}
+
+describe('sendTransactions', () => {
+  it('submits each group and waits for confirmation', async () => {
+    const groups = [[makeSignedTxn(1), makeSignedTxn(2)], [makeSignedTxn(3)]]
+    const txIds = groups.flat().map(getTxId)
+    const algodClient = createAlgodClient((txId, round) =>
+      // The last transaction is confirmed a round later
+      txId === txIds[2] && round === BigInt(100)
+        ? makePendingInfo()
+        : makePendingInfo({ confirmedRound: round + BigInt(1) })
+    )
+
+    const result = await sendTransactions(groups, algodClient)
+
+    expect(algodClient.sendRawTransaction).toHaveBeenNthCalledWith(1, groups[0])
+    expect(algodClient.sendRawTransaction).toHaveBeenNthCalledWith(2, groups[1])
+    expect(algodClient.statusAfterBlock).toHaveBeenCalledTimes(1)
+    expect(result.txIds).toEqual(txIds)
+    expect(result.confirmedRound).toBe(BigInt(102))
+    expect(result.confirmations).toHaveLength(3)
+  })
+
+  it('returns the ARC-4 return value logged by app calls', async () => {
+    const signedTxn = makeSignedTxn(1)
+    const algodClient = createAlgodClient(() =>
+      makePendingInfo({
+        confirmedRound: BigInt(101),
+        logs: [new Uint8Array([1, 2]), new Uint8Array([0x15, 0x1f, 0x7c, 0x75, 0, 42])]
+      })
+    )
+
+    const { returnLogs } = await sendTransactions([signedTxn], algodClient)
+
+    expect(returnLogs).toEqual([new Uint8Array([0, 42])])
+  })
+
+  it('throws a TransactionRejectedError if algod rejects the transactions', async () => {
+    const algodClient = createAlgodClient(() => makePendingInfo())
+    const error = Object.assign(new Error('Network request error'), {
+      response: { body: { message: 'overspend' } }
+    })
+    algodClient.sendRawTransaction.mockReturnValueOnce({ do: () => Promise.reject(error) })
+
+    const result = sendTransactions([makeSignedTxn(1)], algodClient)
+
+    await expect(result).rejects.toThrow(TransactionRejectedError)
+    await expect(result).rejects.toThrow('Transaction rejected: overspend')
+  })
+
+  it('throws a TransactionRejectedError if a transaction is dropped from the pool', async () => {
+    const algodClient = createAlgodClient(() => makePendingInfo({ poolError: 'txn dead' }))
+
+    await expect(sendTransactions([makeSignedTxn(1)], algodClient)).rejects.toThrow(
+      TransactionRejectedError
+    )
+  })
+
+  it('throws a TimeoutError if the transactions are not confirmed within waitRounds', async () => {
+    const algodClient = createAlgodClient(() => makePendingInfo())
+
+    await expect(
+      sendTransactions([makeSignedTxn(1)], algodClient, { waitRounds: 2 })
+    ).rejects.toThrow(TimeoutError)
+    expect(algodClient.statusAfterBlock).toHaveBeenCalledTimes(2)
+  })
+})
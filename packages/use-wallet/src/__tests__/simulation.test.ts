@@ -0,0 +1,109 @@
+import algosdk from 'algosdk'
+import { simulateTransactions } from 'src/simulation'
+
+const sender = '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
+const receiver = 'EW64GC6F24M7NDSC5R3ES4YUVE3ZXXNMARJHDCCCLIHZU6TBEOC7XRSBG4'
+
+const suggestedParams = { fee: 1000, flatFee: true, firstValid: 1, lastValid: 1001, minFee: 1000 }
+
+const payTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+  sender,
+  receiver,
+  amount: 5000,
+  suggestedParams
+})
+const assetTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+  sender,
+  receiver,
+  amount: 10,
+  assetIndex: 123,
+  closeRemainderTo: receiver,
+  suggestedParams
+})
+
+const makeTxnResult = (
+  txn: algosdk.Transaction,
+  fields: Partial<algosdk.modelsv2.PendingTransactionResponse> = {}
+) =>
+  new algosdk.modelsv2.SimulateTransactionResult({
+    txnResult: new algosdk.modelsv2.PendingTransactionResponse({
+      poolError: '',
+      txn: new algosdk.SignedTransaction({ txn }),
+      ...fields
+    })
+  })
+
+const makeResponse = (groupResult: Partial<algosdk.modelsv2.SimulateTransactionGroupResult>) =>
+  new algosdk.modelsv2.SimulateResponse({
+    lastRound: 100,
+    version: 2,
+    txnGroups: [
+      new algosdk.modelsv2.SimulateTransactionGroupResult({ txnResults: [], ...groupResult })
+    ]
+  })
+
+const createAlgodClient = (...responses: algosdk.modelsv2.SimulateResponse[]) => {
+  const simulateTransactions = vi.fn()
+  responses.forEach((response) => {
+    simulateTransactions.mockReturnValueOnce({ do: () => Promise.resolve(response) })
+  })
+  return { simulateTransactions } as unknown as algosdk.Algodv2 & {
+    simulateTransactions: typeof simulateTransactions
+  }
+}
+
+describe('simulateTransactions', () => {
+  it('simulates unsigned transactions with empty signatures allowed', async () => {
+    const algodClient = createAlgodClient(makeResponse({ txnResults: [makeTxnResult(payTxn)] }))
+
+    await simulateTransactions([algosdk.encodeUnsignedTransaction(payTxn)], algodClient)
+
+    const [request] = algodClient.simulateTransactions.mock.calls[0]
+    expect(request).toBeInstanceOf(algosdk.modelsv2.SimulateRequest)
+    expect(request.allowEmptySignatures).toBe(true)
+    expect(request.txnGroups[0].txns[0].txn.txID()).toBe(payTxn.txID())
+  })
+
+  it('reports budget and balance changes for successful transactions', async () => {
+    const algodClient = createAlgodClient(
+      makeResponse({
+        appBudgetConsumed: 700,
+        txnResults: [
+          makeTxnResult(payTxn),
+          makeTxnResult(assetTxn, { assetClosingAmount: BigInt(90) })
+        ]
+      })
+    )
+
+    const result = await simulateTransactions([payTxn, assetTxn], algodClient)
+
+    expect(result.success).toBe(true)
+    expect(result.failureMessage).toBeUndefined()
+    expect(result.appBudgetConsumed).toBe(700)
+    expect(result.balanceChanges).toEqual([
+      { address: sender, assetId: BigInt(0), amount: BigInt(-7000) },
+      { address: receiver, assetId: BigInt(0), amount: BigInt(5000) },
+      { address: sender, assetId: BigInt(123), amount: BigInt(-100) },
+      { address: receiver, assetId: BigInt(123), amount: BigInt(100) }
+    ])
+  })
+
+  it('reports why the transactions would fail', async () => {
+    const algodClient = createAlgodClient(
+      makeResponse({ txnResults: [makeTxnResult(payTxn)] }),
+      makeResponse({
+        txnResults: [makeTxnResult(payTxn)],
+        failureMessage: 'overspend',
+        failedAt: [0]
+      })
+    )
+
+    const result = await simulateTransactions([[payTxn], [payTxn]], algodClient)
+
+    expect(algodClient.simulateTransactions).toHaveBeenCalledTimes(2)
+    expect(result.success).toBe(false)
+    expect(result.failureMessage).toBe('overspend')
+    expect(result.failedAt).toEqual([1])
+    expect(result.responses).toHaveLength(2)
+  })
+})
@@ -0,0 +1,102 @@
+import {
+  CookieStorageBackend,
+  IndexedDBStorageBackend,
+  MemoryStorageBackend,
+  SessionStorageBackend
+} from 'src/storage'
+
+describe('Storage Backends', () => {
+  describe('MemoryStorageBackend', () => {
+    it('stores, retrieves and removes items', () => {
+      const storage = new MemoryStorageBackend()
+
+      expect(storage.getItem('key')).toBeNull()
+
+      storage.setItem('key', 'value')
+      expect(storage.getItem('key')).toBe('value')
+
+      storage.removeItem('key')
+      expect(storage.getItem('key')).toBeNull()
+    })
+
+    it('accepts initial items', () => {
+      const storage = new MemoryStorageBackend({ key: 'value' })
+      expect(storage.getItem('key')).toBe('value')
+    })
+  })
+
+  describe('SessionStorageBackend', () => {
+    it('returns null when window is not available', () => {
+      const storage = new SessionStorageBackend()
+      expect(storage.getItem('key')).toBeNull()
+      expect(() => storage.setItem('key', 'value')).not.toThrow()
+      expect(() => storage.removeItem('key')).not.toThrow()
+    })
+  })
+
+  describe('IndexedDBStorageBackend', () => {
+    it('rejects when IndexedDB is not available', async () => {
+      const storage = new IndexedDBStorageBackend()
+      await expect(storage.getItem('key')).rejects.toThrow('IndexedDB is not available')
+    })
+  })
+
+  describe('CookieStorageBackend', () => {
+    let cookies: Record<string, string>
+    let storage: CookieStorageBackend
+    const setCookie = vi.fn((cookie: string) => {
+      const [pair, ...attributes] = cookie.split('; ')
+      const [name, value] = pair.split('=')
+      if (attributes.includes('Max-Age=0')) {
+        delete cookies[name]
+      } else {
+        cookies[name] = value
+      }
+    })
+
+    beforeEach(() => {
+      cookies = { other: 'cookie' }
+      setCookie.mockClear()
+      storage = new CookieStorageBackend({
+        getCookies: () =>
+          Object.entries(cookies)
+            .map(([name, value]) => `${name}=${value}`)
+            .join('; '),
+        setCookie
+      })
+    })
+
+    it('stores, retrieves and removes items', () => {
+      const value = JSON.stringify({ activeNetwork: 'mainnet' })
+
+      storage.setItem('@txnlab/use-wallet:v4', value)
+      expect(storage.getItem('@txnlab/use-wallet:v4')).toBe(value)
+      expect(storage.getItem('other')).toBe('cookie')
+
+      storage.removeItem('@txnlab/use-wallet:v4')
+      expect(storage.getItem('@txnlab/use-wallet:v4')).toBeNull()
+    })
+
+    it('serializes cookie attributes', () => {
+      storage = new CookieStorageBackend({
+        getCookies: () => '',
+        setCookie,
+        path: '/app',
+        domain: 'example.com',
+        maxAge: 3600,
+        sameSite: 'Strict',
+        secure: true
+      })
+
+      storage.setItem('key', 'value')
+
+      expect(setCookie).toHaveBeenCalledWith(
+        'key=value; Path=/app; Max-Age=3600; SameSite=Strict; Domain=example.com; Secure'
+      )
+    })
+
+    it('returns null when the cookie is not set', () => {
+      expect(storage.getItem('missing')).toBeNull()
+    })
+  })
+})
@@ -2,6 +2,7 @@ import { Store } from '@tanstack/store'
 import { Algodv2 } from 'algosdk'
 import {
   State,
+  PERSISTED_STATE_VERSION,
   PersistedState,
   addWallet,
   DEFAULT_STATE,
@@ -563,6 +564,7 @@ describe('Type Guards', () => {
   describe('isValidPersistedState', () => {
     it('returns true for a valid state', () => {
       const defaultState: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
         wallets: {},
         activeWallet: null,
         activeNetwork: 'testnet',
@@ -571,6 +573,7 @@ describe('Type Guards', () => {
       expect(isValidPersistedState(defaultState)).toBe(true)
 
       const state: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
         wallets: {
           [WalletId.DEFLY]: {
             accounts: [
@@ -0,0 +1,141 @@
+import { SYNC_CHANNEL_NAME, TabSync } from 'src/sync'
+
+vi.mock('src/logger', () => ({
+  logger: {
+    createScopedLogger: vi.fn().mockReturnValue({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn()
+    })
+  }
+}))
+
+class MockBroadcastChannel {
+  static channels: MockBroadcastChannel[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+
+  constructor(public name: string) {
+    MockBroadcastChannel.channels.push(this)
+  }
+
+  postMessage = vi.fn((data: unknown) => {
+    for (const channel of MockBroadcastChannel.channels) {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.({ data: structuredClone(data) })
+      }
+    }
+  })
+
+  close() {
+    MockBroadcastChannel.channels = MockBroadcastChannel.channels.filter((c) => c !== this)
+  }
+}
+
+describe('TabSync', () => {
+  const storageKey = '@txnlab/use-wallet:v4'
+  let listeners: Record<string, (event: any) => void>
+
+  beforeEach(() => {
+    listeners = {}
+    MockBroadcastChannel.channels = []
+    vi.stubGlobal('window', {
+      addEventListener: vi.fn((type: string, listener: (event: any) => void) => {
+        listeners[type] = listener
+      }),
+      removeEventListener: vi.fn((type: string) => {
+        delete listeners[type]
+      })
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('is inactive when window is not available', () => {
+    vi.unstubAllGlobals()
+    const tabSync = new TabSync({ storageKey, onStateChange: vi.fn() })
+    expect(tabSync.isActive).toBe(false)
+  })
+
+  describe('BroadcastChannel', () => {
+    beforeEach(() => {
+      vi.stubGlobal('BroadcastChannel', MockBroadcastChannel)
+    })
+
+    it('relays state from other tabs', () => {
+      const onStateChange = vi.fn()
+      new TabSync({ storageKey, onStateChange })
+      const [channel] = MockBroadcastChannel.channels
+
+      expect(channel.name).toBe(SYNC_CHANNEL_NAME)
+
+      channel.onmessage?.({ data: { tabId: 'other-tab', state: { activeNetwork: 'mainnet' } } })
+      expect(onStateChange).toHaveBeenCalledWith({ activeNetwork: 'mainnet' })
+    })
+
+    it('broadcasts state tagged with the tab ID', () => {
+      const tabSync = new TabSync({ storageKey, onStateChange: vi.fn() })
+      tabSync.broadcast({ activeNetwork: 'mainnet' })
+
+      expect(MockBroadcastChannel.channels[0].postMessage).toHaveBeenCalledWith({
+        tabId: expect.any(String),
+        state: { activeNetwork: 'mainnet' }
+      })
+    })
+
+    it('ignores state from the same tab', () => {
+      const onStateChange = vi.fn()
+      const tabSyncA = new TabSync({ storageKey, onStateChange: vi.fn() })
+      new TabSync({ storageKey, onStateChange })
+
+      tabSyncA.broadcast({ activeNetwork: 'mainnet' })
+
+      expect(onStateChange).not.toHaveBeenCalled()
+    })
+
+    it('stops relaying state when closed', () => {
+      const tabSync = new TabSync({ storageKey, onStateChange: vi.fn() })
+
+      tabSync.close()
+
+      expect(tabSync.isActive).toBe(false)
+      expect(MockBroadcastChannel.channels).toHaveLength(0)
+    })
+  })
+
+  describe('storage event fallback', () => {
+    beforeEach(() => {
+      vi.stubGlobal('BroadcastChannel', undefined)
+    })
+
+    it('relays state persisted by other tabs', () => {
+      const onStateChange = vi.fn()
+      const tabSync = new TabSync({ storageKey, onStateChange })
+
+      expect(tabSync.isActive).toBe(true)
+
+      listeners.storage({ key: 'other-key', newValue: '{}' })
+      listeners.storage({ key: storageKey, newValue: null })
+      expect(onStateChange).not.toHaveBeenCalled()
+
+      listeners.storage({ key: storageKey, newValue: JSON.stringify({ activeNetwork: 'mainnet' }) })
+      expect(onStateChange).toHaveBeenCalledWith({ activeNetwork: 'mainnet' })
+    })
+
+    it('ignores invalid JSON', () => {
+      const onStateChange = vi.fn()
+      new TabSync({ storageKey, onStateChange })
+
+      listeners.storage({ key: storageKey, newValue: 'not json' })
+      expect(onStateChange).not.toHaveBeenCalled()
+    })
+
+    it('removes the listener when closed', () => {
+      const tabSync = new TabSync({ storageKey, onStateChange: vi.fn() })
+      tabSync.close()
+      expect(window.removeEventListener).toHaveBeenCalledWith('storage', expect.any(Function))
+    })
+  })
+})
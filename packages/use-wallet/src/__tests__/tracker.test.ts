@@ -0,0 +1,328 @@
+import { Store } from '@tanstack/store'
+import algosdk from 'algosdk'
+import { DEFAULT_STATE, type State } from 'src/store'
+import { TransactionTracker } from 'src/tracker'
+
+vi.mock('src/logger', () => ({
+  logger: {
+    createScopedLogger: vi.fn().mockReturnValue({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn()
+    })
+  }
+}))
+
+const account = algosdk.generateAccount()
+const sender = account.addr.toString()
+
+const makeSignedTxn = (amount: number, lastValid = 1001) =>
+  algosdk
+    .makePaymentTxnWithSuggestedParamsFromObject({
+      sender,
+      receiver: sender,
+      amount,
+      suggestedParams: { fee: 1000, flatFee: true, firstValid: 1, lastValid, minFee: 1000 }
+    })
+    .signTxn(account.sk)
+
+const makePendingInfo = (fields: Partial<algosdk.modelsv2.PendingTransactionResponse> = {}) =>
+  new algosdk.modelsv2.PendingTransactionResponse({
+    poolError: '',
+    txn: algosdk.decodeSignedTransaction(makeSignedTxn(0)),
+    ...fields
+  })
+
+const notFound = () =>
+  Object.assign(new Error('Network request error. Received status 404 (Not Found)'), {
+    response: { status: 404 }
+  })
+
+const createAlgodClient = (
+  lastRound: number,
+  pendingInfo: (txId: string) => algosdk.modelsv2.PendingTransactionResponse | null
+) => {
+  const algodClient = {
+    status: vi.fn(() => ({ do: () => Promise.resolve({ lastRound: BigInt(lastRound) }) })),
+    pendingTransactionInformation: vi.fn((txId: string) => ({
+      do: () => {
+        const info = pendingInfo(txId)
+        return info ? Promise.resolve(info) : Promise.reject(notFound())
+      }
+    }))
+  }
+  return algodClient as unknown as algosdk.Algodv2 & typeof algodClient
+}
+
+const createIndexerClient = (round: number, confirmedRounds: Record<string, number> = {}) => {
+  const indexerClient = {
+    lookupTransactionByID: vi.fn((txId: string) => ({
+      do: () =>
+        txId in confirmedRounds
+          ? Promise.resolve({ transaction: { confirmedRound: BigInt(confirmedRounds[txId]) } })
+          : Promise.reject(notFound())
+    })),
+    makeHealthCheck: vi.fn(() => ({ do: () => Promise.resolve({ round: BigInt(round) }) }))
+  }
+  return indexerClient as unknown as algosdk.Indexer & typeof indexerClient
+}
+
+describe('TransactionTracker', () => {
+  let store: Store<State>
+
+  beforeEach(() => {
+    store = new Store<State>(DEFAULT_STATE)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records each group as pending, keyed by the ID of its first transaction', () => {
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => null,
+      getIndexerClient: () => null,
+      pollInterval: 1000
+    })
+    const groups = [[makeSignedTxn(1, 500), makeSignedTxn(2, 600)], [makeSignedTxn(3)]]
+    const txIds = groups.flat().map((txn) => algosdk.decodeSignedTransaction(txn).txn.txID())
+
+    const groupIds = tracker.track(groups, 'testnet')
+    tracker.stop()
+
+    expect(groupIds).toEqual([txIds[0], txIds[2]])
+    expect(store.state.trackedTransactions[txIds[0]]).toEqual({
+      networkId: 'testnet',
+      txIds: [txIds[0], txIds[1]],
+      lastValid: 600,
+      status: 'pending',
+      submittedAt: expect.any(Number)
+    })
+  })
+
+  it('marks groups confirmed once every transaction is confirmed', async () => {
+    const signedTxns = [makeSignedTxn(1), makeSignedTxn(2)]
+    const [firstTxId, secondTxId] = signedTxns.map((txn) =>
+      algosdk.decodeSignedTransaction(txn).txn.txID()
+    )
+    let isSecondConfirmed = false
+    const algodClient = createAlgodClient(100, (txId) =>
+      txId === secondTxId && !isSecondConfirmed
+        ? makePendingInfo()
+        : makePendingInfo({ confirmedRound: BigInt(txId === firstTxId ? 99 : 100) })
+    )
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => algodClient,
+      getIndexerClient: () => null,
+      pollInterval: 1000
+    })
+
+    tracker.track(signedTxns, 'testnet')
+    tracker.stop()
+
+    await tracker.poll()
+    expect(store.state.trackedTransactions[firstTxId]?.status).toBe('pending')
+
+    isSecondConfirmed = true
+    await tracker.poll()
+    expect(store.state.trackedTransactions[firstTxId]).toMatchObject({
+      status: 'confirmed',
+      confirmedRound: 100
+    })
+  })
+
+  it('marks groups rejected or expired', async () => {
+    const rejectedTxn = makeSignedTxn(1)
+    const expiredTxn = makeSignedTxn(2, 50)
+    const [rejectedTxId, expiredTxId] = [rejectedTxn, expiredTxn].map((txn) =>
+      algosdk.decodeSignedTransaction(txn).txn.txID()
+    )
+    const algodClient = createAlgodClient(100, (txId) =>
+      txId === rejectedTxId ? makePendingInfo({ poolError: 'overspend' }) : null
+    )
+    const indexerClient = createIndexerClient(100)
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => algodClient,
+      getIndexerClient: () => indexerClient,
+      pollInterval: 1000
+    })
+
+    tracker.track([[rejectedTxn], [expiredTxn]], 'testnet')
+    tracker.stop()
+    await tracker.poll()
+
+    expect(store.state.trackedTransactions[rejectedTxId]).toMatchObject({
+      status: 'rejected',
+      error: 'overspend'
+    })
+    expect(store.state.trackedTransactions[expiredTxId]?.status).toBe('expired')
+  })
+
+  it('looks up groups that left the pool after their last valid round in the indexer', async () => {
+    const confirmedTxn = makeSignedTxn(1, 50)
+    const laggingTxn = makeSignedTxn(2, 150)
+    const [confirmedTxId, laggingTxId] = [confirmedTxn, laggingTxn].map((txn) =>
+      algosdk.decodeSignedTransaction(txn).txn.txID()
+    )
+    const algodClient = createAlgodClient(200, () => null)
+    const indexerClient = createIndexerClient(120, { [confirmedTxId]: 45 })
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => algodClient,
+      getIndexerClient: () => indexerClient,
+      pollInterval: 1000
+    })
+
+    tracker.track([[confirmedTxn], [laggingTxn]], 'testnet')
+    tracker.stop()
+    await tracker.poll()
+
+    expect(store.state.trackedTransactions[confirmedTxId]).toMatchObject({
+      status: 'confirmed',
+      confirmedRound: 45
+    })
+    // The indexer hasn't reached round 150 yet
+    expect(store.state.trackedTransactions[laggingTxId]?.status).toBe('pending')
+  })
+
+  it('marks groups that left the pool unknown without an indexer', async () => {
+    const signedTxn = makeSignedTxn(1, 50)
+    const txId = algosdk.decodeSignedTransaction(signedTxn).txn.txID()
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => createAlgodClient(100, () => null),
+      getIndexerClient: () => null,
+      pollInterval: 1000
+    })
+
+    tracker.track([signedTxn], 'testnet')
+    tracker.stop()
+    await tracker.poll()
+
+    expect(store.state.trackedTransactions[txId]?.status).toBe('unknown')
+  })
+
+  it('keeps groups pending when algod returns an error other than 404', async () => {
+    const signedTxn = makeSignedTxn(1, 50)
+    const txId = algosdk.decodeSignedTransaction(signedTxn).txn.txID()
+    const algodClient = createAlgodClient(100, () => null)
+    algodClient.pendingTransactionInformation.mockReturnValue({
+      do: () =>
+        Promise.reject(
+          Object.assign(new Error('Received status 503'), { response: { status: 503 } })
+        )
+    })
+    const indexerClient = createIndexerClient(100)
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => algodClient,
+      getIndexerClient: () => indexerClient,
+      pollInterval: 1000
+    })
+
+    tracker.track([signedTxn], 'testnet')
+    tracker.stop()
+    await tracker.poll()
+
+    expect(store.state.trackedTransactions[txId]?.status).toBe('pending')
+    expect(indexerClient.lookupTransactionByID).not.toHaveBeenCalled()
+  })
+
+  it('keeps only the most recently submitted finished groups', () => {
+    vi.useFakeTimers()
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => null,
+      getIndexerClient: () => null,
+      pollInterval: 1000,
+      maxFinishedGroups: 2
+    })
+    const groupIds = [1, 2, 3, 4].map((amount) => {
+      vi.setSystemTime(amount * 1000)
+      return tracker.track([makeSignedTxn(amount)], 'testnet')[0]
+    })
+    tracker.stop()
+
+    tracker.confirm(groupIds[2], 100n)
+    tracker.confirm(groupIds[0], 100n)
+    expect(Object.keys(store.state.trackedTransactions)).toHaveLength(4)
+
+    tracker.confirm(groupIds[1], 100n)
+
+    expect(store.state.trackedTransactions[groupIds[0]]).toBeUndefined()
+    expect(store.state.trackedTransactions[groupIds[1]]?.status).toBe('confirmed')
+    expect(store.state.trackedTransactions[groupIds[2]]?.status).toBe('confirmed')
+    expect(store.state.trackedTransactions[groupIds[3]]?.status).toBe('pending')
+  })
+
+  it('removes old finished groups loaded from persisted state when started', () => {
+    const group = { networkId: 'testnet', txIds: ['tx'], lastValid: 1000 }
+    store.setState((state) => ({
+      ...state,
+      trackedTransactions: {
+        old: { ...group, status: 'expired', submittedAt: 1 },
+        recent: { ...group, status: 'confirmed', confirmedRound: 10, submittedAt: 2 }
+      }
+    }))
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => null,
+      getIndexerClient: () => null,
+      pollInterval: 1000,
+      maxFinishedGroups: 1
+    })
+
+    tracker.start()
+
+    expect(Object.keys(store.state.trackedTransactions)).toEqual(['recent'])
+  })
+
+  it('polls pending groups until they are finished', async () => {
+    vi.useFakeTimers()
+    const signedTxn = makeSignedTxn(1)
+    const txId = algosdk.decodeSignedTransaction(signedTxn).txn.txID()
+    const algodClient = createAlgodClient(100, () =>
+      makePendingInfo({ confirmedRound: BigInt(100) })
+    )
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => algodClient,
+      getIndexerClient: () => null,
+      pollInterval: 1000
+    })
+
+    tracker.track([signedTxn], 'testnet')
+    expect(algodClient.status).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(store.state.trackedTransactions[txId]?.status).toBe('confirmed')
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(algodClient.status).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not poll again when stopped during a poll', async () => {
+    vi.useFakeTimers()
+    const signedTxn = makeSignedTxn(1)
+    const algodClient = createAlgodClient(100, () => makePendingInfo())
+    const tracker = new TransactionTracker({
+      store,
+      getAlgodClient: () => algodClient,
+      getIndexerClient: () => null,
+      pollInterval: 1000
+    })
+    algodClient.status.mockImplementationOnce(() => {
+      tracker.stop()
+      return { do: () => Promise.resolve({ lastRound: BigInt(100) }) }
+    })
+
+    tracker.track([signedTxn], 'testnet')
+    await vi.advanceTimersByTimeAsync(5000)
+
+    expect(algodClient.status).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,112 @@
+import algosdk from 'algosdk'
+import { InvalidInputError, NetworkMismatchError } from 'src/errors'
+import { DEFAULT_NETWORK_CONFIG } from 'src/network'
+import { validateTransactions } from 'src/validation'
+
+const sender = '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
+const testnet = DEFAULT_NETWORK_CONFIG.testnet
+
+const makePayTxn = ({
+  fee = 1000,
+  firstValid = 1,
+  lastValid = 1001,
+  genesisID = testnet.genesisId,
+  genesisHash = testnet.genesisHash
+}: {
+  fee?: number
+  firstValid?: number
+  lastValid?: number
+  genesisID?: string | undefined
+  genesisHash?: string | undefined
+} = {}) =>
+  algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender,
+    receiver: sender,
+    amount: 0,
+    suggestedParams: {
+      fee,
+      flatFee: true,
+      firstValid,
+      lastValid,
+      minFee: 1000,
+      ...(genesisID && { genesisID }),
+      ...(genesisHash && { genesisHash: algosdk.base64ToBytes(genesisHash) })
+    }
+  })
+
+describe('validateTransactions', () => {
+  it('accepts transactions for the active network', () => {
+    const txnGroup = algosdk.assignGroupID([makePayTxn(), makePayTxn()])
+
+    expect(() => validateTransactions(txnGroup, testnet)).not.toThrow()
+    expect(() =>
+      validateTransactions(txnGroup.map(algosdk.encodeUnsignedTransaction), testnet)
+    ).not.toThrow()
+  })
+
+  it('throws a NetworkMismatchError for transactions built for another network', () => {
+    const mainnet = DEFAULT_NETWORK_CONFIG.mainnet
+    const txn = makePayTxn({ genesisID: mainnet.genesisId, genesisHash: mainnet.genesisHash })
+
+    expect(() => validateTransactions([txn], testnet)).toThrow(NetworkMismatchError)
+    expect(() => validateTransactions([txn], testnet, { checkNetwork: false })).not.toThrow()
+  })
+
+  it('compares genesis hashes in either base64 alphabet', () => {
+    const betanet = DEFAULT_NETWORK_CONFIG.betanet
+    const genesisHash = betanet.genesisHash!.replace(/-/g, '+').replace(/_/g, '/')
+    const txn = makePayTxn({ genesisID: betanet.genesisId, genesisHash })
+
+    expect(() => validateTransactions([txn], betanet)).not.toThrow()
+  })
+
+  it('skips network checks the network config has no values for', () => {
+    const txn = makePayTxn({ genesisID: 'dockernet-v1', genesisHash: undefined })
+
+    expect(() => validateTransactions([txn], DEFAULT_NETWORK_CONFIG.localnet)).not.toThrow()
+  })
+
+  it('throws an InvalidInputError if group IDs differ', () => {
+    const [txn1] = algosdk.assignGroupID([makePayTxn(), makePayTxn()])
+    const txn2 = makePayTxn()
+
+    try {
+      validateTransactions([txn1, txn2], testnet)
+      expect.fail('Expected an error')
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidInputError)
+      expect((error as InvalidInputError).data).toEqual({ index: 1, reason: 'group' })
+    }
+  })
+
+  it('validates nested arrays as separate groups', () => {
+    const group1 = algosdk.assignGroupID([makePayTxn(), makePayTxn()])
+    const group2 = algosdk.assignGroupID([makePayTxn({ fee: 2000 }), makePayTxn()])
+
+    expect(() => validateTransactions([group1, group2], testnet)).not.toThrow()
+  })
+
+  it('enforces the fee limit', () => {
+    const txn = makePayTxn({ fee: 5000 })
+
+    expect(() => validateTransactions([txn], testnet, { maxFee: 5000 })).not.toThrow()
+    expect(() => validateTransactions([txn], testnet, { maxFee: 4999 })).toThrow(
+      'Transaction 0 fee of 5000 microAlgos exceeds the limit of 4999'
+    )
+  })
+
+  it('enforces the validity window limit', () => {
+    const txn = makePayTxn({ firstValid: 100, lastValid: 1100 })
+
+    expect(() => validateTransactions([txn], testnet, { maxValidityRounds: 1000 })).not.toThrow()
+    expect(() => validateTransactions([txn], testnet, { maxValidityRounds: 10 })).toThrow(
+      InvalidInputError
+    )
+  })
+
+  it('throws an InvalidInputError for bytes that are not a transaction', () => {
+    expect(() => validateTransactions([new Uint8Array([1, 2, 3])], testnet)).toThrow(
+      'Transaction 0 could not be decoded'
+    )
+  })
+})
@@ -0,0 +1,579 @@
+import { Store } from '@tanstack/store'
+import algosdk from 'algosdk'
+import {
+  InvalidInputError,
+  NetworkMismatchError,
+  PolicyViolationError,
+  RequestCanceledError,
+  UnsupportedMethodError,
+  WalletError
+} from 'src/errors'
+import { DEFAULT_STATE, addWallet, removeWallet, type State } from 'src/store'
+import { BaseWallet } from 'src/wallets/base'
+import {
+  ScopeType,
+  WalletId,
+  type UIHooks,
+  type WalletAccount,
+  type WalletConstructor
+} from 'src/wallets/types'
+
+vi.mock('src/logger', () => ({
+  logger: {
+    createScopedLogger: vi.fn().mockReturnValue({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn()
+    })
+  }
+}))
+
+const account = { name: 'Account 1', address: 'address1' }
+
+class TestWallet extends BaseWallet {
+  public connectImpl = vi.fn<() => Promise<WalletAccount[]>>()
+  public disconnectImpl = vi.fn<() => Promise<void>>()
+  public resumeSessionImpl = vi.fn<() => Promise<void>>()
+  public signImpl = vi.fn<() => Promise<(Uint8Array | null)[]>>()
+
+  constructor(args: WalletConstructor<WalletId.CUSTOM>) {
+    super(args)
+  }
+
+  protected doConnect = () => this.connectImpl()
+  protected doDisconnect = () => this.disconnectImpl()
+  protected doResumeSession = () => this.resumeSessionImpl()
+  protected doSignTransactions = () => this.signImpl()
+}
+
+describe('BaseWallet', () => {
+  let store: Store<State>
+  let wallet: TestWallet
+
+  const connectWallet = () => {
+    addWallet(store, {
+      walletId: WalletId.CUSTOM,
+      wallet: { accounts: [account], activeAccount: account }
+    })
+  }
+
+  beforeEach(() => {
+    store = new Store<State>(DEFAULT_STATE)
+    wallet = new TestWallet({
+      id: WalletId.CUSTOM,
+      metadata: {},
+      getAlgodClient: () => ({}) as any,
+      store,
+      subscribe: vi.fn()
+    })
+  })
+
+  describe('status', () => {
+    it('defaults to idle, or connected for a persisted session', () => {
+      expect(wallet.status).toBe('idle')
+      expect(wallet.error).toBeNull()
+
+      connectWallet()
+      expect(wallet.status).toBe('connected')
+    })
+
+    it('tracks a successful connect', async () => {
+      wallet.connectImpl.mockImplementation(async () => {
+        expect(wallet.status).toBe('connecting')
+        connectWallet()
+        return [account]
+      })
+
+      await expect(wallet.connect()).resolves.toEqual([account])
+
+      expect(store.state.walletStatus[WalletId.CUSTOM]).toEqual({
+        status: 'connected',
+        error: null
+      })
+    })
+
+    it('stores the error if connect fails', async () => {
+      const error = new Error('User rejected')
+      wallet.connectImpl.mockRejectedValue(error)
+
+      await expect(wallet.connect()).rejects.toThrow('User rejected')
+
+      expect(wallet.status).toBe('error')
+      expect(wallet.error).toBeInstanceOf(WalletError)
+      expect(wallet.error?.cause).toBe(error)
+    })
+
+    it('clears the error when a new connect starts', async () => {
+      wallet.connectImpl.mockRejectedValueOnce(new Error('User rejected'))
+      await expect(wallet.connect()).rejects.toThrow()
+
+      wallet.connectImpl.mockImplementation(async () => {
+        expect(wallet.error).toBeNull()
+        connectWallet()
+        return [account]
+      })
+      await wallet.connect()
+
+      expect(wallet.status).toBe('connected')
+      expect(wallet.error).toBeNull()
+    })
+
+    it('tracks disconnect', async () => {
+      connectWallet()
+      wallet.disconnectImpl.mockImplementation(async () => {
+        expect(wallet.status).toBe('disconnecting')
+        removeWallet(store, { walletId: WalletId.CUSTOM })
+      })
+
+      await wallet.disconnect()
+
+      expect(wallet.status).toBe('idle')
+    })
+
+    it('tracks resuming a persisted session', async () => {
+      connectWallet()
+      wallet.resumeSessionImpl.mockImplementation(async () => {
+        expect(wallet.status).toBe('resuming')
+      })
+
+      await wallet.resumeSession()
+
+      expect(wallet.status).toBe('connected')
+    })
+
+    it('stays idle if there is no session to resume', async () => {
+      const statuses: string[] = []
+      store.subscribe(() => statuses.push(wallet.status))
+
+      await wallet.resumeSession()
+
+      expect(statuses).not.toContain('resuming')
+      expect(wallet.status).toBe('idle')
+    })
+
+    it('stores the error if resuming fails', async () => {
+      connectWallet()
+      wallet.resumeSessionImpl.mockImplementation(async () => {
+        removeWallet(store, { walletId: WalletId.CUSTOM })
+        throw new Error('Session expired')
+      })
+
+      await expect(wallet.resumeSession()).rejects.toThrow('Session expired')
+
+      expect(wallet.status).toBe('error')
+      expect(wallet.error?.message).toBe('Session expired')
+    })
+
+    it('becomes idle if the wallet is disconnected by the provider', async () => {
+      wallet.connectImpl.mockImplementation(async () => {
+        connectWallet()
+        return [account]
+      })
+      await wallet.connect()
+
+      removeWallet(store, { walletId: WalletId.CUSTOM })
+
+      expect(wallet.status).toBe('idle')
+    })
+  })
+
+  describe('backward compatibility', () => {
+    class LegacyWallet extends BaseWallet {
+      constructor(args: WalletConstructor<WalletId.CUSTOM>) {
+        super(args)
+      }
+
+      public connect = async (): Promise<WalletAccount[]> => [account]
+      public disconnect = async (): Promise<void> => {}
+      public resumeSession = async (): Promise<void> => {}
+      public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+        _txnGroup: T | T[],
+        _indexesToSign?: number[]
+      ): Promise<(Uint8Array | null)[]> => [null]
+    }
+
+    const createLegacyWallet = () =>
+      new LegacyWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () => ({}) as any,
+        store,
+        subscribe: vi.fn()
+      })
+
+    it('uses overrides of the public methods', async () => {
+      const legacyWallet = createLegacyWallet()
+
+      await expect(legacyWallet.connect()).resolves.toEqual([account])
+      await expect(legacyWallet.signTransactions([])).resolves.toEqual([null])
+    })
+
+    it('rejects methods the wallet does not implement', async () => {
+      class ConnectOnlyWallet extends BaseWallet {
+        constructor(args: WalletConstructor<WalletId.CUSTOM>) {
+          super(args)
+        }
+
+        protected doConnect = async (): Promise<WalletAccount[]> => [account]
+      }
+      const connectOnlyWallet = new ConnectOnlyWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () => ({}) as any,
+        store,
+        subscribe: vi.fn()
+      })
+      connectWallet()
+
+      await expect(connectOnlyWallet.resumeSession()).rejects.toBeInstanceOf(UnsupportedMethodError)
+    })
+  })
+
+  describe('auth addresses', () => {
+    const authAddr = 'EW64GC6F24M7NDSC5R3ES4YUVE3ZXXNMARJHDCCCLIHZU6TBEOC7XRSBG4'
+
+    const createWallet = (accountInformation: (address: string) => Promise<object>) =>
+      new TestWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () =>
+          ({
+            accountInformation: (address: string) => ({
+              exclude: () => ({ do: () => accountInformation(address) })
+            })
+          }) as any,
+        store,
+        subscribe: vi.fn()
+      })
+
+    it('looks up the auth address of each account when connecting', async () => {
+      wallet = createWallet(async () => ({ authAddr: algosdk.Address.fromString(authAddr) }))
+      wallet.connectImpl.mockImplementation(async () => {
+        connectWallet()
+        return [account]
+      })
+
+      await expect(wallet.connect()).resolves.toEqual([{ ...account, authAddr }])
+      expect(wallet.activeAccount).toEqual({ ...account, authAddr })
+    })
+
+    it('clears the auth address of accounts that are no longer rekeyed', async () => {
+      const accountInformation = vi
+        .fn()
+        .mockResolvedValueOnce({ authAddr: algosdk.Address.fromString(authAddr) })
+        .mockResolvedValueOnce({})
+      wallet = createWallet(accountInformation)
+      connectWallet()
+
+      await wallet.updateAuthAddresses()
+      expect(wallet.accounts[0].authAddr).toBe(authAddr)
+
+      await wallet.updateAuthAddresses()
+      expect(wallet.accounts[0]).toEqual(account)
+    })
+
+    it('ignores lookups started on a network that is no longer active', async () => {
+      let resolveLookup: (value: any) => void = () => {}
+      wallet = createWallet(() => new Promise((resolve) => (resolveLookup = resolve)))
+      connectWallet()
+
+      const update = wallet.updateAuthAddresses()
+      store.setState((state) => ({ ...state, activeNetwork: 'mainnet' }))
+      resolveLookup({ authAddr: algosdk.Address.fromString(authAddr) })
+      await update
+
+      expect(wallet.accounts[0]).toEqual(account)
+    })
+
+    it('keeps the auth address if the lookup fails', async () => {
+      const accountInformation = vi
+        .fn()
+        .mockResolvedValueOnce({ authAddr: algosdk.Address.fromString(authAddr) })
+        .mockRejectedValueOnce(new Error('Network error'))
+      wallet = createWallet(accountInformation)
+      connectWallet()
+
+      await wallet.updateAuthAddresses()
+      await wallet.updateAuthAddresses()
+
+      expect(wallet.accounts[0].authAddr).toBe(authAddr)
+    })
+  })
+
+  describe('transaction validation', () => {
+    const makePayTxn = (genesisID: string) =>
+      algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+        receiver: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+        amount: 0,
+        suggestedParams: { fee: 0, firstValid: 1, lastValid: 1001, minFee: 1000, genesisID }
+      })
+
+    it('rejects transactions for another network before prompting the wallet', async () => {
+      await expect(wallet.signTransactions([makePayTxn('mainnet-v1.0')])).rejects.toBeInstanceOf(
+        NetworkMismatchError
+      )
+      expect(wallet.signImpl).not.toHaveBeenCalled()
+    })
+
+    it('applies the limits from the manager', async () => {
+      wallet = new TestWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () => ({}) as any,
+        store,
+        subscribe: vi.fn(),
+        transactionValidation: { maxValidityRounds: 100 }
+      })
+
+      await expect(wallet.signTransactions([makePayTxn('testnet-v1.0')])).rejects.toBeInstanceOf(
+        InvalidInputError
+      )
+      expect(wallet.signImpl).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('signing policy', () => {
+    const address = '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
+    const closeTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: address,
+      receiver: address,
+      closeRemainderTo: address,
+      amount: 0,
+      suggestedParams: { fee: 0, firstValid: 1, lastValid: 1001, minFee: 1000 }
+    })
+
+    const createWallet = (managerUIHooks = {}) =>
+      new TestWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () => ({}) as any,
+        store,
+        subscribe: vi.fn(),
+        managerUIHooks,
+        signingPolicies: { testnet: { closeAccount: 'confirm' } }
+      })
+
+    it('asks the onConfirmPolicy hook before prompting the wallet', async () => {
+      const onConfirmPolicy = vi.fn().mockResolvedValue(true)
+      wallet = createWallet({ onConfirmPolicy })
+      wallet.signImpl.mockImplementation(async () => {
+        expect(onConfirmPolicy).toHaveBeenCalled()
+        return [null]
+      })
+
+      await wallet.signTransactions([closeTxn])
+      expect(wallet.signImpl).toHaveBeenCalledTimes(1)
+    })
+
+    it('only applies the policy for the active network', async () => {
+      wallet = createWallet()
+      wallet.signImpl.mockResolvedValue([null])
+
+      await expect(wallet.signTransactions([closeTxn])).rejects.toBeInstanceOf(PolicyViolationError)
+
+      store.setState((state) => ({ ...state, activeNetwork: 'localnet' }))
+      await expect(wallet.signTransactions([closeTxn])).resolves.toEqual([null])
+    })
+  })
+
+  describe('onBeforeSign hook', () => {
+    const address = '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q'
+    const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: address,
+      receiver: address,
+      amount: 0,
+      suggestedParams: { fee: 0, firstValid: 1, lastValid: 1001, minFee: 1000 }
+    })
+    const simulateResponse = new algosdk.modelsv2.SimulateResponse({
+      lastRound: 1,
+      version: 2,
+      txnGroups: [
+        new algosdk.modelsv2.SimulateTransactionGroupResult({
+          txnResults: [],
+          failureMessage: 'overspend',
+          failedAt: [0]
+        })
+      ]
+    })
+
+    const createWallet = (
+      onBeforeSign: NonNullable<UIHooks['onBeforeSign']>,
+      simulateBeforeSign = false
+    ) =>
+      new TestWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () =>
+          ({
+            simulateTransactions: () => ({ do: () => Promise.resolve(simulateResponse) })
+          }) as any,
+        store,
+        subscribe: vi.fn(),
+        managerUIHooks: { onBeforeSign },
+        simulateBeforeSign
+      })
+
+    it('runs before the wallet is prompted, with encoded transactions', async () => {
+      const onBeforeSign = vi.fn().mockResolvedValue(undefined)
+      wallet = createWallet(onBeforeSign)
+      wallet.signImpl.mockResolvedValue([null])
+
+      await wallet.signTransactions([txn], [0])
+
+      expect(onBeforeSign).toHaveBeenCalledWith([algosdk.encodeUnsignedTransaction(txn)], [0], {
+        descriptions: [expect.objectContaining({ summary: `Send 0 ALGO to ${address}` })]
+      })
+      expect(onBeforeSign.mock.invocationCallOrder[0]).toBeLessThan(
+        wallet.signImpl.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('passes the simulation result if simulateBeforeSign is enabled', async () => {
+      const onBeforeSign = vi.fn().mockResolvedValue(undefined)
+      wallet = createWallet(onBeforeSign, true)
+      wallet.signImpl.mockResolvedValue([null])
+
+      await wallet.signTransactions([txn])
+
+      expect(onBeforeSign.mock.calls[0][2].simulation).toMatchObject({
+        success: false,
+        failureMessage: 'overspend',
+        failedAt: [0]
+      })
+    })
+
+    it('cancels the request if the hook throws', async () => {
+      wallet = createWallet(() => Promise.reject(new Error('Canceled in the dialog')))
+
+      await expect(wallet.signTransactions([txn])).rejects.toThrow('Canceled in the dialog')
+      expect(wallet.signImpl).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('onAfterSign hook', () => {
+    const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+      receiver: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+      amount: 0,
+      suggestedParams: { fee: 0, firstValid: 1, lastValid: 1001, minFee: 1000 }
+    })
+
+    let onBeforeSign: ReturnType<typeof vi.fn>
+    let onAfterSign: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      onBeforeSign = vi.fn().mockResolvedValue(undefined)
+      onAfterSign = vi.fn()
+      wallet = new TestWallet({
+        id: WalletId.CUSTOM,
+        metadata: {},
+        getAlgodClient: () => ({}) as any,
+        store,
+        subscribe: vi.fn(),
+        managerUIHooks: { onBeforeSign, onAfterSign }
+      })
+    })
+
+    it('runs after the wallet signs', async () => {
+      wallet.signImpl.mockResolvedValue([null])
+
+      await wallet.signTransactions([txn])
+
+      expect(onBeforeSign).toHaveBeenCalledTimes(1)
+      expect(onAfterSign).toHaveBeenCalledTimes(1)
+      expect(onAfterSign).toHaveBeenCalledWith(true, undefined)
+      expect(wallet.signImpl.mock.invocationCallOrder[0]).toBeLessThan(
+        onAfterSign.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('runs with the error if the wallet fails to sign', async () => {
+      wallet.signImpl.mockRejectedValue(new Error('Device disconnected'))
+
+      await expect(wallet.signTransactions([txn])).rejects.toThrow('Device disconnected')
+
+      expect(onBeforeSign).toHaveBeenCalledTimes(1)
+      expect(onAfterSign).toHaveBeenCalledTimes(1)
+      expect(onAfterSign).toHaveBeenCalledWith(false, 'Device disconnected')
+    })
+
+    it('runs with the error if onBeforeSign throws', async () => {
+      onBeforeSign.mockRejectedValue(new Error('Canceled in the dialog'))
+
+      await expect(wallet.signTransactions([txn])).rejects.toThrow('Canceled in the dialog')
+
+      expect(wallet.signImpl).not.toHaveBeenCalled()
+      expect(onAfterSign).toHaveBeenCalledTimes(1)
+      expect(onAfterSign).toHaveBeenCalledWith(false, 'Canceled in the dialog')
+    })
+  })
+
+  describe('signing queue', () => {
+    const txn = algosdk.encodeUnsignedTransaction(
+      algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+        receiver: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
+        amount: 0,
+        suggestedParams: { fee: 0, firstValid: 1, lastValid: 1001, minFee: 1000 }
+      })
+    )
+    const signedTxn = new Uint8Array([4, 5, 6])
+
+    it('sends one request to the wallet at a time and tracks pending requests', async () => {
+      let resolveFirst!: (signedTxns: Uint8Array[]) => void
+      wallet.signImpl
+        .mockImplementationOnce(() => new Promise((resolve) => (resolveFirst = resolve)))
+        .mockResolvedValueOnce([signedTxn])
+
+      const first = wallet.signTransactions([txn])
+      const second = wallet.signTransactions([txn])
+
+      await vi.waitFor(() => expect(wallet.signImpl).toHaveBeenCalledTimes(1))
+      expect(wallet.pendingRequests).toBe(2)
+      expect(store.state.pendingRequests[WalletId.CUSTOM]).toBe(2)
+
+      resolveFirst([signedTxn])
+      await expect(first).resolves.toEqual([signedTxn])
+      await expect(second).resolves.toEqual([signedTxn])
+
+      expect(wallet.signImpl).toHaveBeenCalledTimes(2)
+      expect(wallet.pendingRequests).toBe(0)
+    })
+
+    it('de-duplicates identical requests', async () => {
+      wallet.signImpl.mockResolvedValue([signedTxn])
+
+      const first = wallet.signTransactions([txn], [0], { dedupe: true })
+      const second = wallet.signTransactions([txn.slice()], [0], { dedupe: true })
+      const different = wallet.signTransactions([txn], [1], { dedupe: true })
+
+      await Promise.all([first, second, different])
+
+      expect(wallet.signImpl).toHaveBeenCalledTimes(2)
+    })
+
+    it('cancels queued requests', async () => {
+      let resolveFirst!: (signedTxns: Uint8Array[]) => void
+      wallet.signImpl.mockImplementationOnce(
+        () => new Promise((resolve) => (resolveFirst = resolve))
+      )
+      const controller = new AbortController()
+
+      const first = wallet.signTransactions([txn])
+      const second = wallet.signTransactions([txn], undefined, { signal: controller.signal })
+      const third = wallet.signData('data', { scope: ScopeType.AUTH, encoding: 'base64' })
+
+      controller.abort()
+      await expect(second).rejects.toBeInstanceOf(RequestCanceledError)
+
+      wallet.cancelPendingRequests()
+      await expect(third).rejects.toBeInstanceOf(RequestCanceledError)
+
+      resolveFirst([signedTxn])
+      await expect(first).resolves.toEqual([signedTxn])
+      expect(wallet.signImpl).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -125,6 +125,27 @@ describe('CustomWallet', () => {
     })
   })
 
+  describe('isAvailable', () => {
+    it('should return true if provider.isAvailable is not defined', async () => {
+      await expect(wallet.isAvailable()).resolves.toBe(true)
+    })
+
+    it('should return the result of provider.isAvailable', async () => {
+      wallet = new CustomWallet({
+        id: WalletId.CUSTOM,
+        options: {
+          provider: { ...mockProvider, isAvailable: vi.fn().mockResolvedValue(false) }
+        },
+        metadata: {},
+        getAlgodClient: {} as any,
+        store,
+        subscribe: vi.fn()
+      })
+
+      await expect(wallet.isAvailable()).resolves.toBe(false)
+    })
+  })
+
   describe('connect', () => {
     it('should return accounts and update store', async () => {
       vi.mocked(mockProvider.connect).mockResolvedValueOnce([account1, account2])
@@ -300,7 +321,7 @@ describe('CustomWallet', () => {
         firstValid: 51,
         lastValid: 61,
         minFee: 1000,
-        genesisID: 'mainnet-v1.0'
+        genesisID: 'testnet-v1.0'
       },
       paymentParams: {
         receiver: '7ZUECA7HFLZTXENRV24SHLU4AVPUTMTTDUFUBNBD64C73F3UHRTHAIOF6Q',
@@ -302,7 +302,7 @@ describe('DeflyWebWallet', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID: 'testnet-v1.0'
         },
         paymentParams: { receiver, amount }
       })
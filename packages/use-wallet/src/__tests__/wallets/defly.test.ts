@@ -1,5 +1,6 @@
 import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
+import { UserRejectedError } from 'src/errors'
 import { logger } from 'src/logger'
 import { StorageAdapter } from 'src/storage'
 import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE } from 'src/store'
@@ -574,7 +575,7 @@ describe('DeflyWallet', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID: 'testnet-v1.0'
         },
         paymentParams: { receiver, amount }
       })
@@ -605,6 +606,19 @@ describe('DeflyWallet', () => {
         expect(mockDeflyWallet.signTransaction).toHaveBeenCalledWith([[{ txn: txn1 }]])
       })
 
+      it('should throw UserRejectedError if signing is rejected in the mobile app', async () => {
+        const rejectedError = Object.assign(new Error('Failed to sign transaction'), {
+          data: { type: 'SIGN_TRANSACTIONS', detail: new Error('Transaction Request Rejected') }
+        })
+        mockDeflyWallet.signTransaction.mockRejectedValueOnce(rejectedError)
+
+        const error = await wallet.signTransactions([txn1]).catch((error) => error)
+
+        expect(error).toBeInstanceOf(UserRejectedError)
+        expect(error.message).toBe('Transaction Request Rejected')
+        expect(error.cause).toBe(rejectedError)
+      })
+
       it('should process and sign a single algosdk.Transaction group', async () => {
         const [gtxn1, gtxn2, gtxn3] = algosdk.assignGroupID([txn1, txn2, txn3])
 
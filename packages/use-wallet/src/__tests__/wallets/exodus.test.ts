@@ -109,6 +109,22 @@ describe('ExodusWallet', () => {
     mockInitialState = null
   })
 
+  describe('isAvailable', () => {
+    it('should return true if the Exodus provider is injected', async () => {
+      await expect(wallet.isAvailable()).resolves.toBe(true)
+    })
+
+    it('should return false if the Exodus provider is not injected', async () => {
+      // @ts-expect-error defined using Object.defineProperty
+      window.algorand = undefined
+
+      await expect(wallet.isAvailable()).resolves.toBe(false)
+
+      // @ts-expect-error defined using Object.defineProperty
+      window.algorand = mockExodus
+    })
+  })
+
   describe('connect', () => {
     it('should initialize client, return accounts, and update store', async () => {
       mockEnableFn.mockResolvedValueOnce({
@@ -241,7 +257,7 @@ describe('ExodusWallet', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID: 'testnet-v1.0'
         },
         paymentParams: { receiver, amount }
       })
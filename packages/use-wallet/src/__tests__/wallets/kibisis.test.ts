@@ -8,6 +8,7 @@ import {
 } from '@agoralabs-sh/avm-web-provider'
 import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
+import { UserRejectedError } from 'src/errors'
 import { logger } from 'src/logger'
 import { StorageAdapter } from 'src/storage'
 import { DEFAULT_STATE, LOCAL_STORAGE_KEY, State } from 'src/store'
@@ -157,6 +158,85 @@ describe('KibisisWallet', () => {
     mockInitialState = null
   })
 
+  describe('isAvailable', () => {
+    let mockAVMWebClient: {
+      discover: Mock
+      onDiscover: Mock
+      removeListener: Mock
+    }
+    let discoverCallback: (options: any) => void
+
+    beforeEach(() => {
+      vi.stubGlobal('window', {
+        setTimeout: (...args: Parameters<typeof setTimeout>) => setTimeout(...args),
+        clearTimeout: (id: ReturnType<typeof setTimeout>) => clearTimeout(id)
+      })
+      mockAVMWebClient = {
+        discover: vi.fn(),
+        onDiscover: vi.fn((callback) => {
+          discoverCallback = callback
+          return 'listener-id'
+        }),
+        removeListener: vi.fn()
+      }
+      wallet.avmWebClient = mockAVMWebClient as any
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.unstubAllGlobals()
+    })
+
+    it('should return true if the provider responds to discovery', async () => {
+      mockAVMWebClient.discover.mockImplementation(() => {
+        discoverCallback({
+          method: ARC0027MethodEnum.Discover,
+          result: { name: 'Kibisis', networks: [], providerId: KIBISIS_AVM_WEB_PROVIDER_ID }
+        })
+      })
+
+      await expect(wallet.isAvailable()).resolves.toBe(true)
+      expect(mockAVMWebClient.discover).toHaveBeenCalledWith({
+        providerId: KIBISIS_AVM_WEB_PROVIDER_ID
+      })
+      expect(mockAVMWebClient.removeListener).toHaveBeenCalledWith('listener-id')
+    })
+
+    it('should ignore responses from other providers', async () => {
+      vi.useFakeTimers()
+      mockAVMWebClient.discover.mockImplementation(() => {
+        discoverCallback({
+          method: ARC0027MethodEnum.Discover,
+          result: { name: 'Other', networks: [], providerId: 'other-provider' }
+        })
+      })
+
+      const promise = wallet.isAvailable()
+      await vi.waitFor(() => expect(mockAVMWebClient.discover).toHaveBeenCalled())
+      await vi.runAllTimersAsync()
+
+      await expect(promise).resolves.toBe(false)
+    })
+
+    it('should return false if the provider does not respond', async () => {
+      vi.useFakeTimers()
+
+      const promise = wallet.isAvailable()
+      await vi.waitFor(() => expect(mockAVMWebClient.discover).toHaveBeenCalled())
+      await vi.runAllTimersAsync()
+
+      await expect(promise).resolves.toBe(false)
+      expect(mockAVMWebClient.removeListener).toHaveBeenCalledWith('listener-id')
+    })
+
+    it('should return false outside a browser', async () => {
+      vi.stubGlobal('window', undefined)
+
+      await expect(wallet.isAvailable()).resolves.toBe(false)
+      expect(mockAVMWebClient.discover).not.toHaveBeenCalled()
+    })
+  })
+
   describe('connect', () => {
     it('should initialize client, return accounts, and update store', async () => {
       // Connect wallet
@@ -186,8 +266,11 @@ describe('KibisisWallet', () => {
         .mockReset()
         .mockImplementationOnce(() => Promise.reject(error))
 
-      // Connect wallet (should fail)
-      await expect(wallet.connect()).rejects.toThrow(`user dismissed action`)
+      // Connect wallet (should fail), mapping the ARC-0027 error
+      const connectError = await wallet.connect().catch((error) => error)
+      expect(connectError).toBeInstanceOf(UserRejectedError)
+      expect(connectError.message).toBe(`user dismissed action`)
+      expect(connectError.cause).toBe(error)
 
       // Wallet is not connected
       expect(wallet.isConnected).toBe(false)
@@ -302,7 +385,7 @@ describe('KibisisWallet', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID: 'testnet-v1.0'
         },
         paymentParams: { receiver, amount }
       })
@@ -2,7 +2,7 @@ import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
 import { logger } from 'src/logger'
 import { StorageAdapter } from 'src/storage'
-import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE } from 'src/store'
+import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE, setAuthAddresses } from 'src/store'
 import { KmdWallet } from 'src/wallets/kmd'
 import { WalletId } from 'src/wallets/types'
 import type { Mock } from 'vitest'
@@ -33,7 +33,8 @@ const mockKmd = {
   initWalletHandle: vi.fn(),
   listKeys: vi.fn(),
   releaseWalletHandle: vi.fn(),
-  signTransaction: vi.fn()
+  signTransaction: vi.fn(),
+  signTransactionWithSpecificPublicKey: vi.fn()
 }
 
 vi.mock('algosdk', async (importOriginal) => {
@@ -250,6 +251,23 @@ describe('KmdWallet', () => {
         expect(mockKmd.signTransaction).toHaveBeenCalledWith(mockToken, mockPassword, txn1)
       })
 
+      it('should sign for a rekeyed account with its auth address key', async () => {
+        setAuthAddresses(store, {
+          walletId: WalletId.KMD,
+          authAddrs: { [connectedAcct1]: connectedAcct2 }
+        })
+
+        await wallet.signTransactions([txn1])
+
+        expect(mockKmd.signTransaction).not.toHaveBeenCalled()
+        expect(mockKmd.signTransactionWithSpecificPublicKey).toHaveBeenCalledWith(
+          mockToken,
+          mockPassword,
+          txn1,
+          algosdk.decodeAddress(connectedAcct2).publicKey
+        )
+      })
+
       it('should correctly process and sign a single algosdk.Transaction group', async () => {
         const [gtxn1, gtxn2, gtxn3] = algosdk.assignGroupID([txn1, txn2, txn3])
         await wallet.signTransactions([gtxn1, gtxn2, gtxn3])
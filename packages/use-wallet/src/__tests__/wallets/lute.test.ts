@@ -1,9 +1,10 @@
 import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
 import { canonify } from 'canonify'
+import { UserRejectedError, WalletErrorCode } from 'src/errors'
 import { logger } from 'src/logger'
 import { StorageAdapter } from 'src/storage'
-import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE } from 'src/store'
+import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE, setMultisigAccount } from 'src/store'
 import { byteArrayToBase64 } from 'src/utils'
 import { ScopeType } from 'src/wallets'
 import { LuteWallet } from 'src/wallets/lute'
@@ -143,6 +144,22 @@ describe('LuteWallet', () => {
     mockInitialState = null
   })
 
+  describe('isAvailable', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should return true in a browser', async () => {
+      vi.stubGlobal('window', {})
+      await expect(wallet.isAvailable()).resolves.toBe(true)
+    })
+
+    it('should return false outside a browser', async () => {
+      vi.stubGlobal('window', undefined)
+      await expect(wallet.isAvailable()).resolves.toBe(false)
+    })
+  })
+
   describe('connect', () => {
     it('should initialize client, return accounts, and update store', async () => {
       const mockConnect = vi.fn().mockResolvedValue([account1.address, account2.address])
@@ -237,7 +254,7 @@ describe('LuteWallet', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID: 'testnet-v1.0'
         },
         paymentParams: { receiver, amount }
       })
@@ -257,15 +274,17 @@ describe('LuteWallet', () => {
     })
 
     describe('signTransactions', () => {
-      it('should re-throw SignTxnsError to the consuming application', async () => {
+      it('should map ARC-0001 errors to WalletError subclasses', async () => {
         const mockError = Object.assign(new Error('User Rejected Request'), { code: 4001 })
         const mockSignTxns = vi.fn().mockRejectedValue(mockError)
         vi.mocked(mockLuteConnect.signTxns).mockImplementation(mockSignTxns)
 
-        await expect(wallet.signTransactions([txn1])).rejects.toMatchObject({
-          name: 'SignTxnsError',
+        const error = await wallet.signTransactions([txn1]).catch((error) => error)
+        expect(error).toBeInstanceOf(UserRejectedError)
+        expect(error).toMatchObject({
           message: 'User Rejected Request',
-          code: 4001
+          code: WalletErrorCode.USER_REJECTED,
+          cause: mockError
         })
       })
 
@@ -277,6 +296,19 @@ describe('LuteWallet', () => {
         ])
       })
 
+      it('should pass multisig metadata and the connected members as signers', async () => {
+        const msig = { version: 1, threshold: 2, addrs: [connectedAcct1, notConnectedAcct] }
+        const multisigAddress = algosdk.multisigAddress(msig).toString()
+        setMultisigAccount(store, { address: multisigAddress, metadata: msig })
+        const msigTxn = makePayTxn({ sender: multisigAddress })
+
+        await wallet.signTransactions([msigTxn])
+
+        expect(mockLuteConnect.signTxns).toHaveBeenCalledWith([
+          { txn: byteArrayToBase64(msigTxn.toByte()), msig, signers: [connectedAcct1] }
+        ])
+      })
+
       it('should process and sign a single algosdk.Transaction group', async () => {
         const [gtxn1, gtxn2, gtxn3] = algosdk.assignGroupID([txn1, txn2, txn3])
         await wallet.signTransactions([gtxn1, gtxn2, gtxn3])
@@ -448,17 +480,17 @@ describe('LuteWallet', () => {
       expect(result).toEqual(mockResponse)
     })
 
-    it('should re-throw SignDataError to the consuming application', async () => {
-      const mockError = Object.assign(new Error('User Rejected Request'), { code: 4300 })
+    it('should map ARC-0001 signData errors to WalletError subclasses', async () => {
+      const mockError = Object.assign(new Error('Invalid Input'), { code: 4300 })
       const mockSignData = vi.fn().mockRejectedValue(mockError)
       vi.mocked(mockLuteConnect.signData).mockImplementation(mockSignData)
 
       await expect(
         wallet.signData('test-data', { scope: ScopeType.AUTH, encoding: 'base64' })
       ).rejects.toMatchObject({
-        name: 'SignDataError',
-        message: 'User Rejected Request',
-        code: 4300
+        name: 'InvalidInputError',
+        message: 'Invalid Input',
+        code: WalletErrorCode.INVALID_INPUT
       })
     })
 
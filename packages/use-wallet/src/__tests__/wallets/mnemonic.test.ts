@@ -3,7 +3,7 @@ import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
 import { logger } from 'src/logger'
 import { StorageAdapter } from 'src/storage'
-import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE } from 'src/store'
+import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE, addWallet } from 'src/store'
 import { LOCAL_STORAGE_MNEMONIC_KEY, MnemonicWallet } from 'src/wallets/mnemonic'
 import { WalletId } from 'src/wallets/types'
 import type { Mock } from 'vitest'
@@ -271,6 +271,24 @@ describe('MnemonicWallet', () => {
         expect(result).toEqual([txn1.signTxn(sk)])
       })
 
+      it('should sign for a connected account rekeyed to this account', async () => {
+        const rekeyedAccount = {
+          name: 'Rekeyed Account',
+          address: 'EW64GC6F24M7NDSC5R3ES4YUVE3ZXXNMARJHDCCCLIHZU6TBEOC7XRSBG4',
+          authAddr: TEST_ADDRESS
+        }
+        addWallet(store, {
+          walletId: WalletId.PERA,
+          wallet: { accounts: [rekeyedAccount], activeAccount: rekeyedAccount }
+        })
+        const txn = makePayTxn({ sender: rekeyedAccount.address })
+
+        const result = await wallet.signTransactions([txn])
+
+        expect(result).toEqual([txn.signTxn(sk)])
+        expect(algosdk.decodeSignedTransaction(result[0]!).sgnr?.toString()).toBe(TEST_ADDRESS)
+      })
+
       it('should correctly process and sign a single algosdk.Transaction group', async () => {
         const txnGroup = algosdk.assignGroupID([txn1, txn2, txn3])
         const result = await wallet.signTransactions(txnGroup)
@@ -396,4 +414,37 @@ describe('MnemonicWallet', () => {
       )
     })
   })
+
+  describe('custom storage backend', () => {
+    it('should load, save and remove the mnemonic using the configured storage', async () => {
+      const storage = {
+        getItem: vi.fn().mockResolvedValue(null),
+        setItem: vi.fn().mockResolvedValue(undefined),
+        removeItem: vi.fn().mockResolvedValue(undefined)
+      }
+
+      wallet = new MnemonicWallet({
+        id: WalletId.MNEMONIC,
+        options: { persistToStorage: true },
+        metadata: {},
+        getAlgodClient: {} as any,
+        store,
+        subscribe: vi.fn(),
+        storage
+      })
+
+      await wallet.connect()
+
+      expect(storage.getItem).toHaveBeenCalledWith(LOCAL_STORAGE_MNEMONIC_KEY)
+      expect(storage.setItem).toHaveBeenCalledWith(LOCAL_STORAGE_MNEMONIC_KEY, ACCOUNT_MNEMONIC)
+      expect(StorageAdapter.setItem).not.toHaveBeenCalledWith(
+        LOCAL_STORAGE_MNEMONIC_KEY,
+        expect.anything()
+      )
+
+      await wallet.disconnect()
+
+      expect(storage.removeItem).toHaveBeenCalledWith(LOCAL_STORAGE_MNEMONIC_KEY)
+    })
+  })
 })
@@ -1,8 +1,9 @@
 import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
+import { UserRejectedError } from 'src/errors'
 import { logger } from 'src/logger'
 import { StorageAdapter } from 'src/storage'
-import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE } from 'src/store'
+import { LOCAL_STORAGE_KEY, State, WalletState, DEFAULT_STATE, setAuthAddresses } from 'src/store'
 import { PeraWallet } from 'src/wallets/pera'
 import { WalletId } from 'src/wallets/types'
 import type { Mock } from 'vitest'
@@ -149,6 +150,19 @@ describe('PeraWallet', () => {
       expect(wallet.isConnected).toBe(false)
     })
 
+    it('should throw UserRejectedError if the connect modal is closed', async () => {
+      const modalClosedError = Object.assign(new Error('Connect modal is closed by user'), {
+        data: { type: 'CONNECT_MODAL_CLOSED' }
+      })
+      mockPeraWallet.connect.mockRejectedValueOnce(modalClosedError)
+
+      const error = await wallet.connect().catch((error) => error)
+
+      expect(error).toBeInstanceOf(UserRejectedError)
+      expect(error.message).toBe('Connect modal is closed by user')
+      expect(error.cause).toBe(modalClosedError)
+    })
+
     it('should throw an error if an empty array is returned', async () => {
       mockPeraWallet.connect.mockImplementation(() => Promise.resolve([]))
 
@@ -647,7 +661,7 @@ describe('PeraWallet', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID: 'testnet-v1.0'
         },
         paymentParams: { receiver, amount }
       })
@@ -677,6 +691,33 @@ describe('PeraWallet', () => {
         expect(mockPeraWallet.signTransaction).toHaveBeenCalledWith([[{ txn: txn1 }]])
       })
 
+      it('should throw UserRejectedError if signing is rejected in the mobile app', async () => {
+        const rejectedError = Object.assign(new Error('Failed to sign transaction'), {
+          data: { type: 'SIGN_TRANSACTIONS', detail: new Error('Transaction Request Rejected') }
+        })
+        mockPeraWallet.signTransaction.mockRejectedValueOnce(rejectedError)
+
+        const error = await wallet.signTransactions([txn1]).catch((error) => error)
+
+        expect(error).toBeInstanceOf(UserRejectedError)
+        expect(error.message).toBe('Transaction Request Rejected')
+        expect(error.cause).toBe(rejectedError)
+      })
+
+      it('should pass the auth address of a rekeyed account', async () => {
+        setAuthAddresses(store, {
+          walletId: WalletId.PERA,
+          authAddrs: { [connectedAcct1]: notConnectedAcct }
+        })
+        mockPeraWallet.signTransaction.mockResolvedValueOnce([sTxn])
+
+        await wallet.signTransactions([txn1])
+
+        expect(mockPeraWallet.signTransaction).toHaveBeenCalledWith([
+          [{ txn: txn1, authAddr: notConnectedAcct }]
+        ])
+      })
+
       it('should process and sign a single algosdk.Transaction group', async () => {
         const [gtxn1, gtxn2, gtxn3] = algosdk.assignGroupID([txn1, txn2, txn3])
 
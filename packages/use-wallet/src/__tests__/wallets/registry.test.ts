@@ -0,0 +1,67 @@
+import { BaseWallet } from 'src/wallets/base'
+import {
+  getWalletProvider,
+  registerWalletProvider,
+  unregisterWalletProvider
+} from 'src/wallets/registry'
+import { WalletId, type WalletConstructor } from 'src/wallets/types'
+
+class AcmeWallet extends BaseWallet {
+  constructor(args: WalletConstructor<WalletId>) {
+    super(args)
+  }
+
+  protected doConnect = async () => []
+  protected doDisconnect = async () => {}
+  protected doResumeSession = async () => {}
+  protected doSignTransactions = async () => []
+}
+
+describe('Wallet Provider Registry', () => {
+  const metadata = { name: 'Acme Wallet', icon: 'data:image/svg+xml;base64,acme' }
+
+  afterEach(() => {
+    unregisterWalletProvider('acme')
+  })
+
+  describe('registerWalletProvider', () => {
+    it('should register a wallet provider', () => {
+      registerWalletProvider('acme', AcmeWallet, metadata)
+
+      const provider = getWalletProvider('acme')
+      expect(provider).toBeDefined()
+      expect(provider?.id).toBe('acme')
+      expect(provider?.WalletClass).toBe(AcmeWallet)
+      expect(provider?.defaultMetadata).toEqual(metadata)
+    })
+
+    it('should replace a previously registered provider', () => {
+      registerWalletProvider('acme', AcmeWallet)
+      registerWalletProvider('acme', AcmeWallet, metadata)
+
+      expect(getWalletProvider('acme')?.defaultMetadata).toEqual(metadata)
+    })
+
+    it('should throw when trying to override a built-in wallet', () => {
+      expect(() => registerWalletProvider(WalletId.PERA, AcmeWallet)).toThrow(
+        'Cannot override built-in wallet: pera'
+      )
+      expect(getWalletProvider(WalletId.PERA)).toBeUndefined()
+    })
+  })
+
+  describe('unregisterWalletProvider', () => {
+    it('should remove a registered provider', () => {
+      registerWalletProvider('acme', AcmeWallet)
+      unregisterWalletProvider('acme')
+
+      expect(getWalletProvider('acme')).toBeUndefined()
+    })
+  })
+
+  describe('getWalletProvider', () => {
+    it('should return undefined for an unregistered provider', () => {
+      expect(getWalletProvider('nonexistent')).toBeUndefined()
+    })
+  })
+})
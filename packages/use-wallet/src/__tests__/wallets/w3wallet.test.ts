@@ -107,6 +107,22 @@ describe('W3 Wallet', () => {
     mockInitialState = null
   })
 
+  describe('isAvailable', () => {
+    it('should return true if the W3 Wallet provider is injected', async () => {
+      await expect(wallet.isAvailable()).resolves.toBe(true)
+    })
+
+    it('should return false if the W3 Wallet provider is not injected', async () => {
+      // @ts-expect-error defined using Object.defineProperty
+      window.w3walletAlgorand = undefined
+
+      await expect(wallet.isAvailable()).resolves.toBe(false)
+
+      // @ts-expect-error defined using Object.defineProperty
+      window.w3walletAlgorand = mockW3Wallet
+    })
+  })
+
   describe('connect', () => {
     it('should initialize client, return accounts, and update store', async () => {
       // @ts-expect-error defined using Object.defineProperty
@@ -223,7 +239,7 @@ describe('W3 Wallet', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID: 'testnet-v1.0'
         },
         paymentParams: { receiver, amount }
       })
@@ -1,6 +1,7 @@
 import { Store } from '@tanstack/store'
 import { ModalCtrl } from '@walletconnect/modal-core'
 import algosdk from 'algosdk'
+import { UserRejectedError } from 'src/errors'
 import { logger } from 'src/logger'
 import { NetworkConfig } from 'src/network'
 import { StorageAdapter } from 'src/storage'
@@ -219,6 +220,19 @@ describe('WalletConnect', () => {
       expect(wallet.isConnected).toBe(false)
     })
 
+    it('should throw UserRejectedError if the user rejects the session', async () => {
+      mockSignClient.connect.mockResolvedValueOnce({
+        uri: 'mock-uri',
+        approval: vi.fn().mockRejectedValue({ code: 5000, message: 'User rejected.' })
+      })
+
+      const error = await wallet.connect().catch((error) => error)
+
+      expect(error).toBeInstanceOf(UserRejectedError)
+      expect(error.message).toBe('User rejected.')
+      expect(wallet.isConnected).toBe(false)
+    })
+
     it('should use the active chain when connecting', async () => {
       store.setState((state) => ({ ...state, activeNetwork: 'testnet' }))
       const mockSession = createMockSession([account1.address], store.state.networkConfig)
@@ -361,7 +375,12 @@ describe('WalletConnect', () => {
     // Not connected account
     const notConnectedAcct = 'EW64GC6F24M7NDSC5R3ES4YUVE3ZXXNMARJHDCCCLIHZU6TBEOC7XRSBG4'
 
-    const makePayTxn = ({ amount = 1000, sender = connectedAcct1, receiver = connectedAcct2 }) => {
+    const makePayTxn = ({
+      amount = 1000,
+      sender = connectedAcct1,
+      receiver = connectedAcct2,
+      genesisID = 'testnet-v1.0'
+    }) => {
       return new algosdk.Transaction({
         type: algosdk.TransactionType.pay,
         sender,
@@ -370,7 +389,7 @@ describe('WalletConnect', () => {
           firstValid: 51,
           lastValid: 61,
           minFee: 1000,
-          genesisID: 'mainnet-v1.0'
+          genesisID
         },
         paymentParams: { receiver, amount }
       })
@@ -598,7 +617,7 @@ describe('WalletConnect', () => {
         })
         await wallet.connect()
 
-        const txn = makePayTxn({ amount: 1000 })
+        const txn = makePayTxn({ amount: 1000, genesisID: 'mainnet-v1.0' })
         await wallet.signTransactions([txn])
 
         expect(mockSignClient.request).toHaveBeenCalledWith(
@@ -0,0 +1,252 @@
+import algosdk from 'algosdk'
+import { decodeTransaction } from 'src/validation'
+
+export interface DescribeTransactionsOptions {
+  /** Used to look up asset unit names and decimals. Without it, asset amounts are in base units. */
+  algodClient?: algosdk.Algodv2 | undefined
+  /** ABI contracts used to decode the methods called by app calls */
+  contracts?: algosdk.ABIContract[] | undefined
+}
+
+export type TransactionRiskType = 'rekey' | 'closeAccount' | 'closeAsset' | 'clawback'
+
+export interface TransactionRisk {
+  type: TransactionRiskType
+  message: string
+}
+
+export interface DecodedMethodCall {
+  name: string
+  signature: string
+  /** Decoded arguments, or undefined if they couldn't be decoded */
+  args?: { name: string | undefined; value: algosdk.ABIValue }[] | undefined
+}
+
+export interface TransactionDescription {
+  /** Index of the transaction, counted across all groups */
+  index: number
+  type: algosdk.TransactionType
+  sender: string
+  /** One-line summary, such as "Send 5 ALGO to ..." */
+  summary: string
+  /** Fee, in microAlgos */
+  fee: bigint
+  /** ARC-4 method called, if the app call matches one of the supplied contracts */
+  method?: DecodedMethodCall | undefined
+  /** Fields that could cost the sender control of their account or assets */
+  risks: TransactionRisk[]
+  txn: algosdk.Transaction
+}
+
+interface AssetInfo {
+  unitName: string
+  decimals: number
+}
+
+const ON_COMPLETE_VERBS: Record<algosdk.OnApplicationComplete, string> = {
+  [algosdk.OnApplicationComplete.NoOpOC]: 'Call',
+  [algosdk.OnApplicationComplete.OptInOC]: 'Opt in to',
+  [algosdk.OnApplicationComplete.CloseOutOC]: 'Close out of',
+  [algosdk.OnApplicationComplete.ClearStateOC]: 'Clear state of',
+  [algosdk.OnApplicationComplete.UpdateApplicationOC]: 'Update',
+  [algosdk.OnApplicationComplete.DeleteApplicationOC]: 'Delete'
+}
+
+/**
+ * Describe transactions in plain language, e.g. for a signing dialog. Nested arrays are
+ * flattened, so indexes are counted across all groups.
+ */
+export async function describeTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
+  txnGroup: T | T[],
+  { algodClient, contracts = [] }: DescribeTransactionsOptions = {}
+): Promise<TransactionDescription[]> {
+  const txns = (txnGroup as unknown[])
+    .flat()
+    .map((txn, index) => decodeTransaction(txn as algosdk.Transaction | Uint8Array, index))
+
+  // Look up each asset once
+  const assetIds = new Set(
+    txns.flatMap((txn) => {
+      const assetId = txn.assetTransfer?.assetIndex ?? txn.assetFreeze?.assetIndex
+      return assetId ? [assetId] : []
+    })
+  )
+  const assets = new Map<bigint, AssetInfo | null>()
+  await Promise.all(
+    Array.from(assetIds, async (assetId) => {
+      assets.set(assetId, algodClient ? await getAssetInfo(algodClient, assetId) : null)
+    })
+  )
+
+  return txns.map((txn, index) => {
+    const method = txn.applicationCall ? decodeMethodCall(txn, contracts) : undefined
+    return {
+      index,
+      type: txn.type,
+      sender: txn.sender.toString(),
+      summary: summarize(txn, assets, method),
+      fee: txn.fee,
+      method,
+      risks: findRisks(txn),
+      txn
+    }
+  })
+}
+
+async function getAssetInfo(
+  algodClient: algosdk.Algodv2,
+  assetId: bigint
+): Promise<AssetInfo | null> {
+  try {
+    const { params } = await algodClient.getAssetByID(assetId).do()
+    return {
+      unitName: params.unitName || params.name || `asset ${assetId}`,
+      decimals: params.decimals
+    }
+  } catch {
+    return null
+  }
+}
+
+function summarize(
+  txn: algosdk.Transaction,
+  assets: Map<bigint, AssetInfo | null>,
+  method: DecodedMethodCall | undefined
+): string {
+  const sender = txn.sender.toString()
+
+  if (txn.payment) {
+    const { amount, receiver, closeRemainderTo } = txn.payment
+    const summary = `Send ${formatAmount(amount, 6)} ALGO to ${receiver}`
+    return closeRemainderTo ? `${summary} and close the account to ${closeRemainderTo}` : summary
+  }
+
+  if (txn.assetTransfer) {
+    const { assetIndex, amount, receiver, assetSender, closeRemainderTo } = txn.assetTransfer
+    const asset = assets.get(assetIndex)
+    const units = asset
+      ? `${formatAmount(amount, asset.decimals)} ${asset.unitName}`
+      : `${amount} units of asset ${assetIndex}`
+
+    if (assetSender) {
+      return `Claw back ${units} from ${assetSender} to ${receiver}`
+    }
+    if (closeRemainderTo) {
+      return `Send ${units} to ${receiver} and close out asset ${assetIndex} to ${closeRemainderTo}`
+    }
+    if (amount === 0n && receiver.toString() === sender) {
+      return `Opt in to asset ${assetIndex}${asset ? ` (${asset.unitName})` : ''}`
+    }
+    return `Send ${units} to ${receiver}`
+  }
+
+  if (txn.assetConfig) {
+    const { assetIndex, unitName, assetName, total, decimals, manager, reserve, freeze, clawback } =
+      txn.assetConfig
+    if (!assetIndex) {
+      const name = assetName || unitName
+      return `Create asset${name ? ` ${name}` : ''} with a supply of ${formatAmount(total, decimals)}`
+    }
+    if (!manager && !reserve && !freeze && !clawback) {
+      return `Destroy asset ${assetIndex}`
+    }
+    return `Reconfigure asset ${assetIndex}`
+  }
+
+  if (txn.assetFreeze) {
+    const { assetIndex, freezeAccount, frozen } = txn.assetFreeze
+    return `${frozen ? 'Freeze' : 'Unfreeze'} asset ${assetIndex} for ${freezeAccount}`
+  }
+
+  if (txn.applicationCall) {
+    const { appIndex, onComplete } = txn.applicationCall
+    const target = appIndex ? `app ${appIndex}` : 'a new app'
+    const verb = appIndex ? ON_COMPLETE_VERBS[onComplete] : 'Create'
+    return method ? `${verb} ${target} (method ${method.name})` : `${verb} ${target}`
+  }
+
+  if (txn.keyreg) {
+    if (txn.keyreg.nonParticipation) {
+      return 'Mark the account as non-participating'
+    }
+    return txn.keyreg.voteKey ? 'Register participation keys (go online)' : 'Go offline'
+  }
+
+  if (txn.type === algosdk.TransactionType.stpf) {
+    return 'Submit a state proof'
+  }
+  return 'Send a heartbeat'
+}
+
+function decodeMethodCall(
+  txn: algosdk.Transaction,
+  contracts: algosdk.ABIContract[]
+): DecodedMethodCall | undefined {
+  const [selector, ...encodedArgs] = txn.applicationCall!.appArgs
+  if (!selector || selector.length !== 4) {
+    return undefined
+  }
+
+  const method = contracts
+    .flatMap((contract) => contract.methods)
+    .find((method) => method.getSelector().every((byte, i) => byte === selector[i]))
+  if (!method) {
+    return undefined
+  }
+
+  const call: DecodedMethodCall = { name: method.name, signature: method.getSignature() }
+
+  // With more than 15 arguments, the 15th and later are packed into a tuple, which isn't decoded here
+  const appArgTypes = method.args.filter((arg) => !algosdk.abiTypeIsTransaction(arg.type))
+  if (appArgTypes.length > 15) {
+    return call
+  }
+
+  try {
+    call.args = appArgTypes.map((arg, i) => {
+      // Reference arguments are encoded as an index into the foreign arrays
+      const type = algosdk.abiTypeIsReference(arg.type)
+        ? new algosdk.ABIUintType(8)
+        : (arg.type as algosdk.ABIType)
+      return { name: arg.name, value: type.decode(encodedArgs[i]) }
+    })
+  } catch {
+    // Leave args undefined if the app args don't match the method
+  }
+  return call
+}
+
+function findRisks(txn: algosdk.Transaction): TransactionRisk[] {
+  const risks: TransactionRisk[] = []
+
+  if (txn.rekeyTo) {
+    risks.push({ type: 'rekey', message: `Gives ${txn.rekeyTo} control of ${txn.sender}` })
+  }
+  if (txn.payment?.closeRemainderTo) {
+    risks.push({
+      type: 'closeAccount',
+      message: `Sends the account's entire balance to ${txn.payment.closeRemainderTo}`
+    })
+  }
+  if (txn.assetTransfer?.closeRemainderTo) {
+    risks.push({
+      type: 'closeAsset',
+      message: `Sends the account's entire balance of asset ${txn.assetTransfer.assetIndex} to ${txn.assetTransfer.closeRemainderTo}`
+    })
+  }
+  if (txn.assetTransfer?.assetSender) {
+    risks.push({
+      type: 'clawback',
+      message: `Takes asset ${txn.assetTransfer.assetIndex} from ${txn.assetTransfer.assetSender}`
+    })
+  }
+
+  return risks
+}
+
+function formatAmount(amount: bigint, decimals: number): string {
+  const divisor = 10n ** BigInt(decimals)
+  const whole = amount / divisor
+  const fraction = (amount % divisor).toString().padStart(decimals, '0').replace(/0+$/, '')
+  return fraction ? `${whole}.${fraction}` : `${whole}`
+}
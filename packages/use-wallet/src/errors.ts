@@ -0,0 +1,257 @@
+/**
+ * Stable error codes. Where a standard defines the error, the code is taken from
+ * ARC-0001 (signing) or ARC-0027 (provider messaging). Codes in the 4900 range are
+ * specific to use-wallet.
+ */
+export enum WalletErrorCode {
+  /** ARC-0027 UnknownError */
+  UNKNOWN = 4000,
+  /** ARC-0001 User Rejected Request, ARC-0027 MethodCanceledError */
+  USER_REJECTED = 4001,
+  /** ARC-0027 MethodTimedOutError */
+  TIMEOUT = 4002,
+  /** ARC-0027 NetworkNotSupportedError */
+  NETWORK_MISMATCH = 4004,
+  /** ARC-0001 Unauthorized, ARC-0027 UnauthorizedSignerError */
+  UNAUTHORIZED = 4100,
+  /** ARC-0001 Unsupported Operation, ARC-0027 MethodNotSupportedError */
+  UNSUPPORTED_METHOD = 4200,
+  /** ARC-0001 Too Many Transactions */
+  TOO_MANY_TRANSACTIONS = 4201,
+  /** ARC-0001 Uninitialized Wallet */
+  UNINITIALIZED_WALLET = 4202,
+  /** ARC-0001 Invalid Input, ARC-0027 InvalidInputError and InvalidGroupIdError */
+  INVALID_INPUT = 4300,
+  /** The wallet's session is missing or has expired (EIP-1193 Disconnected) */
+  SESSION_EXPIRED = 4900,
+  /** The wallet's browser extension or app is not installed */
+  WALLET_NOT_INSTALLED = 4910,
+  /** The request was canceled by the app before it was sent to the wallet */
+  REQUEST_CANCELED = 4920,
+  /** The request was blocked by the app's signing policy */
+  POLICY_VIOLATION = 4930,
+  /** The signed transactions were rejected by the node */
+  TRANSACTION_REJECTED = 4940
+}
+
+export interface WalletErrorOptions {
+  /** The wallet's native error */
+  cause?: unknown
+  /** Additional data sent with the native error */
+  data?: unknown
+}
+
+/**
+ * Base class for errors thrown by wallets. Check `code`, or use `instanceof` with one
+ * of the subclasses, to handle an error without matching its message.
+ */
+export class WalletError extends Error {
+  readonly code: number
+  readonly data?: unknown
+
+  constructor(
+    message: string,
+    code: number = WalletErrorCode.UNKNOWN,
+    { cause, data }: WalletErrorOptions = {}
+  ) {
+    super(message, cause === undefined ? undefined : { cause })
+    this.name = 'WalletError'
+    this.code = code
+    if (data !== undefined) {
+      this.data = data
+    }
+  }
+}
+
+export class UserRejectedError extends WalletError {
+  constructor(message = 'User rejected the request', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.USER_REJECTED, options)
+    this.name = 'UserRejectedError'
+  }
+}
+
+export class TimeoutError extends WalletError {
+  constructor(message = 'Request timed out', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.TIMEOUT, options)
+    this.name = 'TimeoutError'
+  }
+}
+
+export class NetworkMismatchError extends WalletError {
+  constructor(message = 'Network not supported by the wallet', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.NETWORK_MISMATCH, options)
+    this.name = 'NetworkMismatchError'
+  }
+}
+
+export class UnauthorizedError extends WalletError {
+  constructor(message = 'Not authorized by the user', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.UNAUTHORIZED, options)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+export class UnsupportedMethodError extends WalletError {
+  constructor(message = 'Method not supported', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.UNSUPPORTED_METHOD, options)
+    this.name = 'UnsupportedMethodError'
+  }
+}
+
+export class TooManyTransactionsError extends WalletError {
+  constructor(message = 'Too many transactions', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.TOO_MANY_TRANSACTIONS, options)
+    this.name = 'TooManyTransactionsError'
+  }
+}
+
+export class InvalidInputError extends WalletError {
+  constructor(message = 'Invalid input', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.INVALID_INPUT, options)
+    this.name = 'InvalidInputError'
+  }
+}
+
+export class WalletNotInstalledError extends WalletError {
+  constructor(message = 'Wallet is not installed', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.WALLET_NOT_INSTALLED, options)
+    this.name = 'WalletNotInstalledError'
+  }
+}
+
+export class SessionExpiredError extends WalletError {
+  constructor(message = 'Session expired', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.SESSION_EXPIRED, options)
+    this.name = 'SessionExpiredError'
+  }
+}
+
+export class RequestCanceledError extends WalletError {
+  constructor(message = 'Request canceled', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.REQUEST_CANCELED, options)
+    this.name = 'RequestCanceledError'
+  }
+}
+
+export class PolicyViolationError extends WalletError {
+  constructor(message = 'Blocked by signing policy', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.POLICY_VIOLATION, options)
+    this.name = 'PolicyViolationError'
+  }
+}
+
+export class TransactionRejectedError extends WalletError {
+  constructor(message = 'Transaction rejected', options?: WalletErrorOptions) {
+    super(message, WalletErrorCode.TRANSACTION_REJECTED, options)
+    this.name = 'TransactionRejectedError'
+  }
+}
+
+type WalletErrorClass = new (message?: string, options?: WalletErrorOptions) => WalletError
+
+const ERROR_CLASSES: Partial<Record<number, WalletErrorClass>> = {
+  [WalletErrorCode.USER_REJECTED]: UserRejectedError,
+  [WalletErrorCode.TIMEOUT]: TimeoutError,
+  [WalletErrorCode.NETWORK_MISMATCH]: NetworkMismatchError,
+  [WalletErrorCode.UNAUTHORIZED]: UnauthorizedError,
+  [WalletErrorCode.UNSUPPORTED_METHOD]: UnsupportedMethodError,
+  [WalletErrorCode.TOO_MANY_TRANSACTIONS]: TooManyTransactionsError,
+  [WalletErrorCode.INVALID_INPUT]: InvalidInputError,
+  [WalletErrorCode.WALLET_NOT_INSTALLED]: WalletNotInstalledError,
+  [WalletErrorCode.SESSION_EXPIRED]: SessionExpiredError,
+  [WalletErrorCode.REQUEST_CANCELED]: RequestCanceledError,
+  [WalletErrorCode.POLICY_VIOLATION]: PolicyViolationError,
+  [WalletErrorCode.TRANSACTION_REJECTED]: TransactionRejectedError
+}
+
+/** ARC-0027 codes that differ from ours */
+const ARC0027_CODES: Partial<Record<number, WalletErrorCode>> = {
+  4003: WalletErrorCode.UNSUPPORTED_METHOD,
+  4200: WalletErrorCode.INVALID_INPUT,
+  4201: WalletErrorCode.INVALID_INPUT,
+  4300: WalletErrorCode.UNKNOWN
+}
+
+/**
+ * Create the error for a code, using its `WalletError` subclass if there is one.
+ */
+export function createWalletError(
+  code: number,
+  message: string,
+  options?: WalletErrorOptions
+): WalletError {
+  const ErrorClass = ERROR_CLASSES[code]
+  return ErrorClass ? new ErrorClass(message, options) : new WalletError(message, code, options)
+}
+
+/**
+ * Map any thrown value to a `WalletError`. Errors with an ARC-0001 `code` are mapped
+ * to its subclass; anything else becomes a `WalletError` with code `UNKNOWN`. The
+ * original error is kept as `cause`.
+ */
+export function toWalletError(error: unknown): WalletError {
+  if (error instanceof WalletError) {
+    return error
+  }
+  return mapCode(error, getErrorCode(error))
+}
+
+/**
+ * Map an ARC-0027 error, such as one thrown by an AVM Web Provider, to a `WalletError`.
+ */
+export function fromARC0027Error(error: unknown): WalletError {
+  if (error instanceof WalletError) {
+    return error
+  }
+  const code = getErrorCode(error)
+  return mapCode(error, code === undefined ? code : (ARC0027_CODES[code] ?? code))
+}
+
+/**
+ * Map the error of a request that failed in a mobile wallet app over WalletConnect, such
+ * as the `detail` of a Pera or Defly `SIGN_TRANSACTIONS` error. The apps don't always send
+ * an ARC-0001 code, so a rejection is also recognized by its message.
+ */
+export function fromMobileWalletError(detail: unknown, cause: unknown): WalletError {
+  const code = getErrorCode(detail)
+  const message = getErrorMessage(detail ?? cause)
+  if (code !== undefined && Object.values(WalletErrorCode).includes(code)) {
+    return createWalletError(code, message, { cause })
+  }
+  if (/reject|cancel/i.test(message)) {
+    return new UserRejectedError(message, { cause })
+  }
+  return new WalletError(message, WalletErrorCode.UNKNOWN, { cause })
+}
+
+function mapCode(error: unknown, code: number | undefined): WalletError {
+  const message = getErrorMessage(error)
+  if (code === undefined || !Object.values(WalletErrorCode).includes(code)) {
+    return new WalletError(message, WalletErrorCode.UNKNOWN, { cause: error })
+  }
+  const data =
+    typeof error === 'object' && error !== null && 'data' in error ? error.data : undefined
+  return createWalletError(code, message, { cause: error, data })
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message
+  }
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'message' in error &&
+    typeof error.message === 'string'
+  ) {
+    return error.message
+  }
+  return String(error)
+}
+
+function getErrorCode(error: unknown): number | undefined {
+  if (typeof error === 'object' && error !== null && 'code' in error) {
+    return typeof error.code === 'number' ? error.code : undefined
+  }
+  return undefined
+}
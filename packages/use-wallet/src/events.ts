@@ -0,0 +1,78 @@
+import { logger } from 'src/logger'
+import type { Store } from '@tanstack/store'
+import type algosdk from 'algosdk'
+import type { WalletError } from 'src/errors'
+import type { State } from 'src/store'
+import type { WalletAccount, WalletKey } from 'src/wallets/types'
+
+export interface WalletManagerEvents {
+  /** A wallet was connected */
+  connect: { walletKey: WalletKey; accounts: WalletAccount[] }
+  /** A wallet was disconnected */
+  disconnect: { walletKey: WalletKey }
+  /** A wallet's active account changed */
+  activeAccountChanged: { walletKey: WalletKey; account: WalletAccount | null }
+  /** A wallet's accounts changed */
+  accountsChanged: { walletKey: WalletKey; accounts: WalletAccount[] }
+  /** The active network changed */
+  networkChanged: { networkId: string; previousNetworkId: string }
+  /** A wallet was asked to sign transactions */
+  signRequested: {
+    walletKey: WalletKey
+    txnGroup: algosdk.Transaction[] | Uint8Array[] | (algosdk.Transaction[] | Uint8Array[])[]
+    indexesToSign?: number[] | undefined
+  }
+  /** A wallet returned signed transactions */
+  signCompleted: { walletKey: WalletKey; signedTxns: (Uint8Array | null)[] }
+  /** Signing failed or was rejected */
+  signFailed: { walletKey: WalletKey; error: WalletError }
+}
+
+export type WalletManagerEvent = keyof WalletManagerEvents
+
+export type WalletManagerEventHandler<E extends WalletManagerEvent> = (
+  payload: WalletManagerEvents[E]
+) => void
+
+export class EventEmitter<Events extends object> {
+  private handlers: { [E in keyof Events]?: Set<(payload: Events[E]) => void> } = {}
+
+  public on<E extends keyof Events>(event: E, handler: (payload: Events[E]) => void): () => void {
+    const handlers = this.handlers[event] ?? new Set()
+    handlers.add(handler)
+    this.handlers[event] = handlers
+    return () => this.off(event, handler)
+  }
+
+  public off<E extends keyof Events>(event: E, handler: (payload: Events[E]) => void): void {
+    this.handlers[event]?.delete(handler)
+  }
+
+  public emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    this.handlers[event]?.forEach((handler) => {
+      try {
+        handler(payload)
+      } catch (error) {
+        logger.error(`Error in "${String(event)}" event handler:`, error)
+      }
+    })
+  }
+}
+
+// Emitters are looked up by store, so store mutations and wallets can emit events
+const emitters = new WeakMap<Store<State>, EventEmitter<WalletManagerEvents>>()
+
+export function attachEventEmitter(
+  store: Store<State>,
+  emitter: EventEmitter<WalletManagerEvents>
+): void {
+  emitters.set(store, emitter)
+}
+
+export function emitEvent<E extends WalletManagerEvent>(
+  store: Store<State>,
+  event: E,
+  payload: WalletManagerEvents[E]
+): void {
+  emitters.get(store)?.emit(event, payload)
+}
@@ -0,0 +1,188 @@
+import algosdk from 'algosdk'
+import { TimeoutError } from 'src/errors'
+import { logger } from 'src/logger'
+import { getAlgodEndpoints, type AlgodEndpoint, type NetworkConfig } from 'src/network'
+import { withTimeout } from 'src/utils'
+import type { AlgodEndpointHealth, AlgodHealth, State } from 'src/store'
+import type { Store } from '@tanstack/store'
+
+export interface AlgodHealthCheckerOptions {
+  store: Store<State>
+  /** Time between checks, in ms */
+  interval: number
+  /** Time to wait for an endpoint to respond before it is marked unhealthy, in ms */
+  timeout: number
+  /**
+   * Called once for each healthy fallback endpoint before it can become active. Endpoints
+   * it rejects for are marked unhealthy, e.g. a node on another chain.
+   */
+  verifyEndpoint?: ((networkId: string, endpoint: AlgodEndpoint) => Promise<void>) | undefined
+}
+
+/** Health of a network's algod endpoints before they are checked */
+export function createAlgodHealth(networkId: string, config: NetworkConfig): AlgodHealth {
+  return {
+    networkId,
+    activeEndpoint: 0,
+    endpoints: getAlgodEndpoints(config.algod).map(({ baseServer }) => ({
+      baseServer,
+      status: 'unknown'
+    }))
+  }
+}
+
+/**
+ * Checks the health of the active network's algod endpoints, and switches `algodClient`
+ * to the first healthy endpoint when the one in use fails. Results are stored in
+ * `state.algodHealth`. Networks with a single endpoint are only checked on request.
+ */
+export class AlgodHealthChecker {
+  private store: Store<State>
+  private interval: number
+  private timeout: number
+  private verifyEndpoint: AlgodHealthCheckerOptions['verifyEndpoint']
+  /** Base servers of fallback endpoints that passed `verifyEndpoint` */
+  private verifiedEndpoints = new Set<string>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private isRunning = false
+  /** Incremented on reset, so results for a previous network or config are discarded */
+  private generation = 0
+  private logger: ReturnType<typeof logger.createScopedLogger>
+
+  constructor({ store, interval, timeout, verifyEndpoint }: AlgodHealthCheckerOptions) {
+    this.store = store
+    this.interval = interval
+    this.timeout = timeout
+    this.verifyEndpoint = verifyEndpoint
+    this.logger = logger.createScopedLogger('AlgodHealthChecker')
+  }
+
+  /** Check the active network's endpoints now, then periodically if it has fallbacks */
+  public start(): void {
+    if (!this.isRunning) {
+      this.isRunning = true
+      this.run()
+    }
+  }
+
+  public stop(): void {
+    this.isRunning = false
+    this.clearTimer()
+  }
+
+  /**
+   * Discard checks in progress and start over, after the active network or its algod config
+   * has changed and `algodHealth` has been reset
+   */
+  public reset(): void {
+    this.generation++
+    this.verifiedEndpoints.clear()
+    this.clearTimer()
+    if (this.isRunning) {
+      this.run()
+    }
+  }
+
+  /** Check every endpoint of the active network once */
+  public async check(): Promise<AlgodHealth> {
+    const generation = this.generation
+    const { networkId } = this.store.state.algodHealth
+    const endpoints = getAlgodEndpoints(this.store.state.networkConfig[networkId].algod)
+
+    const results = await Promise.all(
+      endpoints.map(async (endpoint, i) => {
+        const result = await this.probe(endpoint)
+        return i > 0 && result.status === 'healthy'
+          ? this.verify(networkId, endpoint, result, generation)
+          : result
+      })
+    )
+
+    if (generation !== this.generation) {
+      return this.store.state.algodHealth
+    }
+
+    let { activeEndpoint } = this.store.state.algodHealth
+    const healthyEndpoint = results.findIndex(({ status }) => status === 'healthy')
+
+    // Prefer endpoints earlier in the list, so the primary endpoint is used again once it recovers
+    if (healthyEndpoint !== -1 && healthyEndpoint !== activeEndpoint) {
+      this.logger.warn(
+        `Switching algod endpoint from ${endpoints[activeEndpoint].baseServer} to ${endpoints[healthyEndpoint].baseServer}`
+      )
+      const { token = '', baseServer, port = '', headers = {} } = endpoints[healthyEndpoint]
+      const algodClient = new algosdk.Algodv2(token, baseServer, port, headers)
+      activeEndpoint = healthyEndpoint
+      this.store.setState((state) => ({ ...state, algodClient }))
+    } else if (healthyEndpoint === -1) {
+      this.logger.warn(`No healthy algod endpoints for ${networkId}`)
+    }
+
+    const algodHealth: AlgodHealth = { networkId, activeEndpoint, endpoints: results }
+    this.store.setState((state) => ({ ...state, algodHealth }))
+    return algodHealth
+  }
+
+  private run(): void {
+    const { networkId } = this.store.state.algodHealth
+    const { algod } = this.store.state.networkConfig[networkId]
+    if (!algod.fallbacks?.length) {
+      return
+    }
+
+    this.check().finally(() => {
+      if (this.isRunning && this.timer === null) {
+        this.timer = setTimeout(() => {
+          this.timer = null
+          this.run()
+        }, this.interval)
+      }
+    })
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async verify(
+    networkId: string,
+    endpoint: AlgodEndpoint,
+    result: AlgodEndpointHealth,
+    generation: number
+  ): Promise<AlgodEndpointHealth> {
+    if (!this.verifyEndpoint || this.verifiedEndpoints.has(endpoint.baseServer)) {
+      return result
+    }
+
+    try {
+      await this.verifyEndpoint(networkId, endpoint)
+      if (generation === this.generation) {
+        this.verifiedEndpoints.add(endpoint.baseServer)
+      }
+      return result
+    } catch (error: any) {
+      this.logger.warn(`Not using algod endpoint ${endpoint.baseServer}: ${error.message}`)
+      return { ...result, status: 'unhealthy', error: error.message }
+    }
+  }
+
+  private async probe(endpoint: AlgodEndpoint): Promise<AlgodEndpointHealth> {
+    const { token = '', baseServer, port = '', headers = {} } = endpoint
+    const algodClient = new algosdk.Algodv2(token, baseServer, port, headers)
+
+    try {
+      await withTimeout(
+        algodClient.healthCheck().do(),
+        this.timeout,
+        () => new TimeoutError(`No response after ${this.timeout}ms`)
+      )
+      return { baseServer, status: 'healthy', checkedAt: Date.now() }
+    } catch (error: any) {
+      this.logger.debug(`Algod endpoint ${baseServer} is unhealthy: ${error.message}`)
+      return { baseServer, status: 'unhealthy', checkedAt: Date.now(), error: error.message }
+    }
+  }
+}
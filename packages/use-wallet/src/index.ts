@@ -1,14 +1,73 @@
+export {
+  WalletErrorCode,
+  WalletErrorOptions,
+  WalletError,
+  UserRejectedError,
+  TimeoutError,
+  NetworkMismatchError,
+  UnauthorizedError,
+  UnsupportedMethodError,
+  TooManyTransactionsError,
+  InvalidInputError,
+  WalletNotInstalledError,
+  SessionExpiredError,
+  RequestCanceledError,
+  PolicyViolationError,
+  TransactionRejectedError,
+  createWalletError,
+  toWalletError,
+  fromARC0027Error,
+  fromMobileWalletError
+} from './errors'
+export { WalletManagerEvents, WalletManagerEvent, WalletManagerEventHandler } from './events'
 export { LogLevel } from './logger'
-export { WalletManager, WalletManagerConfig, WalletManagerOptions } from './manager'
+export {
+  WalletManager,
+  WalletManagerConfig,
+  WalletManagerOptions,
+  ResumeSessionResult,
+  ResumeSessionsReport,
+  SignAndSendOptions
+} from './manager'
 export {
   AlgodConfig,
+  AlgodEndpoint,
+  IndexerConfig,
   NetworkConfig,
   NetworkConfigBuilder,
   NetworkId,
   DEFAULT_NETWORK_CONFIG
 } from './network'
-export { State, WalletState, ManagerStatus, DEFAULT_STATE } from './store'
-export { StorageAdapter } from './storage'
+export {
+  State,
+  AlgodEndpointHealth,
+  AlgodEndpointStatus,
+  AlgodHealth,
+  WalletState,
+  WalletAvailabilityMap,
+  PendingRequestsMap,
+  WalletStatus,
+  WalletStatusState,
+  WalletStatusMap,
+  ManagerStatus,
+  PersistedState,
+  TrackedTransactionGroup,
+  TrackedTransactionMap,
+  TrackedTransactionStatus,
+  DEFAULT_STATE
+} from './store'
+export { PersistedStateMigration } from './migrations'
+export { NodeSecretsMode } from './secrets'
+export {
+  StorageAdapter,
+  StorageBackend,
+  MemoryStorageBackend,
+  SessionStorageBackend,
+  IndexedDBStorageBackend,
+  IndexedDBStorageOptions,
+  CookieStorageBackend,
+  CookieStorageOptions
+} from './storage'
 export {
   SecureKeyContainer,
   zeroMemory,
@@ -16,5 +75,24 @@ export {
   withSecureKey,
   withSecureKeySync
 } from './secure-key'
+export {
+  DecodedMethodCall,
+  DescribeTransactionsOptions,
+  TransactionDescription,
+  TransactionRisk,
+  TransactionRiskType,
+  describeTransactions
+} from './describe'
+export {
+  PolicyAction,
+  PolicyRule,
+  PolicyViolation,
+  SigningPolicy,
+  SigningPolicies,
+  evaluateSigningPolicy
+} from './policy'
+export { SendTransactionsOptions, SendTransactionsResult, sendTransactions } from './send'
+export { BalanceChange, SimulationResult, simulateTransactions } from './simulation'
+export { TransactionValidationOptions, validateTransactions } from './validation'
 export { webpackFallback } from './webpack'
 export * from './wallets'
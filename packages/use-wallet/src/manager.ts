@@ -1,30 +1,102 @@
 import { Store } from '@tanstack/store'
 import algosdk from 'algosdk'
+import {
+  attachEventEmitter,
+  EventEmitter,
+  type WalletManagerEvent,
+  type WalletManagerEventHandler,
+  type WalletManagerEvents
+} from 'src/events'
+import {
+  InvalidInputError,
+  NetworkMismatchError,
+  TimeoutError,
+  toWalletError,
+  type WalletError
+} from 'src/errors'
+import { AlgodHealthChecker, createAlgodHealth } from 'src/health'
 import { Logger, LogLevel, logger } from 'src/logger'
 import {
   createNetworkConfig,
   isNetworkConfig,
+  isSameGenesisHash,
   NetworkId,
   type AlgodConfig,
+  type AlgodEndpoint,
+  type IndexerConfig,
   type NetworkConfig
 } from 'src/network'
-import { StorageAdapter } from 'src/storage'
+import {
+  getAppStateVersion,
+  migratePersistedState,
+  migrateV3State,
+  type PersistedStateMigration
+} from 'src/migrations'
+import {
+  createSecretStore,
+  getNetworkSecrets,
+  omitNetworkSecrets,
+  restoreNetworkSecrets,
+  type NetworkSecretsMap,
+  type NetworkSecretStore,
+  type NodeSecretsMode
+} from 'src/secrets'
+import { StorageAdapter, type StorageBackend } from 'src/storage'
+import {
+  countMultisigSignatures,
+  getMultisigAddress,
+  getPendingGroupId,
+  mergeMultisigSignatures
+} from 'src/multisig'
+import { TabSync } from 'src/sync'
+import { TransactionTracker } from 'src/tracker'
 import {
   DEFAULT_STATE,
   isValidPersistedState,
+  LEGACY_V3_STORAGE_KEY,
   LOCAL_STORAGE_KEY,
+  PERSISTED_STATE_VERSION,
+  removeMultisigAccount,
+  removePendingMultisigGroup,
+  removeTrackedTransactionGroup,
   removeWallet,
+  removeWalletStatus,
   setActiveNetwork,
   setActiveWallet,
+  setAvailability,
+  setMultisigAccount,
+  setPendingMultisigGroup,
+  setWalletKeys,
+  setWalletStatus,
   type State,
+  type AlgodHealth,
   type ManagerStatus,
-  type PersistedState
+  type MultisigAccountMap,
+  type PersistedState,
+  type TrackedTransactionMap,
+  type WalletAvailabilityMap,
+  type WalletStateMap
 } from 'src/store'
-import { createWalletMap } from 'src/utils'
-import type { BaseWallet } from 'src/wallets/base'
+import {
+  base64ToByteArray,
+  byteArrayToBase64,
+  createWalletMap,
+  flattenTxnGroup,
+  withTimeout
+} from 'src/utils'
+import type { SigningPolicies } from 'src/policy'
+import {
+  sendTransactions,
+  type SendTransactionsOptions,
+  type SendTransactionsResult
+} from 'src/send'
+import { decodeSignedTransaction, type TransactionValidationOptions } from 'src/validation'
+import type { BaseWallet, SignRequestOptions } from 'src/wallets/base'
+import { getWalletProvider, type WalletProviderClass } from 'src/wallets/registry'
 import { resolveSkin } from 'src/wallets/skins'
 import {
   WalletId,
+  type MultisigMetadata,
   type SupportedWallet,
   type UIHooks,
   type WalletAccount,
@@ -39,6 +111,52 @@ export interface WalletManagerOptions {
   resetNetwork?: boolean
   debug?: boolean
   logLevel?: LogLevel
+  /** Sync connected wallets and the active network across browser tabs (default: true) */
+  syncTabs?: boolean
+  /** Time to wait for each wallet's session to resume, in ms. Set to 0 to wait indefinitely (default: 30000) */
+  resumeTimeout?: number
+  /** Times to retry resuming a session that failed. Timed out sessions are not retried (default: 0) */
+  resumeRetries?: number
+  /** Delay before the first retry, in ms. Doubles after each retry (default: 1000) */
+  resumeRetryDelay?: number
+  /** Checks run on transactions before they are sent to a wallet to be signed */
+  transactionValidation?: TransactionValidationOptions
+  /** Simulate transactions with algod before they are signed, and pass the result to `onBeforeSign` (default: false) */
+  simulateBeforeSign?: boolean
+  /** ABI contracts used to decode app call methods in the descriptions passed to `onBeforeSign` */
+  abiContracts?: algosdk.ABIContract[]
+  /** Time between checks of submitted transactions that haven't been confirmed yet, in ms (default: 4000) */
+  transactionPollInterval?: number
+  /** Time between health checks of networks with fallback algod endpoints, in ms (default: 30000) */
+  healthCheckInterval?: number
+  /** Time to wait for an algod endpoint to respond to a health check, in ms (default: 5000) */
+  healthCheckTimeout?: number
+  /**
+   * Check that the algod node is on the configured chain before switching networks or
+   * updating a network's algod config, by comparing its genesis ID and hash (default: false)
+   */
+  verifyGenesis?: boolean
+  /**
+   * How algod and indexer tokens and headers are persisted: in plaintext with the rest of
+   * the state, not at all (`exclude`), in `sessionStorage` (`session`), or encrypted with a
+   * key held in IndexedDB (`encrypt`) (default: 'plaintext')
+   */
+  nodeSecrets?: NodeSecretsMode
+}
+
+export interface ResumeSessionResult {
+  status: 'resumed' | 'failed'
+  /** Error from the last attempt, if the session couldn't be resumed */
+  error: WalletError | null
+  attempts: number
+}
+
+export type ResumeSessionsReport = Partial<Record<WalletKey, ResumeSessionResult>>
+
+export interface SignAndSendOptions
+  extends SignRequestOptions, Omit<SendTransactionsOptions, 'onSubmitted'> {
+  /** Indexes of the transactions to sign. Transactions not listed must already be signed. */
+  indexesToSign?: number[] | undefined
 }
 
 export interface WalletManagerConfig {
@@ -46,15 +164,49 @@ export interface WalletManagerConfig {
   networks?: Record<string, NetworkConfig>
   defaultNetwork?: string
   options?: WalletManagerOptions
+  /** Storage backend for persisted state. Defaults to localStorage. */
+  storage?: StorageBackend
+  /** App-defined migrations for persisted state, e.g. for custom account metadata */
+  migrations?: PersistedStateMigration[]
+  /** Rules for dangerous transaction fields, by network ID. Networks without a policy aren't checked. */
+  signingPolicies?: SigningPolicies
 }
 
 export class WalletManager {
   public _clients: Map<WalletKey, BaseWallet> = new Map()
   private baseNetworkConfig: Record<string, NetworkConfig>
   private _uiHooks: UIHooks = {}
+  private storage: StorageBackend
+  private migrations: PersistedStateMigration[]
+  private pendingHydration: Promise<void> | null = null
+  private secretStore: NetworkSecretStore | null
+  private pendingSecrets: Promise<void> | null = null
+  private hasRestoredSecrets = false
+  private savedSecrets: string | null = null
+  private transactionValidation: TransactionValidationOptions
+  private signingPolicies: SigningPolicies
+  private simulateBeforeSign: boolean
+  private verifyGenesis: boolean
+  private abiContracts: algosdk.ABIContract[]
+  private syncTabs: boolean
+  private tabSync: TabSync | null = null
+  /** Removes the listeners added by `startListening` */
+  private stopListening: (() => void) | null = null
+  private transactionTracker: TransactionTracker
+  private algodHealthChecker: AlgodHealthChecker
+  private events = new EventEmitter<WalletManagerEvents>()
+  private isApplyingRemoteState = false
+  private hasNewerPersistedState = false
+  private lastSavedState: string | null = null
+  /** Sessions from another tab for wallets not configured in this tab, kept when saving */
+  private otherTabWallets: WalletStateMap = {}
+  private otherTabActiveWallet: WalletKey | null = null
   public store: Store<State>
   public subscribe: (callback: (state: State) => void) => () => void
   public options: { resetNetwork: boolean }
+  private resumeOptions: Required<
+    Pick<WalletManagerOptions, 'resumeTimeout' | 'resumeRetries' | 'resumeRetryDelay'>
+  >
 
   private logger: ReturnType<typeof logger.createScopedLogger>
 
@@ -62,7 +214,10 @@ export class WalletManager {
     wallets = [],
     networks,
     defaultNetwork = 'testnet',
-    options = {}
+    options = {},
+    storage = StorageAdapter,
+    migrations = [],
+    signingPolicies = {}
   }: WalletManagerConfig = {}) {
     // Initialize scoped logger
     this.logger = this.initializeLogger(options)
@@ -74,8 +229,25 @@ export class WalletManager {
       options
     })
 
-    // Load persisted state from local storage
-    const persistedState = this.loadPersistedState()
+    this.storage = storage
+    this.secretStore = createSecretStore(options.nodeSecrets ?? 'plaintext', storage)
+    this.migrations = migrations
+    this.signingPolicies = signingPolicies
+
+    // Load persisted state from storage. Asynchronous backends are hydrated in `resumeSessions`
+    const loadResult = this.loadPersistedState(defaultNetwork)
+    const persistedState = loadResult instanceof Promise ? null : loadResult
+    if (loadResult instanceof Promise) {
+      this.pendingHydration = loadResult
+        .then((state) => this.hydratePersistedState(state))
+        .catch((error: any) => {
+          this.logger.error(`Could not hydrate persisted state: ${error.message}`)
+        })
+        .finally(() => {
+          // Save changes made after hydration, even if it failed
+          this.pendingHydration = null
+        })
+    }
 
     // Store the base network config from `networks` (or created default)
     this.baseNetworkConfig = networks || createNetworkConfig()
@@ -85,6 +257,15 @@ export class WalletManager {
 
     // Initialize options
     this.options = { resetNetwork: options.resetNetwork || false }
+    this.resumeOptions = {
+      resumeTimeout: options.resumeTimeout ?? 30000,
+      resumeRetries: options.resumeRetries ?? 0,
+      resumeRetryDelay: options.resumeRetryDelay ?? 1000
+    }
+    this.transactionValidation = options.transactionValidation ?? {}
+    this.simulateBeforeSign = options.simulateBeforeSign ?? false
+    this.verifyGenesis = options.verifyGenesis ?? false
+    this.abiContracts = options.abiContracts ?? []
 
     // Set active network
     const activeNetwork = this.options.resetNetwork
@@ -102,16 +283,26 @@ export class WalletManager {
     // Create initial state
     const initialState: State = {
       ...DEFAULT_STATE,
-      ...persistedState,
+      ...(persistedState && {
+        wallets: persistedState.wallets,
+        activeWallet: persistedState.activeWallet,
+        customNetworkConfigs: persistedState.customNetworkConfigs,
+        multisigAccounts: persistedState.multisigAccounts || {},
+        pendingMultisigGroups: persistedState.pendingMultisigGroups || {},
+        trackedTransactions: persistedState.trackedTransactions || {}
+      }),
       networkConfig,
       activeNetwork,
-      algodClient
+      algodClient,
+      algodHealth: createAlgodHealth(activeNetwork, networkConfig[activeNetwork]),
+      indexerClient: this.createIndexerClient(networkConfig[activeNetwork].indexer)
     }
 
     // Create store
     this.store = new Store<State>(initialState, {
       onUpdate: () => this.savePersistedState()
     })
+    attachEventEmitter(this.store, this.events)
 
     // Save persisted state immediately
     this.savePersistedState()
@@ -125,8 +316,92 @@ export class WalletManager {
       return unsubscribe
     }
 
+    // Track submitted transactions until they are confirmed
+    this.transactionTracker = new TransactionTracker({
+      store: this.store,
+      getAlgodClient: (networkId) => {
+        if (networkId === this.activeNetwork) {
+          return this.algodClient
+        }
+        const config = this.networkConfig[networkId]
+        return config ? this.createAlgodClient(config.algod) : null
+      },
+      getIndexerClient: (networkId) => {
+        if (networkId === this.activeNetwork) {
+          return this.indexerClient
+        }
+        return this.createIndexerClient(this.networkConfig[networkId]?.indexer)
+      },
+      pollInterval: options.transactionPollInterval ?? 4000
+    })
+
+    // Switch to fallback algod endpoints while the primary endpoint is unhealthy
+    this.algodHealthChecker = new AlgodHealthChecker({
+      store: this.store,
+      interval: options.healthCheckInterval ?? 30000,
+      timeout: options.healthCheckTimeout ?? 5000,
+      ...(this.verifyGenesis && {
+        verifyEndpoint: async (networkId, endpoint) => {
+          await this.verifyNodeGenesis(networkId, this.networkConfig[networkId], endpoint)
+        }
+      })
+    })
+
+    // Put back node tokens and headers that were left out of persisted state
+    this.loadNetworkSecrets()
+
     // Initialize wallets
     this.initializeWallets(wallets)
+
+    this.syncTabs = options.syncTabs !== false
+    this.startListening()
+  }
+
+  private startListening(): void {
+    // Look up auth addresses again when a wallet's accounts change
+    const removeAccountsListener = this.events.on('accountsChanged', ({ walletKey }) => {
+      this.getWallet(walletKey)?.updateAuthAddresses()
+    })
+
+    // Sync state with other tabs
+    if (this.syncTabs) {
+      this.tabSync = new TabSync({
+        storageKey: LOCAL_STORAGE_KEY,
+        onStateChange: (state) => this.applyRemoteState(state)
+      })
+    }
+
+    this.stopListening = () => {
+      removeAccountsListener()
+      this.tabSync?.close()
+      this.tabSync = null
+    }
+  }
+
+  /**
+   * Start health checks, transaction polling and cross-tab sync, without resuming wallet
+   * sessions, e.g. when a provider is mounted again after `destroy`. Called by `resumeSessions`.
+   */
+  public start(): void {
+    if (!this.stopListening) {
+      this.startListening()
+    }
+    // Continue tracking transactions submitted before the page loaded
+    this.transactionTracker.start()
+    this.algodHealthChecker.start()
+  }
+
+  /**
+   * Stop health checks, transaction polling and cross-tab sync, and remove the manager's
+   * event listeners, e.g. when a provider unmounts or a module is hot-replaced. Calling
+   * `start` or `resumeSessions` starts them again.
+   */
+  public destroy(): void {
+    this.algodHealthChecker.stop()
+    this.transactionTracker.stop()
+    this.stopListening?.()
+    this.stopListening = null
+    this.logger.info('WalletManager destroyed')
   }
 
   // ---------- Logging ----------------------------------------------- //
@@ -159,38 +434,193 @@ export class WalletManager {
     }))
   }
 
-  private loadPersistedState(): PersistedState | null {
+  /** Health of the active network's algod endpoints, as of the last check */
+  public get algodHealth(): AlgodHealth {
+    return this.store.state.algodHealth
+  }
+
+  public get indexerClient(): algosdk.Indexer | null {
+    return this.store.state.indexerClient
+  }
+
+  public set indexerClient(indexerClient: algosdk.Indexer | null) {
+    this.store.setState((state) => ({
+      ...state,
+      indexerClient
+    }))
+  }
+
+  private loadPersistedState(
+    defaultNetwork: string
+  ): PersistedState | null | Promise<PersistedState | null> {
     try {
-      const serializedState = StorageAdapter.getItem(LOCAL_STORAGE_KEY)
-      if (serializedState === null) {
-        return null
+      const serializedState = this.storage.getItem(LOCAL_STORAGE_KEY)
+      if (serializedState instanceof Promise) {
+        return serializedState
+          .then(async (value) => {
+            if (value === null) {
+              const legacyState = await this.storage.getItem(LEGACY_V3_STORAGE_KEY)
+              return this.importLegacyState(legacyState, defaultNetwork)
+            }
+            return this.parsePersistedState(value)
+          })
+          .catch((error: any) => {
+            this.logger.error(`Could not load state from storage: ${error.message}`)
+            return null
+          })
       }
-      const parsedState = JSON.parse(serializedState)
-      if (!isValidPersistedState(parsedState)) {
-        this.logger.warn('Parsed state:', parsedState)
-        throw new Error('Persisted state is invalid')
+      if (serializedState === null) {
+        // Synchronous backends return synchronously for every key
+        const legacyState = this.storage.getItem(LEGACY_V3_STORAGE_KEY) as string | null
+        return this.importLegacyState(legacyState, defaultNetwork)
       }
-      return parsedState
+      return this.parsePersistedState(serializedState)
     } catch (error: any) {
       this.logger.error(`Could not load state from local storage: ${error.message}`)
       return null
     }
   }
 
-  private savePersistedState(): void {
+  private parsePersistedState(serializedState: string | null): PersistedState | null {
+    if (serializedState === null) {
+      return null
+    }
+    const parsedState = JSON.parse(serializedState)
+    if (typeof parsedState?.version === 'number' && parsedState.version > PERSISTED_STATE_VERSION) {
+      // Don't overwrite state written by a newer version of the library
+      this.hasNewerPersistedState = true
+      this.logger.warn('State was persisted by a newer version and will not be saved')
+    }
+    return this.migrateState(parsedState)
+  }
+
+  /**
+   * Import a session persisted by use-wallet v3.x, then remove the legacy key.
+   */
+  private importLegacyState(
+    serializedState: string | null,
+    defaultNetwork: string
+  ): PersistedState | null {
+    if (serializedState === null) {
+      return null
+    }
+    const persistedState = this.migrateState(
+      migrateV3State(JSON.parse(serializedState), defaultNetwork)
+    )
+
+    const result = this.storage.removeItem(LEGACY_V3_STORAGE_KEY)
+    if (result instanceof Promise) {
+      result.catch((error) => this.logger.error('Could not remove legacy state:', error))
+    }
+
+    this.logger.info('Imported session from v3 storage')
+    return persistedState
+  }
+
+  /**
+   * Run schema and app migrations on parsed state, then validate the result.
+   */
+  private migrateState(parsedState: unknown): PersistedState {
+    if (typeof parsedState !== 'object' || parsedState === null) {
+      this.logger.warn('Parsed state:', parsedState)
+      throw new Error('Persisted state is invalid')
+    }
+    const migratedState = migratePersistedState(parsedState, this.migrations)
+    if (!isValidPersistedState(migratedState)) {
+      this.logger.warn('Parsed state:', parsedState)
+      throw new Error('Persisted state is invalid')
+    }
+    return migratedState
+  }
+
+  /**
+   * Apply persisted state loaded from an asynchronous storage backend.
+   * Until this runs, state is not written back so the stored copy isn't overwritten.
+   */
+  private hydratePersistedState(persistedState: PersistedState | null): void {
+    this.pendingHydration = null
+
+    if (!persistedState) {
+      this.savePersistedState()
+      return
+    }
+
+    const networkConfig = this.initNetworkConfig(this.baseNetworkConfig, persistedState)
+    const activeNetwork =
+      !this.options.resetNetwork && networkConfig[persistedState.activeNetwork]
+        ? persistedState.activeNetwork
+        : this.store.state.activeNetwork
+
+    this.store.setState((state) => ({
+      ...state,
+      wallets: persistedState.wallets,
+      activeWallet: persistedState.activeWallet,
+      customNetworkConfigs: persistedState.customNetworkConfigs || {},
+      multisigAccounts: persistedState.multisigAccounts || {},
+      pendingMultisigGroups: persistedState.pendingMultisigGroups || {},
+      trackedTransactions: persistedState.trackedTransactions || {},
+      networkConfig,
+      activeNetwork,
+      algodClient: this.createAlgodClient(networkConfig[activeNetwork].algod),
+      algodHealth: createAlgodHealth(activeNetwork, networkConfig[activeNetwork]),
+      indexerClient: this.createIndexerClient(networkConfig[activeNetwork].indexer)
+    }))
+
+    this.removeUnknownWallets()
+    this.logger.info('Persisted state hydrated')
+  }
+
+  /**
+   * Persist the state and send it to other tabs. While state from another tab is being
+   * applied, saving waits until it has all been applied, and the state isn't sent back.
+   * Nothing is saved if the stored state was written by a newer version, or if the
+   * persisted state hasn't changed since it was last saved.
+   */
+  private savePersistedState({ broadcast = true }: { broadcast?: boolean } = {}): void {
+    if (this.pendingHydration || this.isApplyingRemoteState || this.hasNewerPersistedState) {
+      return
+    }
+
     try {
-      const { wallets, activeWallet, activeNetwork, networkConfig } = this.store.state
-      const persistedState: PersistedState = {
+      const {
         wallets,
         activeWallet,
         activeNetwork,
-        customNetworkConfigs: {}
+        networkConfig,
+        multisigAccounts,
+        pendingMultisigGroups,
+        trackedTransactions
+      } = this.store.state
+
+      // Another tab's active wallet is kept until this tab makes one of its wallets active
+      const otherTabActiveWallet = this.otherTabActiveWallet
+      if (activeWallet || (otherTabActiveWallet && this._clients.has(otherTabActiveWallet))) {
+        this.otherTabActiveWallet = null
+      }
+
+      const persistedState: PersistedState = {
+        version: PERSISTED_STATE_VERSION,
+        wallets: this.withOtherTabWallets(wallets),
+        activeWallet: activeWallet ?? this.otherTabActiveWallet,
+        activeNetwork,
+        customNetworkConfigs: {},
+        multisigAccounts,
+        pendingMultisigGroups,
+        trackedTransactions
       }
 
       // Compare current network config with base config to find user customizations
       for (const [networkId, currentConfig] of Object.entries(networkConfig)) {
         const baseNetworkConfig = this.baseNetworkConfig[networkId]
-        if (!baseNetworkConfig) continue
+
+        // Networks added with `addNetwork` are persisted in full
+        if (!baseNetworkConfig) {
+          persistedState.customNetworkConfigs = {
+            ...(persistedState.customNetworkConfigs || {}),
+            [networkId]: currentConfig
+          }
+          continue
+        }
 
         // Check if there are any differences from base config
         const customizations: Partial<NetworkConfig> = {}
@@ -202,6 +632,23 @@ export class WalletManager {
           hasCustomizations = true
         }
 
+        // Genesis filled in from the node by `verifyGenesis`
+        for (const key of ['genesisId', 'genesisHash'] as const) {
+          if (currentConfig[key] !== undefined && currentConfig[key] !== baseNetworkConfig[key]) {
+            customizations[key] = currentConfig[key]
+            hasCustomizations = true
+          }
+        }
+
+        // Compare indexer configuration
+        if (
+          currentConfig.indexer &&
+          JSON.stringify(currentConfig.indexer) !== JSON.stringify(baseNetworkConfig.indexer)
+        ) {
+          customizations.indexer = currentConfig.indexer
+          hasCustomizations = true
+        }
+
         // If there are customizations, add them to the persisted state
         if (hasCustomizations) {
           persistedState.customNetworkConfigs = {
@@ -211,21 +658,275 @@ export class WalletManager {
         }
       }
 
+      if (this.secretStore) {
+        persistedState.customNetworkConfigs = this.saveNetworkSecrets(
+          persistedState.customNetworkConfigs || {}
+        )
+      }
+
+      const appVersion = getAppStateVersion(this.migrations)
+      if (appVersion !== undefined) {
+        persistedState.appVersion = appVersion
+      }
+
+      // Most store updates don't change persisted state, e.g. health checks and wallet status
       const serializedState = JSON.stringify(persistedState)
-      StorageAdapter.setItem(LOCAL_STORAGE_KEY, serializedState)
+      if (serializedState === this.lastSavedState) {
+        return
+      }
+      this.lastSavedState = serializedState
+
+      const result = this.storage.setItem(LOCAL_STORAGE_KEY, serializedState)
+      if (result instanceof Promise) {
+        result.catch((error) => this.logger.error('Could not save state to storage:', error))
+      }
+
+      // Don't echo state received from another tab
+      if (broadcast) {
+        this.tabSync?.broadcast(persistedState)
+      }
     } catch (error) {
       this.logger.error('Could not save state to local storage:', error)
     }
   }
 
+  /**
+   * Move node tokens and headers from network configs about to be persisted into the
+   * secret store. Returns the configs without them.
+   */
+  private saveNetworkSecrets(
+    customNetworkConfigs: Record<string, Partial<NetworkConfig>>
+  ): Record<string, Partial<NetworkConfig>> {
+    const secrets: NetworkSecretsMap = {}
+    const configs: Record<string, Partial<NetworkConfig>> = {}
+    for (const [networkId, config] of Object.entries(customNetworkConfigs)) {
+      const networkSecrets = getNetworkSecrets(config)
+      if (networkSecrets) {
+        secrets[networkId] = networkSecrets
+      }
+      configs[networkId] = omitNetworkSecrets(config, this.baseNetworkConfig[networkId])
+    }
+
+    // Don't overwrite stored secrets before they're restored, or save them again unchanged
+    const serializedSecrets = JSON.stringify(secrets)
+    if (this.hasRestoredSecrets && serializedSecrets !== this.savedSecrets) {
+      this.savedSecrets = serializedSecrets
+      const result = this.secretStore!.save(secrets)
+      if (result instanceof Promise) {
+        result.catch((error) => this.logger.error('Could not save node secrets:', error))
+      }
+    }
+
+    return configs
+  }
+
+  /**
+   * Load node tokens and headers from the secret store, and put them back into the
+   * network config. Asynchronous stores (and storage backends) are restored in
+   * `resumeSessions`.
+   */
+  private loadNetworkSecrets(): void {
+    if (!this.secretStore) {
+      return
+    }
+
+    let loadResult: NetworkSecretsMap | Promise<NetworkSecretsMap>
+    try {
+      loadResult = this.secretStore.load()
+    } catch (error: any) {
+      this.logger.error(`Could not load node secrets: ${error.message}`)
+      loadResult = {}
+    }
+
+    if (!(loadResult instanceof Promise) && !this.pendingHydration) {
+      this.applyNetworkSecrets(loadResult)
+      return
+    }
+
+    // Wait for persisted state to be hydrated first, since it replaces the network config
+    this.pendingSecrets = Promise.all([loadResult, this.pendingHydration])
+      .then(([secrets]) => this.applyNetworkSecrets(secrets))
+      .catch((error: any) => {
+        this.logger.error(`Could not load node secrets: ${error.message}`)
+        this.applyNetworkSecrets({})
+      })
+      .finally(() => {
+        this.pendingSecrets = null
+      })
+  }
+
+  private applyNetworkSecrets(secrets: NetworkSecretsMap): void {
+    // Tokens loaded from state persisted in plaintext are moved to the secret store
+    this.hasRestoredSecrets = true
+
+    const networkConfig = { ...this.networkConfig }
+    for (const [networkId, networkSecrets] of Object.entries(secrets)) {
+      if (networkConfig[networkId] && networkSecrets) {
+        networkConfig[networkId] = restoreNetworkSecrets(networkConfig[networkId], networkSecrets)
+      }
+    }
+
+    const activeNetwork = this.activeNetwork
+    const activeConfig = networkConfig[activeNetwork]
+    this.store.setState((state) => ({
+      ...state,
+      networkConfig,
+      ...(secrets[activeNetwork] && {
+        algodClient: this.createAlgodClient(activeConfig.algod),
+        algodHealth: createAlgodHealth(activeNetwork, activeConfig),
+        indexerClient: this.createIndexerClient(activeConfig.indexer)
+      })
+    }))
+    if (secrets[activeNetwork]) {
+      this.algodHealthChecker.reset()
+    }
+  }
+
+  /**
+   * Merge wallets, active wallet, active network and multisig accounts from another tab,
+   * then resume sessions for wallets that were connected there so they can sign in this tab.
+   */
+  private applyRemoteState(remoteState: unknown): void {
+    if (this.pendingHydration) {
+      return
+    }
+
+    let persistedState: PersistedState
+    try {
+      persistedState = this.migrateState(remoteState)
+    } catch (error: any) {
+      this.logger.warn(`Ignoring state from another tab: ${error.message}`)
+      return
+    }
+
+    const previousWallets = this.store.state.wallets
+    const previousNetwork = this.store.state.activeNetwork
+
+    // Only sync wallets configured in this tab. The others are kept for saving, so their
+    // sessions aren't removed from storage.
+    const wallets: WalletStateMap = {}
+    const otherTabWallets: WalletStateMap = {}
+    for (const [walletKey, walletState] of Object.entries(persistedState.wallets)) {
+      if (!walletState) continue
+      if (this._clients.has(walletKey as WalletKey)) {
+        wallets[walletKey as WalletKey] = walletState
+      } else {
+        otherTabWallets[walletKey as WalletKey] = walletState
+      }
+    }
+    const activeWallet =
+      persistedState.activeWallet && wallets[persistedState.activeWallet]
+        ? persistedState.activeWallet
+        : null
+    this.otherTabWallets = otherTabWallets
+    this.otherTabActiveWallet =
+      persistedState.activeWallet && otherTabWallets[persistedState.activeWallet]
+        ? persistedState.activeWallet
+        : null
+
+    // Ignore networks not configured in this tab
+    const activeNetwork = this.networkConfig[persistedState.activeNetwork]
+      ? persistedState.activeNetwork
+      : this.activeNetwork
+
+    this.applyStateChanges(() => {
+      this.store.setState((state) => ({
+        ...state,
+        wallets,
+        activeWallet,
+        multisigAccounts: persistedState.multisigAccounts ?? state.multisigAccounts,
+        pendingMultisigGroups: persistedState.pendingMultisigGroups ?? state.pendingMultisigGroups,
+        trackedTransactions: persistedState.trackedTransactions ?? state.trackedTransactions
+      }))
+
+      // Switch networks the same way as `setActiveNetwork`. Without `verifyGenesis`, the
+      // switch is applied right away, and saved together with the rest of the state.
+      if (activeNetwork !== previousNetwork) {
+        this.switchNetwork(activeNetwork, true).catch((error: any) => {
+          this.logger.warn(
+            `Could not switch to ${activeNetwork} from another tab: ${error.message}`
+          )
+        })
+      }
+    }, true)
+
+    // Wallets disconnected in another tab become idle
+    for (const walletKey of Object.keys(previousWallets) as WalletKey[]) {
+      if (!wallets[walletKey] && this.store.state.walletStatus[walletKey]?.status === 'connected') {
+        setWalletStatus(this.store, { walletId: walletKey, status: 'idle' })
+      }
+    }
+
+    for (const walletKey of Object.keys(wallets) as WalletKey[]) {
+      if (previousWallets[walletKey]) continue
+
+      this.getWallet(walletKey)
+        ?.resumeSession()
+        .catch((error: any) => {
+          this.logger.error(`Could not resume ${walletKey} session: ${error.message}`)
+        })
+    }
+
+    this.logger.info('State synced from another tab')
+  }
+
+  /**
+   * Add the sessions of wallets that are only configured in another tab
+   */
+  private withOtherTabWallets(wallets: WalletStateMap): WalletStateMap {
+    const merged: WalletStateMap = { ...wallets }
+    for (const [walletKey, walletState] of Object.entries(this.otherTabWallets)) {
+      if (walletState && !this._clients.has(walletKey as WalletKey)) {
+        merged[walletKey as WalletKey] = walletState
+      }
+    }
+    return merged
+  }
+
+  /**
+   * Make changes to the store and persist them once. Changes made for another tab
+   * (`fromOtherTab`) aren't sent back to it.
+   */
+  private applyStateChanges(apply: () => void, fromOtherTab: boolean): void {
+    if (!fromOtherTab || this.isApplyingRemoteState) {
+      apply()
+      return
+    }
+
+    this.isApplyingRemoteState = true
+    try {
+      apply()
+    } finally {
+      this.isApplyingRemoteState = false
+    }
+    this.savePersistedState({ broadcast: false })
+  }
+
+  // ---------- Events ------------------------------------------------ //
+
+  /**
+   * Listen for a wallet event. Returns a function that removes the handler.
+   */
+  public on<E extends WalletManagerEvent>(
+    event: E,
+    handler: WalletManagerEventHandler<E>
+  ): () => void {
+    return this.events.on(event, handler)
+  }
+
+  public off<E extends WalletManagerEvent>(event: E, handler: WalletManagerEventHandler<E>): void {
+    this.events.off(event, handler)
+  }
+
   // ---------- Status ------------------------------------------------ //
 
   public get status(): ManagerStatus {
     return this.store.state.managerStatus
   }
 
+  /** True once sessions have been resumed, even if some failed (`degraded`) */
   public get isReady(): boolean {
-    return this.store.state.managerStatus === 'ready'
+    return this.store.state.managerStatus !== 'initializing'
   }
 
   // ---------- Wallets ----------------------------------------------- //
@@ -258,52 +959,145 @@ export class WalletManager {
     this.logger.info('Initializing wallets...')
 
     for (const walletConfig of walletsConfig) {
-      let walletId: T
-      let walletOptions: WalletOptions<T> | undefined
-      let walletMetadata: Partial<WalletMetadata> | undefined
+      this.createWallet(walletConfig)
+    }
 
-      // Parse wallet config
-      if (typeof walletConfig === 'string') {
-        walletId = walletConfig
-      } else {
-        const { id, options, metadata } = walletConfig
-        walletId = id
-        walletOptions = options
-        walletMetadata = metadata
-      }
+    this.updateWalletKeys()
+    this.removeUnknownWallets()
+  }
 
-      // Derive wallet key (handles skin-based composite keys)
-      const walletKey = this.deriveWalletKey(walletId, walletOptions)
+  /**
+   * Construct a wallet from its config and add it to `_clients`.
+   * Returns null if the wallet key is a duplicate or the wallet ID is not supported.
+   */
+  private createWallet<T extends keyof WalletConfigMap>(
+    walletConfig: T | WalletIdConfig<T>
+  ): BaseWallet | null {
+    let walletId: T
+    let walletOptions: WalletOptions<T> | undefined
+    let walletMetadata: Partial<WalletMetadata> | undefined
+
+    // Parse wallet config
+    if (typeof walletConfig === 'string') {
+      walletId = walletConfig
+    } else {
+      const { id, options, metadata } = walletConfig
+      walletId = id
+      walletOptions = options
+      walletMetadata = metadata
+    }
 
-      // Check for duplicate wallet keys
-      if (this._clients.has(walletKey)) {
-        this.logger.warn(`Duplicate wallet key: ${walletKey}. Skipping...`)
-        continue
-      }
+    // Derive wallet key (handles skin-based composite keys)
+    const walletKey = this.deriveWalletKey(walletId, walletOptions)
 
-      // Get wallet class
-      const walletMap = createWalletMap()
-      const WalletClass = walletMap[walletId]
-      if (!WalletClass) {
-        this.logger.error(`Wallet not found: ${walletId}`)
-        continue
-      }
+    // Check for duplicate wallet keys
+    if (this._clients.has(walletKey)) {
+      this.logger.warn(`Duplicate wallet key: ${walletKey}. Skipping...`)
+      return null
+    }
 
-      // Initialize wallet
-      const walletInstance = new WalletClass({
-        id: walletId,
-        metadata: walletMetadata,
-        options: walletOptions as any,
-        getAlgodClient: this.getAlgodClient,
-        store: this.store,
-        subscribe: this.subscribe,
-        managerUIHooks: this._uiHooks
-      })
+    // Get wallet class, falling back to registered third-party providers
+    const walletMap: Partial<Record<string, WalletProviderClass>> = createWalletMap()
+    const provider = getWalletProvider(walletId)
+    const WalletClass = walletMap[walletId] ?? provider?.WalletClass
+    if (!WalletClass) {
+      this.logger.error(`Wallet not found: ${walletId}`)
+      return null
+    }
+
+    // Initialize wallet
+    const walletInstance = new WalletClass({
+      id: walletId,
+      metadata: provider?.defaultMetadata
+        ? { ...provider.defaultMetadata, ...walletMetadata }
+        : walletMetadata,
+      options: walletOptions as any,
+      getAlgodClient: this.getAlgodClient,
+      store: this.store,
+      subscribe: this.subscribe,
+      managerUIHooks: this._uiHooks,
+      storage: this.storage,
+      transactionValidation: this.transactionValidation,
+      signingPolicies: this.signingPolicies,
+      simulateBeforeSign: this.simulateBeforeSign,
+      abiContracts: this.abiContracts
+    })
+
+    this._clients.set(walletKey, walletInstance)
+    this.logger.info(`✅ Initialized ${walletKey}`)
+
+    return walletInstance
+  }
+
+  private updateWalletKeys(): void {
+    setWalletKeys(this.store, { walletKeys: [...this._clients.keys()] })
+  }
+
+  /**
+   * Add a wallet after the manager has been created, e.g. once a feature flag loads.
+   * Accepts the same config as the `wallets` constructor option.
+   */
+  public addWallet<T extends keyof WalletConfigMap>(
+    walletConfig: T | WalletIdConfig<T>
+  ): BaseWallet {
+    const walletId = typeof walletConfig === 'string' ? walletConfig : walletConfig.id
+    const walletOptions = typeof walletConfig === 'string' ? undefined : walletConfig.options
+    const walletKey = this.deriveWalletKey(walletId, walletOptions)
+
+    if (this._clients.has(walletKey)) {
+      this.logger.error(`Wallet already exists: ${walletKey}`)
+      throw new Error(`Wallet already exists: ${walletKey}`)
+    }
+
+    const wallet = this.createWallet(walletConfig)
+    if (!wallet) {
+      throw new Error(`Wallet not found: ${walletId}`)
+    }
+
+    this.updateWalletKeys()
+
+    // Wallets added after sessions are resumed are checked right away
+    if (this.isReady) {
+      this.updateAvailability(wallet)
+    }
+
+    return wallet
+  }
+
+  /**
+   * Remove a wallet, disconnecting it first if it is connected.
+   * Its persisted session is removed from the store.
+   */
+  public async removeWallet(walletKey: WalletKey): Promise<void> {
+    const wallet = this._clients.get(walletKey)
+    if (!wallet) {
+      this.logger.error(`Wallet not found: ${walletKey}`)
+      throw new Error(`Wallet not found: ${walletKey}`)
+    }
+
+    // Reject queued requests, so they don't wait for a wallet that's gone
+    wallet.cancelPendingRequests()
 
-      this._clients.set(walletKey, walletInstance)
-      this.logger.info(`✅ Initialized ${walletKey}`)
+    if (wallet.isConnected) {
+      try {
+        await wallet.disconnect()
+      } catch (error: any) {
+        this.logger.warn(`Error disconnecting ${walletKey}: ${error.message}`)
+      }
     }
 
+    this._clients.delete(walletKey)
+    removeWallet(this.store, { walletId: walletKey })
+    removeWalletStatus(this.store, { walletId: walletKey })
+    this.updateWalletKeys()
+
+    this.logger.info(`✅ Removed ${walletKey}`)
+  }
+
+  /**
+   * Remove persisted wallet state for wallets that are not configured.
+   */
+  private removeUnknownWallets(): void {
     const state = this.store.state
 
     // Check if connected wallets are still valid
@@ -330,18 +1124,70 @@ export class WalletManager {
     return this._clients.get(walletKey)
   }
 
-  public async resumeSessions(): Promise<void> {
+  /**
+   * Resume each wallet's persisted session. A wallet that fails or times out doesn't
+   * affect the others; the manager status becomes `degraded` instead of `ready`.
+   *
+   * @returns The outcome for each wallet
+   */
+  public async resumeSessions(): Promise<ResumeSessionsReport> {
+    const report: ResumeSessionsReport = {}
     try {
-      const promises = this.wallets.map((wallet) => wallet?.resumeSession())
-      await Promise.all(promises)
+      if (this.pendingHydration) {
+        await this.pendingHydration
+      }
+      if (this.pendingSecrets) {
+        await this.pendingSecrets
+      }
+      this.start()
+
+      // Availability checks can take a while (e.g. extension discovery), so don't wait for them
+      this.checkAvailability()
+
+      await Promise.all(
+        Array.from(this._clients, async ([walletKey, wallet]) => {
+          report[walletKey] = await this.resumeWalletSession(walletKey, wallet)
+        })
+      )
+      return report
     } finally {
+      const isDegraded = Object.values(report).some((result) => result?.status === 'failed')
       this.store.setState((state) => ({
         ...state,
-        managerStatus: 'ready'
+        managerStatus: isDegraded ? 'degraded' : 'ready'
       }))
     }
   }
 
+  private async resumeWalletSession(
+    walletKey: WalletKey,
+    wallet: BaseWallet
+  ): Promise<ResumeSessionResult> {
+    const { resumeTimeout, resumeRetries, resumeRetryDelay } = this.resumeOptions
+    for (let attempts = 1; ; attempts++) {
+      try {
+        await withTimeout(
+          wallet.resumeSession(),
+          resumeTimeout,
+          () => new TimeoutError(`Timed out resuming session after ${resumeTimeout}ms`)
+        )
+        return { status: 'resumed', error: null, attempts }
+      } catch (error) {
+        const walletError = toWalletError(error)
+
+        // A timed out attempt may still be running, so don't start another
+        if (attempts > resumeRetries || walletError instanceof TimeoutError) {
+          this.logger.warn(`Could not resume session for ${walletKey}: ${walletError.message}`)
+          return { status: 'failed', error: walletError, attempts }
+        }
+
+        const delay = resumeRetryDelay * 2 ** (attempts - 1)
+        this.logger.info(`Retrying session for ${walletKey} in ${delay}ms...`)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+    }
+  }
+
   public async disconnect(): Promise<void> {
     const promises = this.wallets
       .filter((wallet) => wallet.isConnected)
@@ -350,6 +1196,32 @@ export class WalletManager {
     await Promise.all(promises)
   }
 
+  // ---------- Availability ------------------------------------------ //
+
+  /**
+   * Check whether each wallet can be used in the current environment, e.g. whether its
+   * browser extension is installed. Results are stored in `state.availability`.
+   * Called by `resumeSessions`.
+   */
+  public async checkAvailability(): Promise<WalletAvailabilityMap> {
+    await Promise.all(this.wallets.map((wallet) => this.updateAvailability(wallet)))
+    return this.store.state.availability
+  }
+
+  private async updateAvailability(wallet: BaseWallet): Promise<void> {
+    let isAvailable = false
+    try {
+      isAvailable = await wallet.isAvailable()
+    } catch (error: any) {
+      this.logger.warn(`Error checking availability of ${wallet.walletKey}: ${error.message}`)
+    }
+
+    // Skip wallets removed while the check was pending
+    if (this._clients.get(wallet.walletKey) === wallet) {
+      setAvailability(this.store, { walletId: wallet.walletKey, isAvailable })
+    }
+  }
+
   // ---------- UI Hooks ----------------------------------------------- //
 
   public registerUIHook<K extends keyof UIHooks>(name: K, callback: UIHooks[K]): void {
@@ -378,12 +1250,28 @@ export class WalletManager {
       config[networkId] = {
         ...baseNetworkConfig,
         ...customNetworkConfig,
-        // Ensure algod config is also deeply merged
+        // Ensure algod and indexer configs are also deeply merged
         algod: {
           ...baseNetworkConfig.algod,
           ...(customNetworkConfig?.algod || {})
         }
       }
+      if (baseNetworkConfig.indexer || customNetworkConfig?.indexer) {
+        config[networkId].indexer = {
+          ...baseNetworkConfig.indexer!,
+          ...(customNetworkConfig?.indexer || {})
+        }
+      }
+    }
+
+    // Add networks added at runtime with `addNetwork`
+    for (const [networkId, customNetworkConfig] of Object.entries(customConfigs)) {
+      if (baseConfig[networkId]) continue
+      if (isNetworkConfig(customNetworkConfig)) {
+        config[networkId] = customNetworkConfig
+      } else {
+        this.logger.warn(`Ignoring invalid persisted configuration for "${networkId}"`)
+      }
     }
 
     // Validate network configurations
@@ -397,17 +1285,31 @@ export class WalletManager {
     return config
   }
 
-  private createAlgodClient(config: AlgodConfig): algosdk.Algodv2 {
+  private createAlgodClient(config: AlgodEndpoint): algosdk.Algodv2 {
     this.logger.info(`Creating new Algodv2 client...`)
 
     const { token = '', baseServer, port = '', headers = {} } = config
     return new algosdk.Algodv2(token, baseServer, port, headers)
   }
 
+  private createIndexerClient(config: IndexerConfig | undefined): algosdk.Indexer | null {
+    if (!config) {
+      return null
+    }
+    this.logger.info(`Creating new Indexer client...`)
+
+    const { token = '', baseServer, port = '', headers = {} } = config
+    return new algosdk.Indexer(token, baseServer, port, headers)
+  }
+
   public getAlgodClient = (): algosdk.Algodv2 => {
     return this.algodClient
   }
 
+  public getIndexerClient = (): algosdk.Indexer | null => {
+    return this.indexerClient
+  }
+
   public setActiveNetwork = async (networkId: NetworkId | string): Promise<void> => {
     if (this.activeNetwork === networkId) {
       return
@@ -417,13 +1319,51 @@ export class WalletManager {
       throw new Error(`Network "${networkId}" not found in network configuration`)
     }
 
-    const algodClient = this.createAlgodClient(this.networkConfig[networkId].algod)
-    setActiveNetwork(this.store, { networkId, algodClient })
+    await this.switchNetwork(networkId)
+  }
+
+  /**
+   * Switch the active network, after verifying its node with `verifyGenesis`, and look up
+   * auth addresses on it. A switch made for another tab (`fromOtherTab`) isn't sent back.
+   */
+  private async switchNetwork(networkId: string, fromOtherTab = false): Promise<void> {
+    let config = this.networkConfig[networkId]
+    if (this.verifyGenesis) {
+      config = await this.verifyNodeGenesis(networkId, config)
+    }
+
+    this.applyStateChanges(() => {
+      if (this.verifyGenesis) {
+        this.store.setState((state) => ({
+          ...state,
+          networkConfig: { ...state.networkConfig, [networkId]: config }
+        }))
+      }
+      const algodClient = this.createAlgodClient(config.algod)
+      const indexerClient = this.createIndexerClient(config.indexer)
+      const algodHealth = createAlgodHealth(networkId, config)
+      setActiveNetwork(this.store, { networkId, algodClient, algodHealth, indexerClient })
+    }, fromOtherTab)
+    this.algodHealthChecker.reset()
+
+    // Accounts may be rekeyed on one network but not another
+    await Promise.all(
+      this.wallets
+        .filter((wallet) => wallet.isConnected)
+        .map((wallet) => wallet.updateAuthAddresses())
+    )
 
     this.logger.info(`✅ Active network set to ${networkId}`)
   }
 
-  public updateAlgodConfig(networkId: string, algodConfig: Partial<AlgodConfig>): void {
+  /**
+   * Update a network's algod config. With `verifyGenesis`, the new node is checked first,
+   * and the returned promise rejects with a `NetworkMismatchError` if it's on another chain.
+   */
+  public async updateAlgodConfig(
+    networkId: string,
+    algodConfig: Partial<AlgodConfig>
+  ): Promise<void> {
     // Verify network exists
     if (!this.networkConfig[networkId]) {
       throw new Error(`Network "${networkId}" not found in network configuration`)
@@ -443,6 +1383,13 @@ export class WalletManager {
       throw new Error('Invalid network configuration')
     }
 
+    this.applyAlgodConfig(
+      networkId,
+      this.verifyGenesis ? await this.verifyNodeGenesis(networkId, updatedConfig) : updatedConfig
+    )
+  }
+
+  private applyAlgodConfig(networkId: string, updatedConfig: NetworkConfig): void {
     // Update the network config
     this.store.setState((state) => ({
       ...state,
@@ -454,7 +1401,12 @@ export class WalletManager {
 
     // If this is the active network, update the algod client
     if (this.activeNetwork === networkId) {
-      this.algodClient = this.createAlgodClient(updatedConfig.algod)
+      this.store.setState((state) => ({
+        ...state,
+        algodClient: this.createAlgodClient(updatedConfig.algod),
+        algodHealth: createAlgodHealth(networkId, updatedConfig)
+      }))
+      this.algodHealthChecker.reset()
     }
 
     // Save the updated configuration
@@ -463,6 +1415,89 @@ export class WalletManager {
     this.logger.info(`✅ Updated algod configuration for ${networkId}`)
   }
 
+  /**
+   * Check the health of the active network's algod endpoints, switching `algodClient` to
+   * the first healthy one if needed. Networks with fallback endpoints are also checked
+   * every `healthCheckInterval` ms once sessions have been resumed.
+   */
+  public checkAlgodHealth(): Promise<AlgodHealth> {
+    return this.algodHealthChecker.check()
+  }
+
+  /**
+   * Check that a network's algod node (or one of its fallbacks) is on the chain in its
+   * config. A missing genesis ID or hash (e.g. for localnet) is filled in from the node.
+   */
+  private async verifyNodeGenesis(
+    networkId: string,
+    config: NetworkConfig,
+    endpoint: AlgodEndpoint = config.algod
+  ): Promise<NetworkConfig> {
+    const { genesisId, genesisHashB64 } = await this.createAlgodClient(endpoint)
+      .versionsCheck()
+      .do()
+    const genesisHash =
+      typeof genesisHashB64 === 'string' ? genesisHashB64 : byteArrayToBase64(genesisHashB64)
+
+    if (config.genesisId !== undefined && config.genesisId !== genesisId) {
+      throw new NetworkMismatchError(
+        `Algod node at ${endpoint.baseServer} is on ${genesisId}, but "${networkId}" expects ${config.genesisId}`
+      )
+    }
+    if (config.genesisHash !== undefined && !isSameGenesisHash(config.genesisHash, genesisHash)) {
+      throw new NetworkMismatchError(
+        `Algod node at ${endpoint.baseServer} has genesis hash ${genesisHash}, but "${networkId}" expects ${config.genesisHash}`
+      )
+    }
+
+    this.logger.info(`✅ Verified genesis of ${networkId} node: ${genesisId}`)
+    return {
+      ...config,
+      genesisId: config.genesisId ?? genesisId,
+      genesisHash: config.genesisHash ?? genesisHash
+    }
+  }
+
+  public updateIndexerConfig(networkId: string, indexerConfig: Partial<IndexerConfig>): void {
+    // Verify network exists
+    if (!this.networkConfig[networkId]) {
+      throw new Error(`Network "${networkId}" not found in network configuration`)
+    }
+
+    // Create new config merging existing with updates
+    const updatedConfig = {
+      ...this.networkConfig[networkId],
+      indexer: {
+        ...this.networkConfig[networkId].indexer,
+        ...indexerConfig
+      } as IndexerConfig
+    }
+
+    // Validate the new configuration
+    if (!isNetworkConfig(updatedConfig)) {
+      throw new Error('Invalid network configuration')
+    }
+
+    // Update the network config
+    this.store.setState((state) => ({
+      ...state,
+      networkConfig: {
+        ...state.networkConfig,
+        [networkId]: updatedConfig
+      }
+    }))
+
+    // If this is the active network, update the indexer client
+    if (this.activeNetwork === networkId) {
+      this.indexerClient = this.createIndexerClient(updatedConfig.indexer)
+    }
+
+    // Save the updated configuration
+    this.savePersistedState()
+
+    this.logger.info(`✅ Updated indexer configuration for ${networkId}`)
+  }
+
   public resetNetworkConfig(networkId: string): void {
     // Verify network exists
     if (!this.baseNetworkConfig[networkId]) {
@@ -478,23 +1513,77 @@ export class WalletManager {
       }
     }))
 
-    // If this is the active network, update the algod client
+    // If this is the active network, update the algod and indexer clients
     if (this.activeNetwork === networkId) {
-      this.algodClient = this.createAlgodClient(this.baseNetworkConfig[networkId].algod)
+      this.store.setState((state) => ({
+        ...state,
+        algodClient: this.createAlgodClient(this.baseNetworkConfig[networkId].algod),
+        algodHealth: createAlgodHealth(networkId, this.baseNetworkConfig[networkId]),
+        indexerClient: this.createIndexerClient(this.baseNetworkConfig[networkId].indexer)
+      }))
+      this.algodHealthChecker.reset()
     }
 
-    // Load current persisted state
-    const persistedState = this.loadPersistedState()
-    if (persistedState?.customNetworkConfigs) {
-      // Remove the network's customizations
-      delete persistedState.customNetworkConfigs[networkId]
-      // Save the updated state
-      StorageAdapter.setItem(LOCAL_STORAGE_KEY, JSON.stringify(persistedState))
-    }
+    // Save the updated state (the network no longer differs from its base config)
+    this.savePersistedState()
 
     this.logger.info(`✅ Reset network configuration for ${networkId}`)
   }
 
+  /**
+   * Add a network that isn't in the `networks` passed to the manager. Added networks are
+   * persisted, so they're still available after the page reloads.
+   */
+  public addNetwork(networkId: string, config: NetworkConfig): void {
+    if (this.networkConfig[networkId]) {
+      throw new Error(`Network "${networkId}" already exists in network configuration`)
+    }
+
+    if (!isNetworkConfig(config)) {
+      throw new Error('Invalid network configuration')
+    }
+
+    this.store.setState((state) => ({
+      ...state,
+      networkConfig: {
+        ...state.networkConfig,
+        [networkId]: config
+      }
+    }))
+
+    this.savePersistedState()
+
+    this.logger.info(`✅ Added network ${networkId}`)
+  }
+
+  /**
+   * Remove a network added with `addNetwork`. Networks passed to the manager and the
+   * active network can't be removed.
+   */
+  public removeNetwork(networkId: string): void {
+    if (!this.networkConfig[networkId]) {
+      throw new Error(`Network "${networkId}" not found in network configuration`)
+    }
+
+    if (this.baseNetworkConfig[networkId]) {
+      throw new Error(`Network "${networkId}" was not added with addNetwork and can't be removed`)
+    }
+
+    if (this.activeNetwork === networkId) {
+      throw new Error(`Network "${networkId}" is the active network and can't be removed`)
+    }
+
+    this.store.setState((state) => {
+      const networkConfig = { ...state.networkConfig }
+      delete networkConfig[networkId]
+      return { ...state, networkConfig }
+    })
+
+    this.savePersistedState()
+
+    this.logger.info(`✅ Removed network ${networkId}`)
+  }
+
   public get activeNetwork(): string {
     return this.store.state.activeNetwork
   }
@@ -548,21 +1637,269 @@ export class WalletManager {
     return this.activeAccount.address
   }
 
+  // ---------- Multisig ---------------------------------------------- //
+
+  /** Registered multisig accounts, by address */
+  public get multisigAccounts(): MultisigAccountMap {
+    return this.store.state.multisigAccounts
+  }
+
+  /**
+   * Register a multisig account, so `signTransactions` collects signatures for its
+   * transactions from every connected wallet that holds a member's key.
+   *
+   * @returns The multisig account's address
+   */
+  public registerMultisig(metadata: MultisigMetadata): string {
+    const address = getMultisigAddress(metadata)
+    setMultisigAccount(this.store, { address, metadata })
+    this.logger.info(`Registered multisig account ${address}`)
+    return address
+  }
+
+  public unregisterMultisig(address: string): void {
+    removeMultisigAccount(this.store, { address })
+  }
+
+  /**
+   * Groups with multisig transactions that need more signatures, by group ID. Pass a
+   * group to `signTransactions` to add the signatures of the wallets connected now.
+   */
+  public get pendingMultisigGroups(): Record<string, Uint8Array[]> {
+    const groups: Record<string, Uint8Array[]> = {}
+    for (const [groupId, txns] of Object.entries(this.store.state.pendingMultisigGroups)) {
+      if (txns) {
+        groups[groupId] = txns.map(base64ToByteArray)
+      }
+    }
+    return groups
+  }
+
+  public removePendingMultisigGroup(groupId: string): void {
+    removePendingMultisigGroup(this.store, { groupId })
+  }
+
   // ---------- Sign Transactions ------------------------------------- //
 
+  /**
+   * Sign transactions with every connected wallet that holds a sender. Each transaction
+   * is signed by the active wallet if it holds the sender (or the account the sender is
+   * rekeyed to), otherwise by the first connected wallet that does. Transactions from
+   * registered multisig accounts are signed by each wallet holding a member's key.
+   */
   public get signTransactions(): BaseWallet['signTransactions'] {
-    if (!this.activeWallet) {
+    const activeWallet = this.activeWallet
+    if (!activeWallet) {
       this.logger.error('No active wallet found!')
       throw new Error('No active wallet found!')
     }
-    return this.activeWallet.signTransactions
+    return (txnGroup, indexesToSign, options) =>
+      this.routeSignRequest(activeWallet, txnGroup, indexesToSign, options)
+  }
+
+  /**
+   * Sign transactions, submit them with `algodClient` and wait for them to be confirmed.
+   * Nested arrays are submitted as separate groups. Throws a `TransactionRejectedError`
+   * if algod rejects the transactions, and a `TimeoutError` if they aren't confirmed
+   * within `waitRounds`.
+   */
+  public async signAndSend<T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    { indexesToSign, waitRounds, ...signOptions }: SignAndSendOptions = {}
+  ): Promise<SendTransactionsResult> {
+    const signedTxns = await this.signTransactions(txnGroup, indexesToSign, signOptions)
+
+    // Wallets return signed transactions in different shapes, so match them by ID
+    const signedById = new Map(
+      signedTxns.flatMap((signedTxn) =>
+        signedTxn ? [[algosdk.decodeSignedTransaction(signedTxn).txn.txID(), signedTxn]] : []
+      )
+    )
+    const groups = (Array.isArray(txnGroup[0]) ? txnGroup : [txnGroup]) as T[]
+    let index = 0
+    const signedGroups = groups.map((group) =>
+      group.map((txn) => {
+        const decoded = decodeSignedTransaction(txn, index)
+        const signedTxn =
+          signedById.get(decoded.txn.txID()) ??
+          (decoded.sig || decoded.msig || decoded.lsig ? (txn as Uint8Array) : null)
+        if (!signedTxn) {
+          throw new InvalidInputError(`Transaction at index ${index} is not signed`)
+        }
+        index++
+        return signedTxn
+      })
+    )
+
+    // Track each group once it's accepted, in case the page reloads before it's confirmed
+    const networkId = this.activeNetwork
+    const groupIds: string[] = []
+    const result = await sendTransactions(signedGroups, this.algodClient, {
+      waitRounds,
+      onSubmitted: (group) => groupIds.push(...this.transactionTracker.track(group, networkId))
+    })
+    for (const groupId of groupIds) {
+      const txIds = this.store.state.trackedTransactions[groupId]?.txIds ?? []
+      const confirmedRound = result.confirmations
+        .filter((_, index) => txIds.includes(result.txIds[index]))
+        .reduce(
+          (round, { confirmedRound }) => (confirmedRound! > round ? confirmedRound! : round),
+          0n
+        )
+      this.transactionTracker.confirm(groupId, confirmedRound)
+    }
+
+    this.logger.info(`Transactions confirmed in round ${result.confirmedRound}`)
+    return result
+  }
+
+  // ---------- Transaction Tracking ---------------------------------- //
+
+  /** Submitted groups and their status, by the ID of their first transaction */
+  public get trackedTransactions(): TrackedTransactionMap {
+    return this.store.state.trackedTransactions
+  }
+
+  /**
+   * Track signed groups submitted to the active network outside of `signAndSend`, until
+   * they are confirmed or expire. Nested arrays are tracked as separate groups.
+   *
+   * @returns The ID of each group
+   */
+  public trackTransactions(signedTxns: Uint8Array[] | Uint8Array[][]): string[] {
+    return this.transactionTracker.track(signedTxns, this.activeNetwork)
+  }
+
+  public removeTrackedTransactions(groupId: string): void {
+    removeTrackedTransactionGroup(this.store, { groupId })
+  }
+
+  /** The wallet to sign a sender's transactions, preferring the active wallet */
+  private findSigningWallet(activeWallet: BaseWallet, sender: string): BaseWallet | undefined {
+    const authAddr = this.wallets
+      .flatMap((wallet) => wallet.accounts)
+      .find((account) => account.address === sender)?.authAddr
+    const holdsSender = (wallet: BaseWallet) =>
+      wallet.addresses.includes(sender) || (!!authAddr && wallet.addresses.includes(authAddr))
+
+    if (holdsSender(activeWallet)) {
+      return activeWallet
+    }
+    return this.wallets.find((wallet) => wallet.isConnected && holdsSender(wallet))
   }
 
+  private async routeSignRequest<T extends algosdk.Transaction[] | Uint8Array[]>(
+    activeWallet: BaseWallet,
+    txnGroup: T | T[],
+    indexesToSign?: number[],
+    options?: SignRequestOptions
+  ): Promise<(Uint8Array | null)[]> {
+    const { multisigAccounts } = this.store.state
+    const txns = flattenTxnGroup(txnGroup as unknown[]) as (algosdk.Transaction | Uint8Array)[]
+    const decodedTxns = txns.map((txn, index) => decodeSignedTransaction(txn, index))
+    const getSender = (index: number) => decodedTxns[index].txn.sender.toString()
+    const getMultisig = (index: number) => multisigAccounts[getSender(index)]
+
+    const indexes = (indexesToSign ?? txns.map((_, index) => index)).filter(
+      (index) => index < txns.length
+    )
+    const multisigIndexes = indexes.filter((index) => getMultisig(index))
+
+    // Indexes to sign with each wallet
+    const requests = new Map<BaseWallet, number[]>()
+    const addRequest = (wallet: BaseWallet, index: number) => {
+      requests.set(wallet, [...(requests.get(wallet) ?? []), index])
+    }
+    for (const index of indexes) {
+      const multisig = getMultisig(index)
+      if (multisig) {
+        this.wallets
+          .filter(
+            (wallet) =>
+              wallet.isConnected && multisig.addrs.some((addr) => wallet.addresses.includes(addr))
+          )
+          .forEach((wallet) => addRequest(wallet, index))
+        continue
+      }
+      const wallet = this.findSigningWallet(activeWallet, getSender(index))
+      if (wallet) {
+        addRequest(wallet, index)
+      }
+    }
+
+    // The active wallet can sign everything on its own
+    if (multisigIndexes.length === 0 && [...requests.keys()].every((w) => w === activeWallet)) {
+      return activeWallet.signTransactions(txnGroup, indexesToSign, options)
+    }
+
+    // Wallets return signed transactions in different shapes, so match them by ID
+    const txIds = decodedTxns.map(({ txn }) => txn.txID())
+    const newSignatures: Uint8Array[][] = txns.map(() => [])
+    for (const [wallet, walletIndexes] of requests) {
+      this.logger.debug(`Signing transactions ${walletIndexes.join(', ')} with ${wallet.walletKey}`)
+      const signedTxns = await wallet.signTransactions(txnGroup, walletIndexes, options)
+      for (const signedTxn of signedTxns) {
+        if (!signedTxn) continue
+        const txId = algosdk.decodeSignedTransaction(signedTxn).txn.txID()
+        const index = walletIndexes.find((index) => txIds[index] === txId)
+        if (index !== undefined) {
+          newSignatures[index].push(signedTxn)
+        }
+      }
+    }
+
+    // ARC-0001 order: one entry per transaction, null for those that weren't signed
+    const result = newSignatures.map((signatures, index) => {
+      if (signatures.length === 0 || !multisigIndexes.includes(index)) {
+        return signatures[0] ?? null
+      }
+      const existing = decodedTxns[index].msig ? [txns[index] as Uint8Array] : []
+      return mergeMultisigSignatures([...existing, ...signatures])
+    })
+
+    if (multisigIndexes.length > 0) {
+      this.trackMultisigGroup(txns, decodedTxns, result)
+    }
+
+    return result
+  }
+
+  /** Save a group until every multisig transaction has enough signatures */
+  private trackMultisigGroup(
+    txns: (algosdk.Transaction | Uint8Array)[],
+    decodedTxns: algosdk.SignedTransaction[],
+    result: (Uint8Array | null)[]
+  ): void {
+    const { multisigAccounts } = this.store.state
+    const latestTxns = txns.map(
+      (txn, index) =>
+        result[index] ?? (txn instanceof Uint8Array ? txn : algosdk.encodeUnsignedTransaction(txn))
+    )
+    const isComplete = latestTxns.every((txn, index) => {
+      const multisig = multisigAccounts[decodedTxns[index].txn.sender.toString()]
+      return (
+        !multisig ||
+        countMultisigSignatures(decodeSignedTransaction(txn, index)) >= multisig.threshold
+      )
+    })
+    const groupId = getPendingGroupId(decodedTxns.map(({ txn }) => txn))
+    if (isComplete) {
+      removePendingMultisigGroup(this.store, { groupId })
+    } else {
+      setPendingMultisigGroup(this.store, { groupId, txns: latestTxns.map(byteArrayToBase64) })
+      this.logger.info(`Multisig group ${groupId} needs more signatures`)
+    }
+  }
+
+  /**
+   * A signer for `AtomicTransactionComposer`. Transactions are routed to the wallets
+   * holding their senders, the same way as `signTransactions`.
+   */
   public get transactionSigner(): algosdk.TransactionSigner {
-    if (!this.activeWallet) {
-      this.logger.error('No active wallet found!')
-      throw new Error('No active wallet found!')
+    const signTransactions = this.signTransactions
+    return async (txnGroup, indexesToSign) => {
+      const signTxnsResult = await signTransactions(txnGroup, indexesToSign)
+      return signTxnsResult.filter((value): value is Uint8Array => value !== null)
     }
-    return this.activeWallet.transactionSigner
   }
 }
@@ -0,0 +1,118 @@
+import { PERSISTED_STATE_VERSION, type PersistedState, type WalletStateMap } from 'src/store'
+import type { WalletAccount, WalletKey } from 'src/wallets/types'
+
+/**
+ * An app-defined migration for persisted state, e.g. to reshape account metadata.
+ *
+ * App migrations run after the built-in schema migrations, in ascending `version` order.
+ * Only migrations with a version greater than the stored `appVersion` are applied.
+ */
+export interface PersistedStateMigration {
+  /** App schema version produced by this migration */
+  version: number
+  migrate: (state: PersistedState) => PersistedState
+}
+
+type UnversionedState = Record<string, any>
+
+/**
+ * Built-in schema migrations, keyed by the version each one produces.
+ * Version 0 is the original unversioned v4.x shape.
+ */
+const SCHEMA_MIGRATIONS: Record<number, (state: UnversionedState) => UnversionedState> = {
+  1: (state) => ({
+    ...state,
+    customNetworkConfigs: state.customNetworkConfigs ?? {}
+  })
+}
+
+/**
+ * Upgrade persisted state to the current schema version, then apply app migrations.
+ * Returns the migrated state, which still needs to be validated by the caller.
+ */
+export function migratePersistedState(
+  state: UnversionedState,
+  appMigrations: PersistedStateMigration[] = []
+): UnversionedState {
+  const fromVersion = typeof state.version === 'number' ? state.version : 0
+
+  if (fromVersion > PERSISTED_STATE_VERSION) {
+    throw new Error(
+      `Persisted state version ${fromVersion} is newer than supported version ${PERSISTED_STATE_VERSION}`
+    )
+  }
+
+  let migratedState = state
+  for (let version = fromVersion + 1; version <= PERSISTED_STATE_VERSION; version++) {
+    migratedState = { ...SCHEMA_MIGRATIONS[version](migratedState), version }
+  }
+
+  const fromAppVersion = typeof state.appVersion === 'number' ? state.appVersion : 0
+  const pendingMigrations = appMigrations
+    .filter((migration) => migration.version > fromAppVersion)
+    .sort((a, b) => a.version - b.version)
+
+  for (const migration of pendingMigrations) {
+    migratedState = {
+      ...migration.migrate(migratedState as PersistedState),
+      version: PERSISTED_STATE_VERSION,
+      appVersion: migration.version
+    }
+  }
+
+  return migratedState
+}
+
+/**
+ * Get the latest app schema version from a list of app migrations
+ */
+export function getAppStateVersion(appMigrations: PersistedStateMigration[]): number | undefined {
+  if (appMigrations.length === 0) {
+    return undefined
+  }
+  return Math.max(...appMigrations.map((migration) => migration.version))
+}
+
+type V3Account = {
+  providerId: string
+  name: string
+  address: string
+}
+
+/**
+ * Convert a v3.x session (persisted by zustand under `txnlab-use-wallet`) to the
+ * unversioned v4 shape. Accounts are grouped into wallets by provider ID.
+ */
+export function migrateV3State(legacyState: unknown, activeNetwork: string): UnversionedState {
+  const state = (legacyState as { state?: unknown } | null)?.state as
+    | { accounts?: V3Account[]; activeAccount?: V3Account | null }
+    | undefined
+
+  if (!state || !Array.isArray(state.accounts)) {
+    throw new Error('Legacy v3 state is invalid')
+  }
+
+  const toAccount = ({ name, address }: V3Account): WalletAccount => ({ name, address })
+  const activeAccount = state.activeAccount ?? null
+
+  const wallets: WalletStateMap = {}
+  for (const account of state.accounts) {
+    const walletId = account.providerId as WalletKey
+    const wallet = wallets[walletId] ?? { accounts: [], activeAccount: toAccount(account) }
+    wallet.accounts.push(toAccount(account))
+    if (activeAccount?.providerId === walletId && activeAccount.address === account.address) {
+      wallet.activeAccount = toAccount(account)
+    }
+    wallets[walletId] = wallet
+  }
+
+  return {
+    wallets,
+    activeWallet:
+      activeAccount && wallets[activeAccount.providerId as WalletKey]
+        ? activeAccount.providerId
+        : null,
+    activeNetwork,
+    customNetworkConfigs: {}
+  }
+}
@@ -0,0 +1,43 @@
+import algosdk from 'algosdk'
+import { InvalidInputError } from 'src/errors'
+import type { MultisigMetadata } from 'src/wallets/types'
+
+/**
+ * Get the address of a multisig account. Throws an `InvalidInputError` if the metadata
+ * is invalid, e.g. if the threshold is higher than the number of members.
+ */
+export function getMultisigAddress(metadata: MultisigMetadata): string {
+  try {
+    return algosdk.multisigAddress(metadata).toString()
+  } catch (error: any) {
+    throw new InvalidInputError(`Invalid multisig account: ${error.message}`, { cause: error })
+  }
+}
+
+/** Count the members that have signed a multisig transaction */
+export function countMultisigSignatures({ msig }: algosdk.SignedTransaction): number {
+  return msig?.subsig.filter((subsig) => subsig.s).length ?? 0
+}
+
+/**
+ * Merge partially signed copies of a multisig transaction into one transaction with all
+ * of their signatures.
+ */
+export function mergeMultisigSignatures(signedTxns: Uint8Array[]): Uint8Array {
+  if (signedTxns.length === 1) {
+    return signedTxns[0]
+  }
+  try {
+    return algosdk.mergeMultisigTransactions(signedTxns)
+  } catch (error: any) {
+    throw new InvalidInputError(`Could not merge multisig signatures: ${error.message}`, {
+      cause: error
+    })
+  }
+}
+
+/** Key for a partially signed group: its group ID, or the ID of its only transaction */
+export function getPendingGroupId(txns: algosdk.Transaction[]): string {
+  const [txn] = txns
+  return txn.group ? algosdk.bytesToBase64(txn.group) : txn.txID()
+}
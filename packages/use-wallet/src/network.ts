@@ -1,14 +1,31 @@
 import algosdk from 'algosdk'
 
-export interface AlgodConfig {
+export interface AlgodEndpoint {
   token: string | algosdk.AlgodTokenHeader | algosdk.CustomTokenHeader | algosdk.BaseHTTPClient
   baseServer: string
   port?: string | number
   headers?: Record<string, string>
 }
 
+export interface AlgodConfig extends AlgodEndpoint {
+  /**
+   * Backup endpoints, in order of preference. The health checker switches to the first
+   * healthy one while the endpoints before it are unhealthy.
+   */
+  fallbacks?: AlgodEndpoint[]
+}
+
+export interface IndexerConfig {
+  token: string | algosdk.IndexerTokenHeader | algosdk.CustomTokenHeader | algosdk.BaseHTTPClient
+  baseServer: string
+  port?: string | number
+  headers?: Record<string, string>
+}
+
 export interface NetworkConfig {
   algod: AlgodConfig
+  /** Indexer for the network. Without it, the manager's `indexerClient` is null. */
+  indexer?: IndexerConfig
   genesisHash?: string
   genesisId?: string
   isTestnet?: boolean
@@ -23,6 +40,11 @@ export const DEFAULT_NETWORK_CONFIG: Record<string, NetworkConfig> = {
       baseServer: 'https://mainnet-api.4160.nodely.dev',
       headers: {}
     },
+    indexer: {
+      token: '',
+      baseServer: 'https://mainnet-idx.4160.nodely.dev',
+      headers: {}
+    },
     isTestnet: false,
     genesisHash: 'wGHE2Pwdvd7S12BL5FaOP20EGYesN73ktiC1qzkkit8=',
     genesisId: 'mainnet-v1.0',
@@ -34,6 +56,11 @@ export const DEFAULT_NETWORK_CONFIG: Record<string, NetworkConfig> = {
       baseServer: 'https://testnet-api.4160.nodely.dev',
       headers: {}
     },
+    indexer: {
+      token: '',
+      baseServer: 'https://testnet-idx.4160.nodely.dev',
+      headers: {}
+    },
     isTestnet: true,
     genesisHash: 'SGO1GKSzyE7IEPItTxCByw9x8FmnrCDexi9/cOUJOiI=',
     genesisId: 'testnet-v1.0',
@@ -45,6 +72,11 @@ export const DEFAULT_NETWORK_CONFIG: Record<string, NetworkConfig> = {
       baseServer: 'https://betanet-api.4160.nodely.dev',
       headers: {}
     },
+    indexer: {
+      token: '',
+      baseServer: 'https://betanet-idx.4160.nodely.dev',
+      headers: {}
+    },
     isTestnet: true,
     genesisHash: 'mFgazF-2uRS1tMiL9dsj01hJGySEmPN2OvOTQHJ6iQg=',
     genesisId: 'betanet-v1.0',
@@ -68,6 +100,12 @@ export const DEFAULT_NETWORK_CONFIG: Record<string, NetworkConfig> = {
       port: 4001,
       headers: {}
     },
+    indexer: {
+      token: 'a'.repeat(64),
+      baseServer: 'http://localhost',
+      port: 8980,
+      headers: {}
+    },
     isTestnet: true
   }
 }
@@ -96,6 +134,10 @@ export class NetworkConfigBuilder {
       algod: {
         ...DEFAULT_NETWORK_CONFIG.mainnet.algod,
         ...(config.algod || {})
+      },
+      indexer: {
+        ...DEFAULT_NETWORK_CONFIG.mainnet.indexer!,
+        ...(config.indexer || {})
       }
     })
     return this
@@ -111,6 +153,10 @@ export class NetworkConfigBuilder {
       algod: {
         ...DEFAULT_NETWORK_CONFIG.testnet.algod,
         ...(config.algod || {})
+      },
+      indexer: {
+        ...DEFAULT_NETWORK_CONFIG.testnet.indexer!,
+        ...(config.indexer || {})
       }
     })
     return this
@@ -126,6 +172,10 @@ export class NetworkConfigBuilder {
       algod: {
         ...DEFAULT_NETWORK_CONFIG.betanet.algod,
         ...(config.algod || {})
+      },
+      indexer: {
+        ...DEFAULT_NETWORK_CONFIG.betanet.indexer!,
+        ...(config.indexer || {})
       }
     })
     return this
@@ -153,6 +203,10 @@ export class NetworkConfigBuilder {
       algod: {
         ...DEFAULT_NETWORK_CONFIG.localnet.algod,
         ...(config.algod || {})
+      },
+      indexer: {
+        ...DEFAULT_NETWORK_CONFIG.localnet.indexer!,
+        ...(config.indexer || {})
       }
     })
     return this
@@ -177,7 +231,18 @@ export class NetworkConfigBuilder {
 // Create a default builder with common presets
 export const createNetworkConfig = () => new NetworkConfigBuilder().build()
 
-// Check if the algod token is valid
+/** Every endpoint in an algod config: the primary endpoint, then its fallbacks */
+export function getAlgodEndpoints({ fallbacks = [], ...primary }: AlgodConfig): AlgodEndpoint[] {
+  return [primary, ...fallbacks]
+}
+
+/** Compare genesis hashes, which may be in standard or URL-safe base64 */
+export function isSameGenesisHash(a: string, b: string): boolean {
+  const normalize = (hash: string) => hash.replace(/-/g, '+').replace(/_/g, '/')
+  return normalize(a) === normalize(b)
+}
+
+// Check if the algod or indexer token is valid
 function isValidToken(
   token: unknown
 ): token is string | algosdk.AlgodTokenHeader | algosdk.CustomTokenHeader | algosdk.BaseHTTPClient {
@@ -194,20 +259,32 @@ function isValidToken(
   return Object.values(token).every((value) => typeof value === 'string')
 }
 
+// Check if an algod or indexer endpoint is valid
+function isValidEndpoint(endpoint: unknown): endpoint is AlgodEndpoint {
+  return (
+    typeof endpoint === 'object' &&
+    endpoint !== null &&
+    isValidToken((endpoint as AlgodEndpoint).token) &&
+    typeof (endpoint as AlgodEndpoint).baseServer === 'string'
+  )
+}
+
 // Type guard for runtime validation
 export function isNetworkConfig(config: unknown): config is NetworkConfig {
   if (typeof config !== 'object' || config === null) return false
 
-  const { algod, isTestnet, genesisHash, genesisId, caipChainId } = config as NetworkConfig
+  const { algod, indexer, isTestnet, genesisHash, genesisId, caipChainId } = config as NetworkConfig
 
   const isValidAlgod =
-    typeof algod === 'object' &&
-    algod !== null &&
-    isValidToken(algod.token) &&
-    typeof algod.baseServer === 'string'
+    isValidEndpoint(algod) &&
+    (algod.fallbacks === undefined ||
+      (Array.isArray(algod.fallbacks) && algod.fallbacks.every(isValidEndpoint)))
+
+  const isValidIndexer = indexer === undefined || isValidEndpoint(indexer)
 
   return (
     isValidAlgod &&
+    isValidIndexer &&
     (isTestnet === undefined || typeof isTestnet === 'boolean') &&
     (genesisHash === undefined || typeof genesisHash === 'string') &&
     (genesisId === undefined || typeof genesisId === 'string') &&
@@ -0,0 +1,136 @@
+import type algosdk from 'algosdk'
+import { PolicyViolationError, UserRejectedError } from 'src/errors'
+import { decodeTransaction } from 'src/validation'
+
+/** What to do with a transaction that matches a policy rule */
+export type PolicyAction = 'allow' | 'confirm' | 'reject'
+
+export type PolicyRule = 'rekey' | 'closeAccount' | 'closeAsset' | 'clawback' | 'appCall'
+
+export interface SigningPolicy {
+  /** Transactions that rekey the sender's account (default: 'reject') */
+  rekey?: PolicyAction | undefined
+  /** Payments that close the sender's account (default: 'confirm') */
+  closeAccount?: PolicyAction | undefined
+  /** Asset transfers that close out the sender's asset holding (default: 'confirm') */
+  closeAsset?: PolicyAction | undefined
+  /** Asset transfers that claw back another account's asset holding (default: 'confirm') */
+  clawback?: PolicyAction | undefined
+  /** App calls to apps not in `allowedAppIds`. Only checked if `allowedAppIds` is set (default: 'reject') */
+  appCall?: PolicyAction | undefined
+  /** Apps that may be called. App creation calls use app ID 0. */
+  allowedAppIds?: (number | bigint)[] | undefined
+}
+
+/** Signing policies for each network, by network ID */
+export type SigningPolicies = Partial<Record<string, SigningPolicy>>
+
+export interface PolicyViolation {
+  /** Index of the transaction, counted across all groups */
+  index: number
+  rule: PolicyRule
+  action: Exclude<PolicyAction, 'allow'>
+  message: string
+}
+
+const DEFAULT_ACTIONS: Record<PolicyRule, PolicyAction> = {
+  rekey: 'reject',
+  closeAccount: 'confirm',
+  closeAsset: 'confirm',
+  clawback: 'confirm',
+  appCall: 'reject'
+}
+
+/**
+ * Find the transactions a signing policy rejects or wants confirmed. Only transactions
+ * in `indexesToSign` are checked, or all of them if it isn't set.
+ */
+export function evaluateSigningPolicy<T extends algosdk.Transaction[] | Uint8Array[]>(
+  txnGroup: T | T[],
+  policy: SigningPolicy,
+  indexesToSign?: number[]
+): PolicyViolation[] {
+  const txns = (txnGroup as unknown[]).flat() as (algosdk.Transaction | Uint8Array)[]
+  const allowedAppIds = policy.allowedAppIds?.map(BigInt)
+  const violations: PolicyViolation[] = []
+
+  const check = (index: number, rule: PolicyRule, message: string) => {
+    const action = policy[rule] ?? DEFAULT_ACTIONS[rule]
+    if (action !== 'allow') {
+      violations.push({ index, rule, action, message })
+    }
+  }
+
+  txns.forEach((encodedTxn, index) => {
+    if (indexesToSign && !indexesToSign.includes(index)) {
+      return
+    }
+    const txn = decodeTransaction(encodedTxn, index)
+
+    if (txn.rekeyTo) {
+      check(index, 'rekey', `Transaction ${index} rekeys ${txn.sender} to ${txn.rekeyTo}`)
+    }
+    if (txn.payment?.closeRemainderTo) {
+      check(
+        index,
+        'closeAccount',
+        `Transaction ${index} closes ${txn.sender} and sends its balance to ${txn.payment.closeRemainderTo}`
+      )
+    }
+    if (txn.assetTransfer?.closeRemainderTo) {
+      check(
+        index,
+        'closeAsset',
+        `Transaction ${index} closes out asset ${txn.assetTransfer.assetIndex} to ${txn.assetTransfer.closeRemainderTo}`
+      )
+    }
+    if (txn.assetTransfer?.assetSender) {
+      check(
+        index,
+        'clawback',
+        `Transaction ${index} claws back asset ${txn.assetTransfer.assetIndex} from ${txn.assetTransfer.assetSender}`
+      )
+    }
+    if (txn.applicationCall && allowedAppIds) {
+      const { appIndex } = txn.applicationCall
+      if (!allowedAppIds.includes(appIndex)) {
+        check(index, 'appCall', `Transaction ${index} calls app ${appIndex}, which is not allowed`)
+      }
+    }
+  })
+
+  return violations
+}
+
+/**
+ * Apply a signing policy. Throws a `PolicyViolationError` if a transaction is rejected,
+ * or if one needs confirmation and there is no `confirm` callback. Throws a
+ * `UserRejectedError` if the user doesn't confirm.
+ */
+export async function enforceSigningPolicy<T extends algosdk.Transaction[] | Uint8Array[]>(
+  txnGroup: T | T[],
+  policy: SigningPolicy,
+  indexesToSign?: number[],
+  confirm?: (violations: PolicyViolation[]) => Promise<boolean>
+): Promise<void> {
+  const violations = evaluateSigningPolicy(txnGroup, policy, indexesToSign)
+
+  const rejected = violations.find((violation) => violation.action === 'reject')
+  if (rejected) {
+    throw new PolicyViolationError(rejected.message, { data: { violations } })
+  }
+
+  if (violations.length === 0) {
+    return
+  }
+  if (!confirm) {
+    throw new PolicyViolationError(`${violations[0].message}, and no confirmation handler is set`, {
+      data: { violations }
+    })
+  }
+  if (!(await confirm(violations))) {
+    throw new UserRejectedError('User declined transactions flagged by the signing policy', {
+      data: { violations }
+    })
+  }
+}
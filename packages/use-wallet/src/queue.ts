@@ -0,0 +1,104 @@
+import { RequestCanceledError } from 'src/errors'
+
+export interface QueuedRequestOptions {
+  /** Requests with the same key share the result of the one already queued or in progress */
+  key?: string | undefined
+  /** Cancels the request while it is waiting in the queue */
+  signal?: AbortSignal | undefined
+}
+
+interface QueuedRequest {
+  key: string | undefined
+  run: () => Promise<unknown>
+  promise: Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+  removeAbortListener?: () => void
+}
+
+/**
+ * Runs requests one at a time, in the order they were added. Wallets use it so
+ * overlapping signing requests don't reach the wallet at the same time.
+ */
+export class RequestQueue {
+  private queued: QueuedRequest[] = []
+  private active: QueuedRequest | null = null
+
+  constructor(private onSizeChange: (size: number) => void = () => {}) {}
+
+  /** Number of queued and in-progress requests */
+  public get size(): number {
+    return this.queued.length + (this.active ? 1 : 0)
+  }
+
+  public add<T>(run: () => Promise<T>, { key, signal }: QueuedRequestOptions = {}): Promise<T> {
+    if (key !== undefined) {
+      const existing = [this.active, ...this.queued].find((request) => request?.key === key)
+      if (existing) {
+        return existing.promise as Promise<T>
+      }
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCanceledError())
+    }
+
+    let resolve!: (value: unknown) => void
+    let reject!: (reason: unknown) => void
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+    const request: QueuedRequest = { key, run, promise, resolve, reject }
+
+    if (signal) {
+      const onAbort = () => this.cancel(request)
+      signal.addEventListener('abort', onAbort, { once: true })
+      request.removeAbortListener = () => signal.removeEventListener('abort', onAbort)
+    }
+
+    this.queued.push(request)
+    this.onSizeChange(this.size)
+    this.next()
+
+    return promise as Promise<T>
+  }
+
+  /** Cancel all requests waiting in the queue. The request in progress is not affected. */
+  public clear(): void {
+    for (const request of [...this.queued]) {
+      this.cancel(request)
+    }
+  }
+
+  private cancel(request: QueuedRequest): void {
+    const index = this.queued.indexOf(request)
+    if (index === -1) {
+      return
+    }
+    this.queued.splice(index, 1)
+    request.removeAbortListener?.()
+    request.reject(new RequestCanceledError())
+    this.onSizeChange(this.size)
+  }
+
+  private async next(): Promise<void> {
+    if (this.active || this.queued.length === 0) {
+      return
+    }
+
+    const request = this.queued.shift()!
+    request.removeAbortListener?.()
+    this.active = request
+
+    try {
+      request.resolve(await request.run())
+    } catch (error) {
+      request.reject(error)
+    } finally {
+      this.active = null
+      this.onSizeChange(this.size)
+      this.next()
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import { SessionStorageBackend, type StorageBackend } from 'src/storage'
+import { base64ToByteArray, byteArrayToBase64 } from 'src/utils'
+import type { AlgodEndpoint, IndexerConfig, NetworkConfig } from 'src/network'
+
+/**
+ * How algod and indexer tokens and headers are persisted:
+ * - `plaintext`: with the rest of the network config
+ * - `exclude`: not persisted, so they're lost when the page reloads
+ * - `session`: in `sessionStorage`, until the browser tab is closed
+ * - `encrypt`: encrypted with a WebCrypto key held in IndexedDB
+ */
+export type NodeSecretsMode = 'plaintext' | 'exclude' | 'session' | 'encrypt'
+
+type Endpoint = AlgodEndpoint | IndexerConfig
+
+export type EndpointSecrets<T extends Endpoint = AlgodEndpoint> = Partial<
+  Pick<T, 'token' | 'headers'>
+>
+
+/** Tokens and headers of a network's algod and indexer endpoints */
+export interface NetworkSecrets {
+  algod?: EndpointSecrets
+  /** Secrets of each fallback algod endpoint, by index */
+  fallbacks?: (EndpointSecrets | null)[]
+  indexer?: EndpointSecrets<IndexerConfig>
+}
+
+export type NetworkSecretsMap = Record<string, NetworkSecrets>
+
+/** Where the secrets left out of persisted state are kept */
+export interface NetworkSecretStore {
+  load(): NetworkSecretsMap | Promise<NetworkSecretsMap>
+  save(secrets: NetworkSecretsMap): void | Promise<void>
+}
+
+export const NODE_SECRETS_STORAGE_KEY = '@txnlab/use-wallet:v4:secrets'
+
+function getEndpointSecrets<T extends Endpoint>({ token, headers }: T): EndpointSecrets<T> | null {
+  const secrets: EndpointSecrets<T> = {}
+  if (token) {
+    secrets.token = token
+  }
+  if (headers && Object.keys(headers).length > 0) {
+    secrets.headers = headers
+  }
+  return Object.keys(secrets).length > 0 ? secrets : null
+}
+
+// Remove an endpoint's headers, and empty its token (or remove it, with `omitToken`)
+function omitEndpointSecrets<T extends Endpoint>(endpoint: T, omitToken = false): T {
+  const result: Partial<Endpoint> = { ...endpoint, token: '' }
+  delete result.headers
+  if (omitToken) {
+    delete result.token
+  }
+  return result as T
+}
+
+/** Tokens and headers in a network config, or null if it has none */
+export function getNetworkSecrets(config: Partial<NetworkConfig>): NetworkSecrets | null {
+  const secrets: NetworkSecrets = {}
+
+  const algodSecrets = config.algod && getEndpointSecrets(config.algod)
+  if (algodSecrets) {
+    secrets.algod = algodSecrets
+  }
+  const fallbackSecrets = config.algod?.fallbacks?.map(getEndpointSecrets) ?? []
+  if (fallbackSecrets.some((fallback) => fallback !== null)) {
+    secrets.fallbacks = fallbackSecrets
+  }
+  const indexerSecrets = config.indexer && getEndpointSecrets(config.indexer)
+  if (indexerSecrets) {
+    secrets.indexer = indexerSecrets
+  }
+
+  return Object.keys(secrets).length > 0 ? secrets : null
+}
+
+/**
+ * Remove tokens and headers from a network config before it's persisted. Endpoints
+ * in the base config keep no token at all, so the base token applies until the
+ * secrets are restored; other endpoints get an empty token to stay valid.
+ */
+export function omitNetworkSecrets(
+  config: Partial<NetworkConfig>,
+  baseConfig: NetworkConfig | undefined
+): Partial<NetworkConfig> {
+  const result = { ...config }
+  if (config.algod) {
+    result.algod = omitEndpointSecrets(config.algod, !!baseConfig)
+    if (config.algod.fallbacks) {
+      result.algod.fallbacks = config.algod.fallbacks.map((fallback) =>
+        omitEndpointSecrets(fallback)
+      )
+    }
+  }
+  if (config.indexer) {
+    result.indexer = omitEndpointSecrets(config.indexer, !!baseConfig?.indexer)
+  }
+  return result
+}
+
+/** Put tokens and headers back into a network config */
+export function restoreNetworkSecrets(
+  config: NetworkConfig,
+  secrets: NetworkSecrets
+): NetworkConfig {
+  const { fallbacks } = config.algod
+  return {
+    ...config,
+    algod: {
+      ...config.algod,
+      ...secrets.algod,
+      ...(fallbacks && {
+        fallbacks: fallbacks.map((fallback, i) => ({ ...fallback, ...secrets.fallbacks?.[i] }))
+      })
+    },
+    ...(config.indexer && { indexer: { ...config.indexer, ...secrets.indexer } })
+  }
+}
+
+/**
+ * Keeps secrets as JSON in a storage backend, e.g. `sessionStorage`.
+ */
+export class StorageSecretStore implements NetworkSecretStore {
+  private storage: StorageBackend
+  private storageKey: string
+
+  constructor(storage: StorageBackend, storageKey = NODE_SECRETS_STORAGE_KEY) {
+    this.storage = storage
+    this.storageKey = storageKey
+  }
+
+  load(): NetworkSecretsMap | Promise<NetworkSecretsMap> {
+    const value = this.storage.getItem(this.storageKey)
+    return value instanceof Promise ? value.then(parseSecrets) : parseSecrets(value)
+  }
+
+  save(secrets: NetworkSecretsMap): void | Promise<void> {
+    return Object.keys(secrets).length > 0
+      ? this.storage.setItem(this.storageKey, JSON.stringify(secrets))
+      : this.storage.removeItem(this.storageKey)
+  }
+}
+
+function parseSecrets(value: string | null): NetworkSecretsMap {
+  return value === null ? {} : JSON.parse(value)
+}
+
+export interface EncryptedSecretStoreOptions {
+  /** Storage backend for the encrypted secrets */
+  storage: StorageBackend
+  storageKey?: string
+  /** Returns the AES-GCM key. Defaults to a non-extractable key held in IndexedDB. */
+  getKey?: () => Promise<CryptoKey>
+}
+
+/**
+ * Keeps secrets encrypted with AES-GCM. Only the ciphertext is written to the storage
+ * backend; the key can't be exported from the browser.
+ */
+export class EncryptedSecretStore implements NetworkSecretStore {
+  private storage: StorageBackend
+  private storageKey: string
+  private getKey: () => Promise<CryptoKey>
+  private keyPromise: Promise<CryptoKey> | null = null
+  private pendingSave: Promise<void> = Promise.resolve()
+
+  constructor({
+    storage,
+    storageKey = NODE_SECRETS_STORAGE_KEY,
+    getKey = getIndexedDBKey
+  }: EncryptedSecretStoreOptions) {
+    this.storage = storage
+    this.storageKey = storageKey
+    this.getKey = getKey
+  }
+
+  private loadKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.getKey()
+      // Allow retrying if the key could not be loaded
+      this.keyPromise.catch(() => {
+        this.keyPromise = null
+      })
+    }
+    return this.keyPromise
+  }
+
+  async load(): Promise<NetworkSecretsMap> {
+    const value = await this.storage.getItem(this.storageKey)
+    if (value === null) {
+      return {}
+    }
+    const { iv, data } = JSON.parse(value)
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(base64ToByteArray(iv)) },
+      await this.loadKey(),
+      new Uint8Array(base64ToByteArray(data))
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext))
+  }
+
+  save(secrets: NetworkSecretsMap): Promise<void> {
+    // Save in order, so an earlier save can't overwrite a later one
+    this.pendingSave = this.pendingSave
+      .catch(() => {})
+      .then(async () => {
+        if (Object.keys(secrets).length === 0) {
+          await this.storage.removeItem(this.storageKey)
+          return
+        }
+        const iv = crypto.getRandomValues(new Uint8Array(12))
+        const ciphertext = await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv },
+          await this.loadKey(),
+          new TextEncoder().encode(JSON.stringify(secrets))
+        )
+        await this.storage.setItem(
+          this.storageKey,
+          JSON.stringify({
+            iv: byteArrayToBase64(iv),
+            data: byteArrayToBase64(new Uint8Array(ciphertext))
+          })
+        )
+      })
+    return this.pendingSave
+  }
+}
+
+const KEY_DB_NAME = 'use-wallet-keys'
+const KEY_STORE_NAME = 'keys'
+const KEY_ID = 'node-secrets'
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Get the node secrets key from IndexedDB, creating a non-extractable AES-GCM key the
+ * first time.
+ */
+export async function getIndexedDBKey(): Promise<CryptoKey> {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error('IndexedDB is not available')
+  }
+  const request = indexedDB.open(KEY_DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(KEY_STORE_NAME)
+  }
+  const db = await requestToPromise(request)
+  const getStoredKey = () =>
+    requestToPromise<CryptoKey | undefined>(
+      db.transaction(KEY_STORE_NAME).objectStore(KEY_STORE_NAME).get(KEY_ID)
+    )
+
+  const storedKey = await getStoredKey()
+  if (storedKey) {
+    return storedKey
+  }
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt'
+  ])
+  try {
+    await requestToPromise(
+      db.transaction(KEY_STORE_NAME, 'readwrite').objectStore(KEY_STORE_NAME).add(key, KEY_ID)
+    )
+    return key
+  } catch {
+    // Another tab stored a key first
+    const otherKey = await getStoredKey()
+    if (!otherKey) {
+      throw new Error('Could not store the node secrets key')
+    }
+    return otherKey
+  }
+}
+
+/** Create the store for a `nodeSecrets` mode, or null if secrets are persisted in plaintext */
+export function createSecretStore(
+  mode: NodeSecretsMode,
+  storage: StorageBackend
+): NetworkSecretStore | null {
+  switch (mode) {
+    case 'exclude':
+      return { load: () => ({}), save: () => {} }
+    case 'session':
+      return new StorageSecretStore(new SessionStorageBackend())
+    case 'encrypt':
+      return new EncryptedSecretStore({ storage })
+    default:
+      return null
+  }
+}
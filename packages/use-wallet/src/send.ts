@@ -0,0 +1,98 @@
+import algosdk from 'algosdk'
+import { TimeoutError, TransactionRejectedError } from 'src/errors'
+
+/** Prefix of the log holding an ARC-4 method's return value */
+const RETURN_PREFIX = new Uint8Array([0x15, 0x1f, 0x7c, 0x75])
+
+export interface SendTransactionsOptions {
+  /** Number of rounds to wait for the transactions to be confirmed. Defaults to 4. */
+  waitRounds?: number | undefined
+  /** Called with each group once algod has accepted it */
+  onSubmitted?: ((signedTxns: Uint8Array[]) => void) | undefined
+}
+
+export interface SendTransactionsResult {
+  /** IDs of the submitted transactions */
+  txIds: string[]
+  /** Round in which the transactions were confirmed (the latest, for several groups) */
+  confirmedRound: bigint
+  /**
+   * ARC-4 return value logged by each app call, without its prefix, or null for
+   * transactions that didn't log one
+   */
+  returnLogs: (Uint8Array | null)[]
+  /** Confirmation responses from algod, one for each transaction */
+  confirmations: algosdk.modelsv2.PendingTransactionResponse[]
+}
+
+/**
+ * Submit signed transactions and wait for them to be confirmed. Nested arrays are
+ * submitted as separate groups. Throws a `TransactionRejectedError` if algod rejects
+ * a group, and a `TimeoutError` if a transaction isn't confirmed within `waitRounds`.
+ */
+export async function sendTransactions(
+  signedTxns: Uint8Array[] | Uint8Array[][],
+  algodClient: algosdk.Algodv2,
+  { waitRounds = 4, onSubmitted }: SendTransactionsOptions = {}
+): Promise<SendTransactionsResult> {
+  const groups = (signedTxns[0] instanceof Uint8Array ? [signedTxns] : signedTxns) as Uint8Array[][]
+
+  for (const group of groups) {
+    try {
+      await algodClient.sendRawTransaction(group).do()
+    } catch (error: any) {
+      const message = error.response?.body?.message ?? error.message
+      throw new TransactionRejectedError(`Transaction rejected: ${message}`, { cause: error })
+    }
+    onSubmitted?.(group)
+  }
+
+  const txIds = groups.flat().map((txn) => algosdk.decodeSignedTransaction(txn).txn.txID())
+  const confirmations = await waitForConfirmations(algodClient, txIds, waitRounds)
+
+  return {
+    txIds,
+    confirmedRound: confirmations.reduce(
+      (round, { confirmedRound }) => (confirmedRound! > round ? confirmedRound! : round),
+      BigInt(0)
+    ),
+    returnLogs: confirmations.map(getReturnLog),
+    confirmations
+  }
+}
+
+async function waitForConfirmations(
+  algodClient: algosdk.Algodv2,
+  txIds: string[],
+  waitRounds: number
+): Promise<algosdk.modelsv2.PendingTransactionResponse[]> {
+  const confirmations = new Map<string, algosdk.modelsv2.PendingTransactionResponse>()
+  const { lastRound } = await algodClient.status().do()
+  const lastWaitRound = lastRound + BigInt(waitRounds)
+
+  for (let round = lastRound; ; round++) {
+    for (const txId of txIds.filter((txId) => !confirmations.has(txId))) {
+      const pendingInfo = await algodClient.pendingTransactionInformation(txId).do()
+      if (pendingInfo.confirmedRound) {
+        confirmations.set(txId, pendingInfo)
+      } else if (pendingInfo.poolError) {
+        throw new TransactionRejectedError(`Transaction ${txId} rejected: ${pendingInfo.poolError}`)
+      }
+    }
+    if (confirmations.size === txIds.length) {
+      return txIds.map((txId) => confirmations.get(txId)!)
+    }
+    if (round >= lastWaitRound) {
+      throw new TimeoutError(`Transactions not confirmed after ${waitRounds} rounds`)
+    }
+    await algodClient.statusAfterBlock(round).do()
+  }
+}
+
+function getReturnLog({ logs }: algosdk.modelsv2.PendingTransactionResponse): Uint8Array | null {
+  const log = logs?.[logs.length - 1]
+  if (!log || !RETURN_PREFIX.every((byte, i) => log[i] === byte)) {
+    return null
+  }
+  return log.slice(RETURN_PREFIX.length)
+}
@@ -0,0 +1,119 @@
+import algosdk from 'algosdk'
+import { decodeSignedTransaction } from 'src/validation'
+
+export interface BalanceChange {
+  address: string
+  /** Asset ID, or 0 for Algo */
+  assetId: bigint
+  /** Change in the account's balance, in microAlgos or the asset's base units */
+  amount: bigint
+}
+
+export interface SimulationResult {
+  /** Whether algod would approve every transaction */
+  success: boolean
+  /** Why the transactions would fail, if they would */
+  failureMessage?: string | undefined
+  /**
+   * Path to the transaction that would fail: its index, counted across all groups,
+   * followed by the index of each inner transaction
+   */
+  failedAt?: number[] | undefined
+  /** App call budget used by all transactions */
+  appBudgetConsumed: number
+  /** Algo and asset balance changes, including fees and inner transactions */
+  balanceChanges: BalanceChange[]
+  /** Responses from algod, one for each group */
+  responses: algosdk.modelsv2.SimulateResponse[]
+}
+
+/**
+ * Simulate transactions with algod before they are signed. Missing signatures are
+ * allowed, so unsigned transactions can be simulated. Nested arrays are simulated as
+ * separate groups.
+ */
+export async function simulateTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
+  txnGroup: T | T[],
+  algodClient: algosdk.Algodv2
+): Promise<SimulationResult> {
+  const groups = (Array.isArray(txnGroup[0]) ? txnGroup : [txnGroup]) as T[]
+  const result: SimulationResult = {
+    success: true,
+    appBudgetConsumed: 0,
+    balanceChanges: [],
+    responses: []
+  }
+  const balanceChanges = new Map<string, BalanceChange>()
+  let offset = 0
+
+  for (const group of groups) {
+    const request = new algosdk.modelsv2.SimulateRequest({
+      txnGroups: [
+        new algosdk.modelsv2.SimulateRequestTransactionGroup({
+          txns: group.map((txn, index) => decodeSignedTransaction(txn, offset + index))
+        })
+      ],
+      allowEmptySignatures: true,
+      fixSigners: true
+    })
+    const response = await algodClient.simulateTransactions(request).do()
+    const [groupResult] = response.txnGroups
+
+    result.responses.push(response)
+    result.appBudgetConsumed += groupResult.appBudgetConsumed ?? 0
+    groupResult.txnResults.forEach(({ txnResult }) => addBalanceChanges(balanceChanges, txnResult))
+
+    if (groupResult.failureMessage && result.success) {
+      const [index = 0, ...innerIndexes] = groupResult.failedAt ?? []
+      result.success = false
+      result.failureMessage = groupResult.failureMessage
+      result.failedAt = [offset + index, ...innerIndexes]
+    }
+
+    offset += group.length
+  }
+
+  result.balanceChanges = Array.from(balanceChanges.values()).filter(({ amount }) => amount !== 0n)
+  return result
+}
+
+function addBalanceChanges(
+  changes: Map<string, BalanceChange>,
+  result: algosdk.modelsv2.PendingTransactionResponse
+): void {
+  const add = (address: algosdk.Address | undefined, assetId: bigint, amount: bigint) => {
+    if (!address || amount === 0n) {
+      return
+    }
+    const key = `${address}:${assetId}`
+    const change = changes.get(key) ?? { address: address.toString(), assetId, amount: 0n }
+    change.amount += amount
+    changes.set(key, change)
+  }
+
+  const { txn } = result.txn
+  add(txn.sender, 0n, -txn.fee)
+
+  if (txn.payment) {
+    const { receiver, amount, closeRemainderTo } = txn.payment
+    add(txn.sender, 0n, -amount)
+    add(receiver, 0n, amount)
+    if (closeRemainderTo) {
+      add(txn.sender, 0n, -(result.closingAmount ?? 0n))
+      add(closeRemainderTo, 0n, result.closingAmount ?? 0n)
+    }
+  }
+
+  if (txn.assetTransfer) {
+    const { assetIndex, receiver, amount, assetSender, closeRemainderTo } = txn.assetTransfer
+    const from = assetSender ?? txn.sender
+    add(from, assetIndex, -amount)
+    add(receiver, assetIndex, amount)
+    if (closeRemainderTo) {
+      add(from, assetIndex, -(result.assetClosingAmount ?? 0n))
+      add(closeRemainderTo, assetIndex, result.assetClosingAmount ?? 0n)
+    }
+  }
+
+  result.innerTxns?.forEach((innerResult) => addBalanceChanges(changes, innerResult))
+}
@@ -1,3 +1,22 @@
+/**
+ * A key/value persistence backend used by the WalletManager and wallet providers.
+ *
+ * Methods may return synchronously or asynchronously. When `getItem` returns a Promise,
+ * the WalletManager starts with the default state and hydrates persisted state during
+ * `resumeSessions()`.
+ */
+export interface StorageBackend {
+  getItem(key: string): string | null | Promise<string | null>
+  setItem(key: string, value: string): void | Promise<void>
+  removeItem(key: string): void | Promise<void>
+}
+
+/**
+ * Default storage backend, backed by `window.localStorage`.
+ *
+ * The static methods satisfy the `StorageBackend` interface, so the class itself can be
+ * passed anywhere a `StorageBackend` is expected.
+ */
 export class StorageAdapter {
   static getItem(key: string): string | null {
     if (typeof window === 'undefined') {
@@ -20,3 +39,218 @@ export class StorageAdapter {
     localStorage.removeItem(key)
   }
 }
+
+/**
+ * Non-persistent storage backend. State is kept for the lifetime of the page only.
+ * Useful in Safari private mode, in sandboxed webviews, and in tests.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private items: Map<string, string>
+
+  constructor(initialItems: Record<string, string> = {}) {
+    this.items = new Map(Object.entries(initialItems))
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value)
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key)
+  }
+}
+
+/**
+ * Storage backend backed by `window.sessionStorage`. State is scoped to the browser tab.
+ */
+export class SessionStorageBackend implements StorageBackend {
+  getItem(key: string): string | null {
+    if (typeof window === 'undefined') {
+      return null
+    }
+    return sessionStorage.getItem(key)
+  }
+
+  setItem(key: string, value: string): void {
+    if (typeof window === 'undefined') {
+      return
+    }
+    sessionStorage.setItem(key, value)
+  }
+
+  removeItem(key: string): void {
+    if (typeof window === 'undefined') {
+      return
+    }
+    sessionStorage.removeItem(key)
+  }
+}
+
+export interface IndexedDBStorageOptions {
+  /** Database name (default: 'use-wallet') */
+  dbName?: string
+  /** Object store name (default: 'keyval') */
+  storeName?: string
+}
+
+/**
+ * Asynchronous storage backend backed by IndexedDB.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  private dbName: string
+  private storeName: string
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor({ dbName = 'use-wallet', storeName = 'keyval' }: IndexedDBStorageOptions = {}) {
+    this.dbName = dbName
+    this.storeName = storeName
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'))
+          return
+        }
+        const request = indexedDB.open(this.dbName, 1)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Allow retrying if the database could not be opened
+      this.dbPromise.catch(() => {
+        this.dbPromise = null
+      })
+    }
+    return this.dbPromise
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode)
+      const request = operation(transaction.objectStore(this.storeName))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.withStore<unknown>('readonly', (store) => store.get(key))
+    return typeof value === 'string' ? value : null
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.withStore('readwrite', (store) => store.put(value, key))
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.withStore('readwrite', (store) => store.delete(key))
+  }
+}
+
+export interface CookieStorageOptions {
+  /** Cookie path (default: '/') */
+  path?: string
+  /** Cookie domain */
+  domain?: string
+  /** Cookie lifetime in seconds (default: 1 year) */
+  maxAge?: number
+  /** SameSite attribute (default: 'Lax') */
+  sameSite?: 'Strict' | 'Lax' | 'None'
+  /** Secure attribute (default: true when served over https) */
+  secure?: boolean
+  /**
+   * Returns the raw cookie header. Defaults to `document.cookie`.
+   * Provide this during SSR to read state from the incoming request.
+   */
+  getCookies?: () => string
+  /**
+   * Writes a serialized cookie. Defaults to assigning `document.cookie`.
+   * Provide this during SSR to forward cookies to the outgoing response.
+   */
+  setCookie?: (cookie: string) => void
+}
+
+/**
+ * Storage backend backed by cookies, so persisted state is also readable on the server.
+ * Note that browsers limit cookies to roughly 4KB each.
+ */
+export class CookieStorageBackend implements StorageBackend {
+  private options: CookieStorageOptions
+
+  constructor(options: CookieStorageOptions = {}) {
+    this.options = options
+  }
+
+  private readCookies(): string {
+    if (this.options.getCookies) {
+      return this.options.getCookies()
+    }
+    return typeof document === 'undefined' ? '' : document.cookie
+  }
+
+  private writeCookie(cookie: string): void {
+    if (this.options.setCookie) {
+      this.options.setCookie(cookie)
+    } else if (typeof document !== 'undefined') {
+      document.cookie = cookie
+    }
+  }
+
+  private serialize(key: string, value: string, maxAge: number): string {
+    const {
+      path = '/',
+      domain,
+      sameSite = 'Lax',
+      secure = typeof location !== 'undefined' && location.protocol === 'https:'
+    } = this.options
+
+    const parts = [
+      `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+      `Path=${path}`,
+      `Max-Age=${maxAge}`,
+      `SameSite=${sameSite}`
+    ]
+    if (domain) parts.push(`Domain=${domain}`)
+    if (secure) parts.push('Secure')
+
+    return parts.join('; ')
+  }
+
+  getItem(key: string): string | null {
+    const encodedKey = encodeURIComponent(key)
+    for (const cookie of this.readCookies().split(';')) {
+      const separatorIndex = cookie.indexOf('=')
+      if (separatorIndex === -1) continue
+
+      const name = cookie.slice(0, separatorIndex).trim()
+      if (name === encodedKey) {
+        return decodeURIComponent(cookie.slice(separatorIndex + 1).trim())
+      }
+    }
+    return null
+  }
+
+  setItem(key: string, value: string): void {
+    const { maxAge = 60 * 60 * 24 * 365 } = this.options
+    this.writeCookie(this.serialize(key, value, maxAge))
+  }
+
+  removeItem(key: string): void {
+    this.writeCookie(this.serialize(key, '', 0))
+  }
+}
@@ -1,7 +1,14 @@
 import algosdk from 'algosdk'
+import { emitEvent } from 'src/events'
 import { logger } from 'src/logger'
 import { DEFAULT_NETWORK_CONFIG, NetworkConfig, NetworkId } from 'src/network'
-import { WalletId, type WalletAccount, type WalletKey } from 'src/wallets/types'
+import { getWalletProvider } from 'src/wallets/registry'
+import {
+  WalletId,
+  type MultisigMetadata,
+  type WalletAccount,
+  type WalletKey
+} from 'src/wallets/types'
 import type { Store } from '@tanstack/store'
 
 export type WalletState = {
@@ -11,16 +18,105 @@ export type WalletState = {
 
 export type WalletStateMap = Partial<Record<WalletKey, WalletState>>
 
-export type ManagerStatus = 'initializing' | 'ready'
+export type WalletStatus =
+  | 'idle'
+  | 'connecting'
+  | 'resuming'
+  | 'connected'
+  | 'disconnecting'
+  | 'error'
+
+export type WalletStatusState = {
+  status: WalletStatus
+  /** Error from the last failed connect, resume or disconnect */
+  error: Error | null
+}
+
+export type WalletStatusMap = Partial<Record<WalletKey, WalletStatusState>>
+
+export type WalletAvailabilityMap = Partial<Record<WalletKey, boolean>>
+
+export type PendingRequestsMap = Partial<Record<WalletKey, number>>
+
+/** Registered multisig accounts, by address */
+export type MultisigAccountMap = Partial<Record<string, MultisigMetadata>>
+
+/** Partially signed groups, by group ID, as base64-encoded transactions */
+export type PendingMultisigGroupMap = Partial<Record<string, string[]>>
+
+/**
+ * `unknown` if a group is no longer in algod's pool after its last valid round, and
+ * there is no indexer to check whether it was confirmed
+ */
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'rejected' | 'expired' | 'unknown'
+
+/** A submitted group, tracked until it is confirmed or can no longer be */
+export interface TrackedTransactionGroup {
+  /** Network the group was submitted to */
+  networkId: string
+  txIds: string[]
+  /** Last round in which the group can be confirmed */
+  lastValid: number
+  status: TrackedTransactionStatus
+  /** Round in which the group was confirmed */
+  confirmedRound?: number | undefined
+  /** Why the group was rejected */
+  error?: string | undefined
+  /** Time the group was submitted, in ms since the epoch */
+  submittedAt: number
+}
+
+/** Submitted groups, by the ID of their first transaction */
+export type TrackedTransactionMap = Partial<Record<string, TrackedTransactionGroup>>
+
+export type AlgodEndpointStatus = 'unknown' | 'healthy' | 'unhealthy'
+
+export interface AlgodEndpointHealth {
+  baseServer: string
+  /** `unknown` until the endpoint has been checked */
+  status: AlgodEndpointStatus
+  /** Time of the last check, in ms since the epoch */
+  checkedAt?: number | undefined
+  /** Why the last check failed */
+  error?: string | undefined
+}
+
+/** Health of the active network's algod endpoints */
+export interface AlgodHealth {
+  networkId: string
+  /** Index of the endpoint `algodClient` connects to: 0 for the primary endpoint */
+  activeEndpoint: number
+  /** The primary endpoint, then its fallbacks */
+  endpoints: AlgodEndpointHealth[]
+}
+
+/** `degraded` once sessions have been resumed, if some of them couldn't be */
+export type ManagerStatus = 'initializing' | 'ready' | 'degraded'
 
 export interface State {
   wallets: WalletStateMap
   activeWallet: WalletKey | null
   activeNetwork: string
   algodClient: algosdk.Algodv2
+  algodHealth: AlgodHealth
+  /** Indexer client for the active network, or null if it has no indexer configured */
+  indexerClient: algosdk.Indexer | null
   managerStatus: ManagerStatus
   networkConfig: Record<string, NetworkConfig>
   customNetworkConfigs: Record<string, Partial<NetworkConfig>>
+  /** Keys of the wallets configured in the manager */
+  walletKeys: WalletKey[]
+  /** Whether each wallet can be used in the current environment, once checked */
+  availability: WalletAvailabilityMap
+  /** Connection status of each wallet, once it has connected, resumed or disconnected */
+  walletStatus: WalletStatusMap
+  /** Number of queued and in-progress signing requests for each wallet */
+  pendingRequests: PendingRequestsMap
+  multisigAccounts: MultisigAccountMap
+  /** Multisig groups waiting for more signatures */
+  pendingMultisigGroups: PendingMultisigGroupMap
+  /** Submitted groups and their confirmation status */
+  trackedTransactions: TrackedTransactionMap
 }
 
 export const DEFAULT_STATE: State = {
@@ -28,15 +124,54 @@ export const DEFAULT_STATE: State = {
   activeWallet: null,
   activeNetwork: 'testnet',
   algodClient: new algosdk.Algodv2('', 'https://testnet-api.4160.nodely.dev/'),
+  algodHealth: {
+    networkId: 'testnet',
+    activeEndpoint: 0,
+    endpoints: [{ baseServer: 'https://testnet-api.4160.nodely.dev', status: 'unknown' }]
+  },
+  indexerClient: new algosdk.Indexer('', 'https://testnet-idx.4160.nodely.dev/', ''),
   managerStatus: 'initializing',
   networkConfig: DEFAULT_NETWORK_CONFIG,
-  customNetworkConfigs: {}
+  customNetworkConfigs: {},
+  walletKeys: [],
+  availability: {},
+  walletStatus: {},
+  pendingRequests: {},
+  multisigAccounts: {},
+  pendingMultisigGroups: {},
+  trackedTransactions: {}
 }
 
-export type PersistedState = Omit<State, 'algodClient' | 'managerStatus' | 'networkConfig'>
+export type PersistedState = Omit<
+  State,
+  | 'algodClient'
+  | 'algodHealth'
+  | 'indexerClient'
+  | 'managerStatus'
+  | 'networkConfig'
+  | 'walletKeys'
+  | 'availability'
+  | 'walletStatus'
+  | 'pendingRequests'
+  | 'multisigAccounts'
+  | 'pendingMultisigGroups'
+  | 'trackedTransactions'
+> & {
+  multisigAccounts?: MultisigAccountMap
+  pendingMultisigGroups?: PendingMultisigGroupMap
+  trackedTransactions?: TrackedTransactionMap
+  /** Schema version of the persisted state */
+  version: number
+  /** Version of app-defined migrations applied to the persisted state */
+  appVersion?: number
+}
 
 export const LOCAL_STORAGE_KEY = '@txnlab/use-wallet:v4'
 
+export const LEGACY_V3_STORAGE_KEY = 'txnlab-use-wallet'
+
+export const PERSISTED_STATE_VERSION = 1
+
 // State mutations
 
 export function addWallet(
@@ -58,19 +193,50 @@ export function addWallet(
       activeWallet: walletId
     }
   })
+
+  emitEvent(store, 'connect', {
+    walletKey: walletId,
+    accounts: store.state.wallets[walletId]?.accounts ?? []
+  })
 }
 
 export function removeWallet(store: Store<State>, { walletId }: { walletId: WalletKey }) {
+  const wasConnected = !!store.state.wallets[walletId]
+
   store.setState((state) => {
     const updatedWallets = { ...state.wallets }
     delete updatedWallets[walletId]
 
+    // Wallets disconnected outside of `disconnect` (e.g. by the provider) become idle
+    const walletStatus =
+      state.walletStatus[walletId]?.status === 'connected'
+        ? { ...state.walletStatus, [walletId]: { status: 'idle', error: null } }
+        : state.walletStatus
+
     return {
       ...state,
       wallets: updatedWallets,
-      activeWallet: state.activeWallet === walletId ? null : state.activeWallet
+      activeWallet: state.activeWallet === walletId ? null : state.activeWallet,
+      walletStatus
     }
   })
+
+  if (wasConnected) {
+    emitEvent(store, 'disconnect', { walletKey: walletId })
+  }
+}
+
+/** Remove a wallet's status, availability and pending request count */
+export function removeWalletStatus(store: Store<State>, { walletId }: { walletId: WalletKey }) {
+  store.setState((state) => {
+    const walletStatus = { ...state.walletStatus }
+    const availability = { ...state.availability }
+    const pendingRequests = { ...state.pendingRequests }
+    delete walletStatus[walletId]
+    delete availability[walletId]
+    delete pendingRequests[walletId]
+    return { ...state, walletStatus, availability, pendingRequests }
+  })
 }
 
 export function setActiveWallet(store: Store<State>, { walletId }: { walletId: WalletKey | null }) {
@@ -84,6 +250,8 @@ export function setActiveAccount(
   store: Store<State>,
   { walletId, address }: { walletId: WalletKey; address: string }
 ) {
+  const previousAddress = store.state.wallets[walletId]?.activeAccount?.address
+
   store.setState((state) => {
     const wallet = state.wallets[walletId]
     if (!wallet) {
@@ -113,12 +281,16 @@ export function setActiveAccount(
       wallets: updatedWallets
     }
   })
+
+  emitActiveAccountChanged(store, walletId, previousAddress)
 }
 
 export function setAccounts(
   store: Store<State>,
   { walletId, accounts }: { walletId: WalletKey; accounts: WalletAccount[] }
 ) {
+  const previousWallet = store.state.wallets[walletId]
+
   store.setState((state) => {
     const wallet = state.wallets[walletId]
     if (!wallet) {
@@ -152,19 +324,238 @@ export function setAccounts(
       wallets: updatedWallets
     }
   })
+
+  if (previousWallet) {
+    emitEvent(store, 'accountsChanged', {
+      walletKey: walletId,
+      accounts: store.state.wallets[walletId]?.accounts ?? []
+    })
+    emitActiveAccountChanged(store, walletId, previousWallet.activeAccount?.address)
+  }
+}
+
+export function setAuthAddresses(
+  store: Store<State>,
+  { walletId, authAddrs }: { walletId: WalletKey; authAddrs: Record<string, string | null> }
+) {
+  const withAuthAddr = (account: WalletAccount): WalletAccount => {
+    const updatedAccount = { ...account }
+    const authAddr = authAddrs[account.address]
+    if (authAddr) {
+      updatedAccount.authAddr = authAddr
+    } else if (authAddr === null) {
+      delete updatedAccount.authAddr
+    }
+    return updatedAccount
+  }
+
+  store.setState((state) => {
+    const wallet = state.wallets[walletId]
+    if (!wallet) {
+      return state
+    }
+
+    const updatedWallet = {
+      ...wallet,
+      accounts: wallet.accounts.map(withAuthAddr),
+      activeAccount: wallet.activeAccount ? withAuthAddr(wallet.activeAccount) : null
+    }
+
+    return {
+      ...state,
+      wallets: {
+        ...state.wallets,
+        [walletId]: updatedWallet
+      }
+    }
+  })
 }
 
 export function setActiveNetwork(
   store: Store<State>,
-  { networkId, algodClient }: { networkId: NetworkId | string; algodClient: algosdk.Algodv2 }
+  {
+    networkId,
+    algodClient,
+    algodHealth,
+    indexerClient = null
+  }: {
+    networkId: NetworkId | string
+    algodClient: algosdk.Algodv2
+    algodHealth?: AlgodHealth
+    indexerClient?: algosdk.Indexer | null
+  }
 ) {
+  const previousNetworkId = store.state.activeNetwork
+
   store.setState((state) => ({
     ...state,
     activeNetwork: networkId,
-    algodClient
+    algodClient,
+    ...(algodHealth && { algodHealth }),
+    indexerClient
+  }))
+
+  if (networkId !== previousNetworkId) {
+    emitEvent(store, 'networkChanged', { networkId, previousNetworkId })
+  }
+}
+
+function emitActiveAccountChanged(
+  store: Store<State>,
+  walletId: WalletKey,
+  previousAddress: string | undefined
+) {
+  const account = store.state.wallets[walletId]?.activeAccount ?? null
+  if (account?.address !== previousAddress) {
+    emitEvent(store, 'activeAccountChanged', { walletKey: walletId, account })
+  }
+}
+
+export function setWalletKeys(store: Store<State>, { walletKeys }: { walletKeys: WalletKey[] }) {
+  store.setState((state) => ({
+    ...state,
+    walletKeys
   }))
 }
 
+export function setWalletStatus(
+  store: Store<State>,
+  {
+    walletId,
+    status,
+    error = null
+  }: { walletId: WalletKey; status: WalletStatus; error?: Error | null }
+) {
+  store.setState((state) => ({
+    ...state,
+    walletStatus: {
+      ...state.walletStatus,
+      [walletId]: { status, error }
+    }
+  }))
+}
+
+export function setAvailability(
+  store: Store<State>,
+  { walletId, isAvailable }: { walletId: WalletKey; isAvailable: boolean }
+) {
+  store.setState((state) => ({
+    ...state,
+    availability: {
+      ...state.availability,
+      [walletId]: isAvailable
+    }
+  }))
+}
+
+export function setPendingRequests(
+  store: Store<State>,
+  { walletId, count }: { walletId: WalletKey; count: number }
+) {
+  store.setState((state) => ({
+    ...state,
+    pendingRequests: {
+      ...state.pendingRequests,
+      [walletId]: count
+    }
+  }))
+}
+
+export function setMultisigAccount(
+  store: Store<State>,
+  { address, metadata }: { address: string; metadata: MultisigMetadata }
+) {
+  store.setState((state) => ({
+    ...state,
+    multisigAccounts: {
+      ...state.multisigAccounts,
+      [address]: { ...metadata, addrs: [...metadata.addrs] }
+    }
+  }))
+}
+
+export function removeMultisigAccount(store: Store<State>, { address }: { address: string }) {
+  store.setState((state) => {
+    const multisigAccounts = { ...state.multisigAccounts }
+    delete multisigAccounts[address]
+    return { ...state, multisigAccounts }
+  })
+}
+
+export function setPendingMultisigGroup(
+  store: Store<State>,
+  { groupId, txns }: { groupId: string; txns: string[] }
+) {
+  store.setState((state) => ({
+    ...state,
+    pendingMultisigGroups: {
+      ...state.pendingMultisigGroups,
+      [groupId]: txns
+    }
+  }))
+}
+
+export function removePendingMultisigGroup(store: Store<State>, { groupId }: { groupId: string }) {
+  if (!store.state.pendingMultisigGroups[groupId]) {
+    return
+  }
+  store.setState((state) => {
+    const pendingMultisigGroups = { ...state.pendingMultisigGroups }
+    delete pendingMultisigGroups[groupId]
+    return { ...state, pendingMultisigGroups }
+  })
+}
+
+export function setTrackedTransactionGroup(
+  store: Store<State>,
+  { groupId, group }: { groupId: string; group: TrackedTransactionGroup }
+) {
+  store.setState((state) => ({
+    ...state,
+    trackedTransactions: {
+      ...state.trackedTransactions,
+      [groupId]: { ...group, txIds: [...group.txIds] }
+    }
+  }))
+}
+
+export function updateTrackedTransactionGroup(
+  store: Store<State>,
+  {
+    groupId,
+    update
+  }: {
+    groupId: string
+    update: Partial<Pick<TrackedTransactionGroup, 'status' | 'confirmedRound' | 'error'>>
+  }
+) {
+  const group = store.state.trackedTransactions[groupId]
+  if (!group) {
+    return
+  }
+  store.setState((state) => ({
+    ...state,
+    trackedTransactions: {
+      ...state.trackedTransactions,
+      [groupId]: { ...group, ...update }
+    }
+  }))
+}
+
+export function removeTrackedTransactionGroup(
+  store: Store<State>,
+  { groupId }: { groupId: string }
+) {
+  if (!store.state.trackedTransactions[groupId]) {
+    return
+  }
+  store.setState((state) => {
+    const trackedTransactions = { ...state.trackedTransactions }
+    delete trackedTransactions[groupId]
+    return { ...state, trackedTransactions }
+  })
+}
+
 // Type guards
 
 export function isValidWalletId(walletId: any): walletId is WalletId {
@@ -175,12 +566,16 @@ export function isValidWalletId(walletId: any): walletId is WalletId {
  * Check if a value is a valid WalletKey.
  * A WalletKey can be either:
  * - A standard WalletId enum value
+ * - The ID of a registered third-party wallet provider
  * - A composite string in the format 'walletconnect:skinId'
  */
 export function isValidWalletKey(walletKey: any): walletKey is WalletKey {
   if (isValidWalletId(walletKey)) {
     return true
   }
+  if (typeof walletKey === 'string' && getWalletProvider(walletKey)) {
+    return true
+  }
   // Check for composite key format: walletconnect:skinId
   if (typeof walletKey === 'string' && walletKey.startsWith(`${WalletId.WALLETCONNECT}:`)) {
     const skinId = walletKey.slice(`${WalletId.WALLETCONNECT}:`.length)
@@ -215,7 +610,14 @@ export function isValidPersistedState(state: unknown): state is PersistedState {
     'wallets' in state &&
     'activeWallet' in state &&
     'activeNetwork' in state &&
+    (!('version' in state) || typeof state.version === 'number') &&
     (!('customNetworkConfigs' in state) ||
-      (typeof state.customNetworkConfigs === 'object' && state.customNetworkConfigs !== null))
+      (typeof state.customNetworkConfigs === 'object' && state.customNetworkConfigs !== null)) &&
+    (!('multisigAccounts' in state) ||
+      (typeof state.multisigAccounts === 'object' && state.multisigAccounts !== null)) &&
+    (!('pendingMultisigGroups' in state) ||
+      (typeof state.pendingMultisigGroups === 'object' && state.pendingMultisigGroups !== null)) &&
+    (!('trackedTransactions' in state) ||
+      (typeof state.trackedTransactions === 'object' && state.trackedTransactions !== null))
   )
 }
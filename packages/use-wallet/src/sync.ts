@@ -0,0 +1,89 @@
+import { logger } from 'src/logger'
+
+export const SYNC_CHANNEL_NAME = '@txnlab/use-wallet:sync'
+
+// Identifies this page, so managers in the same tab don't sync with each other
+const TAB_ID = Math.random().toString(36).slice(2)
+
+export interface SyncMessage {
+  tabId: string
+  state: unknown
+}
+
+export interface TabSyncOptions {
+  /** Storage key watched by the `storage` event fallback */
+  storageKey: string
+  /** Called with state received from another tab */
+  onStateChange: (state: unknown) => void
+}
+
+/**
+ * Relays persisted state between tabs of the same origin.
+ *
+ * Uses BroadcastChannel where available. Otherwise falls back to `storage` events, which
+ * only fire for state persisted to localStorage.
+ */
+export class TabSync {
+  private channel: BroadcastChannel | null = null
+  private storageListener: ((event: StorageEvent) => void) | null = null
+  private logger: ReturnType<typeof logger.createScopedLogger>
+
+  constructor({ storageKey, onStateChange }: TabSyncOptions) {
+    this.logger = logger.createScopedLogger('TabSync')
+
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(SYNC_CHANNEL_NAME)
+      this.channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+        if (event.data?.tabId === TAB_ID) {
+          return
+        }
+        this.logger.debug('Received state from another tab')
+        onStateChange(event.data?.state)
+      }
+      return
+    }
+
+    this.storageListener = (event: StorageEvent) => {
+      if (event.key !== storageKey || event.newValue === null) {
+        return
+      }
+      try {
+        onStateChange(JSON.parse(event.newValue))
+      } catch (error: any) {
+        this.logger.warn(`Could not parse state from storage event: ${error.message}`)
+      }
+    }
+    window.addEventListener('storage', this.storageListener)
+  }
+
+  public get isActive(): boolean {
+    return this.channel !== null || this.storageListener !== null
+  }
+
+  /**
+   * Send state to other tabs. With the `storage` event fallback this is a no-op,
+   * since persisting the state notifies other tabs.
+   */
+  public broadcast(state: unknown): void {
+    try {
+      const message: SyncMessage = { tabId: TAB_ID, state }
+      this.channel?.postMessage(message)
+    } catch (error: any) {
+      this.logger.error(`Could not broadcast state: ${error.message}`)
+    }
+  }
+
+  public close(): void {
+    this.channel?.close()
+    this.channel = null
+
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener)
+      this.storageListener = null
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import algosdk from 'algosdk'
+import { logger } from 'src/logger'
+import {
+  removeTrackedTransactionGroup,
+  setTrackedTransactionGroup,
+  updateTrackedTransactionGroup,
+  type State,
+  type TrackedTransactionGroup
+} from 'src/store'
+import type { Store } from '@tanstack/store'
+
+export interface TransactionTrackerOptions {
+  store: Store<State>
+  /** Algod client for a network, or null if the network isn't configured */
+  getAlgodClient: (networkId: string) => algosdk.Algodv2 | null
+  /** Indexer client for a network, or null if it has none */
+  getIndexerClient: (networkId: string) => algosdk.Indexer | null
+  /** Time between checks of pending groups, in ms */
+  pollInterval: number
+  /** Number of finished groups to keep, most recently submitted first (default: 20) */
+  maxFinishedGroups?: number
+}
+
+/**
+ * Records submitted groups in the store and polls algod until each one is confirmed,
+ * rejected, or expires after its last valid round. Tracked groups are persisted, so
+ * tracking continues after the page reloads.
+ *
+ * Algod only keeps confirmed transactions in its pool for a short time, so a group that
+ * is no longer found after its last valid round is looked up in the indexer before it's
+ * marked expired. Without an indexer, its status becomes `unknown`.
+ *
+ * Only the most recently submitted finished groups are kept, so persisted state doesn't
+ * grow without bound.
+ */
+export class TransactionTracker {
+  private store: Store<State>
+  private getAlgodClient: (networkId: string) => algosdk.Algodv2 | null
+  private getIndexerClient: (networkId: string) => algosdk.Indexer | null
+  private pollInterval: number
+  private maxFinishedGroups: number
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private logger: ReturnType<typeof logger.createScopedLogger>
+
+  constructor({
+    store,
+    getAlgodClient,
+    getIndexerClient,
+    pollInterval,
+    maxFinishedGroups = 20
+  }: TransactionTrackerOptions) {
+    this.store = store
+    this.getAlgodClient = getAlgodClient
+    this.getIndexerClient = getIndexerClient
+    this.pollInterval = pollInterval
+    this.maxFinishedGroups = maxFinishedGroups
+    this.logger = logger.createScopedLogger('TransactionTracker')
+  }
+
+  /**
+   * Track signed groups submitted to a network. Nested arrays are tracked as separate
+   * groups. Returns the ID of each group: the ID of its first transaction.
+   */
+  public track(signedTxns: Uint8Array[] | Uint8Array[][], networkId: string): string[] {
+    const groups = (
+      signedTxns[0] instanceof Uint8Array ? [signedTxns] : signedTxns
+    ) as Uint8Array[][]
+    const groupIds = groups.map((group) => {
+      const txns = group.map((signedTxn) => algosdk.decodeSignedTransaction(signedTxn).txn)
+      const txIds = txns.map((txn) => txn.txID())
+      const lastValid = txns.reduce(
+        (round, txn) => (txn.lastValid > round ? txn.lastValid : round),
+        0n
+      )
+      setTrackedTransactionGroup(this.store, {
+        groupId: txIds[0],
+        group: {
+          networkId,
+          txIds,
+          lastValid: Number(lastValid),
+          status: 'pending',
+          submittedAt: Date.now()
+        }
+      })
+      return txIds[0]
+    })
+    this.start()
+    return groupIds
+  }
+
+  /** Mark a group as confirmed without waiting for the next poll */
+  public confirm(groupId: string, confirmedRound: bigint): void {
+    this.finish(groupId, { status: 'confirmed', confirmedRound: Number(confirmedRound) })
+  }
+
+  /** Poll algod while there are pending groups */
+  public start(): void {
+    this.evictFinishedGroups()
+    if (this.timer === null && this.getPendingGroups().length > 0) {
+      const timer = setTimeout(() => {
+        this.poll().finally(() => {
+          // Don't restart if stopped while polling
+          if (this.timer === timer) {
+            this.timer = null
+            this.start()
+          }
+        })
+      }, this.pollInterval)
+      this.timer = timer
+    }
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  /** Check the status of every pending group once */
+  public async poll(): Promise<void> {
+    const networkIds = new Set(this.getPendingGroups().map(([, group]) => group.networkId))
+
+    for (const networkId of networkIds) {
+      const algodClient = this.getAlgodClient(networkId)
+      if (!algodClient) continue
+
+      let lastRound: bigint
+      try {
+        lastRound = (await algodClient.status().do()).lastRound
+      } catch (error: any) {
+        this.logger.warn(`Could not check transactions on ${networkId}: ${error.message}`)
+        continue
+      }
+
+      for (const [groupId, group] of this.getPendingGroups()) {
+        if (group.networkId !== networkId) continue
+        try {
+          await this.checkGroup(algodClient, groupId, group, lastRound)
+        } catch (error: any) {
+          // Keep the group pending, and check it again on the next poll
+          this.logger.warn(`Could not check group ${groupId}: ${error.message}`)
+        }
+      }
+    }
+  }
+
+  private async checkGroup(
+    algodClient: algosdk.Algodv2,
+    groupId: string,
+    group: TrackedTransactionGroup,
+    lastRound: bigint
+  ): Promise<void> {
+    let confirmedRound = 0n
+
+    for (const txId of group.txIds) {
+      const pendingInfo = await this.getPendingInfo(algodClient, txId)
+
+      if (pendingInfo?.poolError) {
+        this.logger.info(`Group ${groupId} rejected: ${pendingInfo.poolError}`)
+        this.finish(groupId, { status: 'rejected', error: pendingInfo.poolError })
+        return
+      }
+
+      let txnConfirmedRound = pendingInfo?.confirmedRound
+
+      if (!txnConfirmedRound) {
+        if (lastRound <= BigInt(group.lastValid)) {
+          return
+        }
+        if (pendingInfo) {
+          this.expire(groupId, group)
+          return
+        }
+
+        // Not in the pool: never received, or confirmed too long ago to be found there
+        const indexerResult = await this.lookupConfirmedRound(group, txId)
+        if (indexerResult === 'pending') {
+          return
+        }
+        if (indexerResult === 'not-found') {
+          this.expire(groupId, group)
+          return
+        }
+        if (indexerResult === 'unknown') {
+          this.logger.warn(`Group ${groupId} is no longer pending, but its status is unknown`)
+          this.finish(groupId, { status: 'unknown' })
+          return
+        }
+        txnConfirmedRound = indexerResult
+      }
+
+      if (txnConfirmedRound > confirmedRound) {
+        confirmedRound = txnConfirmedRound
+      }
+    }
+
+    this.logger.info(`Group ${groupId} confirmed in round ${confirmedRound}`)
+    this.confirm(groupId, confirmedRound)
+  }
+
+  private expire(groupId: string, group: TrackedTransactionGroup): void {
+    this.logger.info(`Group ${groupId} expired after round ${group.lastValid}`)
+    this.finish(groupId, { status: 'expired' })
+  }
+
+  private finish(
+    groupId: string,
+    update: Partial<Pick<TrackedTransactionGroup, 'status' | 'confirmedRound' | 'error'>>
+  ): void {
+    updateTrackedTransactionGroup(this.store, { groupId, update })
+    this.evictFinishedGroups()
+  }
+
+  /** Remove the oldest finished groups beyond `maxFinishedGroups` */
+  private evictFinishedGroups(): void {
+    const finishedGroups = Object.entries(this.store.state.trackedTransactions)
+      .filter((entry): entry is [string, TrackedTransactionGroup] => {
+        const [, group] = entry
+        return !!group && group.status !== 'pending'
+      })
+      .sort(([, a], [, b]) => b.submittedAt - a.submittedAt)
+
+    for (const [groupId] of finishedGroups.slice(this.maxFinishedGroups)) {
+      removeTrackedTransactionGroup(this.store, { groupId })
+    }
+  }
+
+  /** A transaction's pool status, or null if algod doesn't have it (404) */
+  private async getPendingInfo(
+    algodClient: algosdk.Algodv2,
+    txId: string
+  ): Promise<algosdk.modelsv2.PendingTransactionResponse | null> {
+    try {
+      return await algodClient.pendingTransactionInformation(txId).do()
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Look up a transaction that is no longer in algod's pool in the indexer. Returns its
+   * confirmed round, `not-found` if the indexer has passed the group's last valid round
+   * without it, `pending` if the indexer hasn't caught up yet, or `unknown` if there is
+   * no indexer for the network.
+   */
+  private async lookupConfirmedRound(
+    group: TrackedTransactionGroup,
+    txId: string
+  ): Promise<bigint | 'not-found' | 'pending' | 'unknown'> {
+    const indexerClient = this.getIndexerClient(group.networkId)
+    if (!indexerClient) {
+      return 'unknown'
+    }
+
+    try {
+      const { transaction } = await indexerClient.lookupTransactionByID(txId).do()
+      return transaction.confirmedRound ?? 'pending'
+    } catch (error: any) {
+      if (error?.response?.status !== 404) {
+        throw error
+      }
+    }
+
+    const { round } = await indexerClient.makeHealthCheck().do()
+    return round >= BigInt(group.lastValid) ? 'not-found' : 'pending'
+  }
+
+  private getPendingGroups(): [string, TrackedTransactionGroup][] {
+    return Object.entries(this.store.state.trackedTransactions).filter(
+      (entry): entry is [string, TrackedTransactionGroup] => entry[1]?.status === 'pending'
+    )
+  }
+}
@@ -167,3 +167,18 @@ export function deepMerge(target: any, source: any): any {
 
   return target
 }
+
+/**
+ * Reject with `error` if `promise` doesn't settle within `ms` milliseconds.
+ * A timeout of 0 waits indefinitely.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, error: () => Error): Promise<T> {
+  if (ms <= 0) {
+    return promise
+  }
+  let timerId: ReturnType<typeof setTimeout>
+  const timeout = new Promise<never>((_, reject) => {
+    timerId = setTimeout(() => reject(error()), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timerId))
+}
@@ -0,0 +1,138 @@
+import algosdk from 'algosdk'
+import { InvalidInputError, NetworkMismatchError } from 'src/errors'
+import type { NetworkConfig } from 'src/network'
+
+export interface TransactionValidationOptions {
+  /** Check that transactions were built for the active network (default: true) */
+  checkNetwork?: boolean | undefined
+  /** Highest fee allowed for a single transaction, in microAlgos */
+  maxFee?: number | bigint | undefined
+  /** Most rounds allowed between a transaction's first and last valid rounds */
+  maxValidityRounds?: number | bigint | undefined
+}
+
+/**
+ * Check transactions before they are sent to a wallet to be signed. Throws a
+ * `NetworkMismatchError` if a transaction was built for a network other than the active
+ * one, or an `InvalidInputError` if a group's IDs don't match or a transaction exceeds
+ * the fee or validity window limits.
+ *
+ * Nested arrays are validated as separate groups.
+ */
+export function validateTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
+  txnGroup: T | T[],
+  networkConfig: NetworkConfig,
+  options: TransactionValidationOptions = {}
+): void {
+  const groups = (Array.isArray(txnGroup[0]) ? txnGroup : [txnGroup]) as T[]
+  let offset = 0
+
+  for (const group of groups) {
+    const txns = group.map((txn, index) => decodeTransaction(txn, offset + index))
+
+    txns.forEach((txn, index) => {
+      validateTransaction(txn, offset + index, networkConfig, options)
+    })
+    validateGroupId(txns, offset)
+
+    offset += txns.length
+  }
+}
+
+/**
+ * Decode an encoded transaction, signed or unsigned. Throws an `InvalidInputError` if
+ * the bytes aren't a transaction.
+ */
+export function decodeTransaction(
+  txn: algosdk.Transaction | Uint8Array,
+  index: number
+): algosdk.Transaction {
+  return txn instanceof Uint8Array ? decodeSignedTransaction(txn, index).txn : txn
+}
+
+/**
+ * Decode an encoded transaction as a `SignedTransaction`, keeping its signature if it
+ * has one. Unsigned transactions are returned without a signature.
+ */
+export function decodeSignedTransaction(
+  txn: algosdk.Transaction | Uint8Array,
+  index: number
+): algosdk.SignedTransaction {
+  if (!(txn instanceof Uint8Array)) {
+    return new algosdk.SignedTransaction({ txn })
+  }
+  try {
+    const decoded = algosdk.msgpackRawDecode(txn)
+    const isSigned = !!decoded && typeof decoded === 'object' && 'txn' in decoded
+    return isSigned
+      ? algosdk.decodeSignedTransaction(txn)
+      : new algosdk.SignedTransaction({ txn: algosdk.decodeUnsignedTransaction(txn) })
+  } catch (error) {
+    throw new InvalidInputError(`Transaction ${index} could not be decoded`, {
+      cause: error,
+      data: { index, reason: 'encoding' }
+    })
+  }
+}
+
+function validateTransaction(
+  txn: algosdk.Transaction,
+  index: number,
+  networkConfig: NetworkConfig,
+  { checkNetwork = true, maxFee, maxValidityRounds }: TransactionValidationOptions
+): void {
+  if (checkNetwork) {
+    const { genesisHash, genesisId } = networkConfig
+    const txnGenesisHash = txn.genesisHash ? algosdk.bytesToBase64(txn.genesisHash) : undefined
+
+    const isHashMismatch =
+      !!genesisHash && !!txnGenesisHash && normalizeBase64(genesisHash) !== txnGenesisHash
+    const isIdMismatch = !!genesisId && !!txn.genesisID && genesisId !== txn.genesisID
+
+    if (isHashMismatch || isIdMismatch) {
+      throw new NetworkMismatchError(
+        `Transaction ${index} was built for ${txn.genesisID || txnGenesisHash}, not the active network (${genesisId || genesisHash})`,
+        { data: { index, genesisId: txn.genesisID, genesisHash: txnGenesisHash } }
+      )
+    }
+  }
+
+  if (maxFee !== undefined && txn.fee > BigInt(maxFee)) {
+    throw new InvalidInputError(
+      `Transaction ${index} fee of ${txn.fee} microAlgos exceeds the limit of ${maxFee}`,
+      { data: { index, reason: 'fee' } }
+    )
+  }
+
+  if (
+    maxValidityRounds !== undefined &&
+    txn.lastValid - txn.firstValid > BigInt(maxValidityRounds)
+  ) {
+    throw new InvalidInputError(
+      `Transaction ${index} is valid for ${txn.lastValid - txn.firstValid} rounds, exceeding the limit of ${maxValidityRounds}`,
+      { data: { index, reason: 'validity' } }
+    )
+  }
+}
+
+function validateGroupId(txns: algosdk.Transaction[], offset: number): void {
+  if (txns.length < 2) {
+    return
+  }
+
+  // Transactions sent together must all share one group ID, or none may have one
+  const [first, ...rest] = txns.map((txn) => (txn.group ? algosdk.bytesToBase64(txn.group) : ''))
+  const index = rest.findIndex((groupId) => groupId !== first)
+
+  if (index !== -1) {
+    throw new InvalidInputError(
+      `Transaction ${offset + index + 1} has a different group ID than transaction ${offset}`,
+      { data: { index: offset + index + 1, reason: 'group' } }
+    )
+  }
+}
+
+// Some network configs use the URL-safe alphabet for genesis hashes
+function normalizeBase64(value: string): string {
+  return value.replace(/-/g, '+').replace(/_/g, '/')
+}
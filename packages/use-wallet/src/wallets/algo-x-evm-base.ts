@@ -8,6 +8,7 @@ import { BaseWallet } from 'src/wallets/base'
 import type {
   AlgoXEvmMetadata,
   SignerTransaction,
+  UIHooks,
   WalletAccount,
   WalletConstructor
 } from 'src/wallets/types'
@@ -20,10 +21,7 @@ interface EvmAccount {
 export interface AlgoXEvmOptions {
   uiHooks?: {
     onConnect?: (evmAccount: EvmAccount) => void
-    onBeforeSign?: (
-      txnGroup: algosdk.Transaction[] | Uint8Array[],
-      indexesToSign?: number[]
-    ) => Promise<void>
+    onBeforeSign?: UIHooks['onBeforeSign']
     onAfterSign?: (success: boolean, errorMessage?: string) => void
   }
 }
@@ -201,7 +199,7 @@ export abstract class AlgoXEvmBaseWallet extends BaseWallet {
   /**
    * Sign Algorand transactions using EVM wallet signatures
    */
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
@@ -254,14 +252,6 @@ export abstract class AlgoXEvmBaseWallet extends BaseWallet {
         }
       }
 
-      const onBeforeSign = this.options.uiHooks?.onBeforeSign ?? this.managerUIHooks?.onBeforeSign
-      if (onBeforeSign) {
-        this.logger.debug('Running onBeforeSign hook', { txnGroup, indexesToSign })
-        const txnsAsUint8 = txnsToSign.map(({ txn }) => algosdk.encodeUnsignedTransaction(txn))
-        // important to pass the txns as Uint8Array to avoid package hazard issues. decode on the other end
-        await onBeforeSign(txnsAsUint8, indexesToSign)
-      }
-
       // Sign transactions grouped by EVM address
       const signedResult: (Uint8Array | null)[] = new Array(txnsToSign.length).fill(null)
       console.log('EVM Groups for signing:', evmGroups)
@@ -278,27 +268,22 @@ export abstract class AlgoXEvmBaseWallet extends BaseWallet {
         }
       }
 
-      const onAfterSign = this.options.uiHooks?.onAfterSign ?? this.managerUIHooks?.onAfterSign
-      if (onAfterSign) {
-        this.logger.debug('Running onAfterSign hook')
-        try {
-          onAfterSign(true)
-        } catch (e) {}
-      }
-
       this.logger.debug('Transactions signed successfully', signedResult)
       return signedResult
     } catch (error: any) {
-      try {
-        const onAfterSignCleanup =
-          this.options.uiHooks?.onAfterSign ?? this.managerUIHooks?.onAfterSign
-        onAfterSignCleanup?.(false, error.message)
-      } catch (e) {}
       this.logger.error('Error signing transactions:', error.message)
       throw error
     }
   }
 
+  protected get beforeSignHook(): UIHooks['onBeforeSign'] {
+    return this.options.uiHooks?.onBeforeSign ?? super.beforeSignHook
+  }
+
+  protected get afterSignHook(): UIHooks['onAfterSign'] {
+    return this.options.uiHooks?.onAfterSign ?? super.afterSignHook
+  }
+
   /**
    * Helper to compare and update accounts if needed during session resume
    */
@@ -1,4 +1,5 @@
 import algosdk from 'algosdk'
+import { SessionExpiredError, fromARC0027Error, type WalletError } from 'src/errors'
 import { WalletState, addWallet, setAccounts } from 'src/store'
 import {
   base64ToByteArray,
@@ -97,12 +98,13 @@ export abstract class AVMProvider extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = this.addresses.includes(signer) || !!multisig
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -127,12 +129,13 @@ export abstract class AVMProvider extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = !!multisig || (!isSigned && this.addresses.includes(signer))
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -155,7 +158,43 @@ export abstract class AVMProvider extends BaseWallet {
    * Common methods
    * These methods can be overridden by specific wallet providers if needed
    */
-  public async connect(): Promise<WalletAccount[]> {
+
+  /**
+   * Sends an ARC-0027 "discover" request to the provider. Resolves `false` if the
+   * provider does not respond within 0.75 seconds.
+   */
+  public async isAvailable(): Promise<boolean> {
+    if (typeof window === 'undefined') {
+      return false
+    }
+
+    try {
+      const { LOWER_REQUEST_TIMEOUT } = await this._initializeAVMWebProviderSDK()
+      const avmWebClient = await this._initializeAVMWebClient()
+
+      return await new Promise<boolean>((resolve) => {
+        const timerId = window.setTimeout(() => {
+          avmWebClient.removeListener(listenerId)
+          resolve(false)
+        }, LOWER_REQUEST_TIMEOUT)
+        const listenerId = avmWebClient.onDiscover(({ error, result }) => {
+          if (!error && result?.providerId !== this.providerId) {
+            return
+          }
+          avmWebClient.removeListener(listenerId)
+          window.clearTimeout(timerId)
+          resolve(!error)
+        })
+
+        avmWebClient.discover({ providerId: this.providerId })
+      })
+    } catch (error: any) {
+      this.logger.warn('Error checking availability:', error.message)
+      return false
+    }
+  }
+
+  protected async doConnect(): Promise<WalletAccount[]> {
     try {
       this.logger.info('Connecting...')
       const result = await this._enable()
@@ -184,7 +223,7 @@ export abstract class AVMProvider extends BaseWallet {
     }
   }
 
-  public async disconnect(): Promise<void> {
+  protected async doDisconnect(): Promise<void> {
     try {
       this.logger.info('Disconnecting...')
       this.onDisconnect()
@@ -203,7 +242,7 @@ export abstract class AVMProvider extends BaseWallet {
     }
   }
 
-  public async resumeSession(): Promise<void> {
+  protected async doResumeSession(): Promise<void> {
     const state = this.store.state
     const walletState = state.wallets[this.id]
 
@@ -218,7 +257,7 @@ export abstract class AVMProvider extends BaseWallet {
       const result = await this._enable()
 
       if (result.accounts.length === 0) {
-        throw new Error('No accounts found!')
+        throw new SessionExpiredError('No accounts found!')
       }
 
       const walletAccounts = this._mapAVMWebProviderAccountToWalletAccounts(result.accounts)
@@ -246,7 +285,7 @@ export abstract class AVMProvider extends BaseWallet {
     }
   }
 
-  public async signTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected async doSignTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> {
@@ -287,4 +326,8 @@ export abstract class AVMProvider extends BaseWallet {
       throw error
     }
   }
+
+  protected mapError(error: unknown): WalletError {
+    return fromARC0027Error(error)
+  }
 }
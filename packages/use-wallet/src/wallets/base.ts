@@ -1,13 +1,36 @@
+import { UnsupportedMethodError, toWalletError, type WalletError } from 'src/errors'
+import { emitEvent } from 'src/events'
 import { logger } from 'src/logger'
 import { NetworkConfig } from 'src/network'
-import { StorageAdapter } from 'src/storage'
-import { setActiveWallet, setActiveAccount, removeWallet, type State } from 'src/store'
+import { describeTransactions } from 'src/describe'
+import { enforceSigningPolicy, type SigningPolicies } from 'src/policy'
+import { RequestQueue } from 'src/queue'
+import { StorageAdapter, type StorageBackend } from 'src/storage'
+import {
+  setActiveWallet,
+  setActiveAccount,
+  setWalletStatus,
+  setPendingRequests,
+  removeWallet,
+  setAuthAddresses,
+  type State,
+  type WalletStatus
+} from 'src/store'
+import {
+  decodeTransaction,
+  validateTransactions,
+  type TransactionValidationOptions
+} from 'src/validation'
+import { simulateTransactions } from 'src/simulation'
 import type { Store } from '@tanstack/store'
-import type algosdk from 'algosdk'
+import algosdk from 'algosdk'
 import type {
+  BeforeSignContext,
+  MultisigMetadata,
   SignDataResponse,
   SignMetadata,
   UIHooks,
+  RegisteredWalletId,
   WalletAccount,
   WalletConstructor,
   WalletId,
@@ -15,13 +38,23 @@ import type {
   WalletMetadata
 } from 'src/wallets/types'
 
+export interface SignRequestOptions {
+  /**
+   * If an identical request is already queued or in progress, return its result
+   * instead of sending the request to the wallet again
+   */
+  dedupe?: boolean | undefined
+  /** Cancels the request while it is waiting in the queue */
+  signal?: AbortSignal | undefined
+}
+
 interface WalletConstructorType {
   new (...args: any[]): BaseWallet
   defaultMetadata: WalletMetadata
 }
 
 export abstract class BaseWallet {
-  readonly id: WalletId
+  readonly id: WalletId | RegisteredWalletId
   /** Unique key for this wallet instance. Used for state storage and session isolation. */
   readonly walletKey: WalletKey
   readonly metadata: WalletMetadata
@@ -29,11 +62,21 @@ export abstract class BaseWallet {
   protected store: Store<State>
   protected getAlgodClient: () => algosdk.Algodv2
   protected managerUIHooks: UIHooks
+  protected storage: StorageBackend
+  protected transactionValidation: TransactionValidationOptions
+  protected signingPolicies: SigningPolicies
+  protected simulateBeforeSign: boolean
+  protected abiContracts: algosdk.ABIContract[]
 
   public subscribe: (callback: (state: State) => void) => () => void
 
   protected logger: ReturnType<typeof logger.createScopedLogger>
 
+  // Signing requests are sent to the wallet one at a time
+  private requestQueue = new RequestQueue((size) =>
+    setPendingRequests(this.store, { walletId: this.walletKey, count: size })
+  )
+
   protected constructor({
     id,
     walletKey,
@@ -41,7 +84,12 @@ export abstract class BaseWallet {
     store,
     subscribe,
     getAlgodClient,
-    managerUIHooks
+    managerUIHooks,
+    storage,
+    transactionValidation,
+    signingPolicies,
+    simulateBeforeSign,
+    abiContracts
   }: WalletConstructor<WalletId>) {
     this.id = id
     this.walletKey = walletKey || id // Default to id for backward compatibility
@@ -49,6 +97,11 @@ export abstract class BaseWallet {
     this.subscribe = subscribe
     this.getAlgodClient = getAlgodClient
     this.managerUIHooks = managerUIHooks || {}
+    this.storage = storage || StorageAdapter
+    this.transactionValidation = transactionValidation || {}
+    this.signingPolicies = signingPolicies || {}
+    this.simulateBeforeSign = simulateBeforeSign || false
+    this.abiContracts = abiContracts || []
 
     const ctor = this.constructor as WalletConstructorType
     this.metadata = { ...ctor.defaultMetadata, ...metadata }
@@ -61,9 +114,56 @@ export abstract class BaseWallet {
 
   // ---------- Public Methods ---------------------------------------- //
 
-  public abstract connect(args?: Record<string, any>): Promise<WalletAccount[]>
-  public abstract disconnect(): Promise<void>
-  public abstract resumeSession(): Promise<void>
+  public connect = async (args?: Record<string, any>): Promise<WalletAccount[]> => {
+    this.setStatus('connecting')
+    try {
+      const accounts = await this.doConnect(args)
+      await this.updateAuthAddresses()
+      this.setStatus('connected')
+      return this.isConnected ? this.accounts : accounts
+    } catch (error: any) {
+      const walletError = this.mapError(error)
+      this.setStatus('error', walletError)
+      throw walletError
+    }
+  }
+
+  public disconnect = async (): Promise<void> => {
+    this.setStatus('disconnecting')
+    try {
+      await this.doDisconnect()
+      this.setStatus('idle')
+    } catch (error: any) {
+      const walletError = this.mapError(error)
+      this.setStatus('error', walletError)
+      throw walletError
+    }
+  }
+
+  public resumeSession = async (): Promise<void> => {
+    // Only report resuming if there is a session to resume
+    if (this.store.state.wallets[this.walletKey]) {
+      this.setStatus('resuming')
+    }
+    try {
+      await this.doResumeSession()
+      await this.updateAuthAddresses()
+      this.setStatus(this.store.state.wallets[this.walletKey] ? 'connected' : 'idle')
+    } catch (error: any) {
+      const walletError = this.mapError(error)
+      this.setStatus('error', walletError)
+      throw walletError
+    }
+  }
+
+  /**
+   * Check whether the wallet can be used in the current environment, e.g. whether its
+   * browser extension is installed. Wallets that connect through another app or device
+   * are always available.
+   */
+  public async isAvailable(): Promise<boolean> {
+    return true
+  }
 
   public setActive = (): void => {
     this.logger.info(`Set active wallet: ${this.walletKey}`)
@@ -78,10 +178,45 @@ export abstract class BaseWallet {
     })
   }
 
-  public abstract signTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
+  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
-    indexesToSign?: number[]
-  ): Promise<(Uint8Array | null)[]>
+    indexesToSign?: number[],
+    { dedupe, signal }: SignRequestOptions = {}
+  ): Promise<(Uint8Array | null)[]> => {
+    const key = dedupe ? this.getSignTransactionsKey(txnGroup, indexesToSign) : undefined
+
+    return this.enqueueRequest(
+      async () => {
+        emitEvent(this.store, 'signRequested', {
+          walletKey: this.walletKey,
+          txnGroup,
+          indexesToSign
+        })
+        try {
+          this.validateTransactions(txnGroup)
+          await this.enforceSigningPolicy(txnGroup, indexesToSign)
+          await this.runBeforeSignHook(txnGroup, indexesToSign)
+          let signError: WalletError | undefined
+          let signedTxns: (Uint8Array | null)[]
+          try {
+            signedTxns = await this.doSignTransactions(txnGroup, indexesToSign)
+          } catch (error: any) {
+            signError = this.mapError(error)
+            throw signError
+          } finally {
+            this.runAfterSignHook(!signError, signError?.message)
+          }
+          emitEvent(this.store, 'signCompleted', { walletKey: this.walletKey, signedTxns })
+          return signedTxns
+        } catch (error: any) {
+          const walletError = this.mapError(error)
+          emitEvent(this.store, 'signFailed', { walletKey: this.walletKey, error: walletError })
+          throw walletError
+        }
+      },
+      { key, signal }
+    )
+  }
 
   public transactionSigner = async (
     txnGroup: algosdk.Transaction[],
@@ -101,9 +236,56 @@ export abstract class BaseWallet {
 
   public canSignData = false
 
-  public signData = async (_data: string, _metadata: SignMetadata): Promise<SignDataResponse> => {
-    this.logger.error('Method not supported: signData')
-    throw new Error('Method not supported: signData')
+  public signData = async (
+    data: string,
+    metadata: SignMetadata,
+    { dedupe, signal }: SignRequestOptions = {}
+  ): Promise<SignDataResponse> => {
+    const key = dedupe ? `signData:${data}:${JSON.stringify(metadata)}` : undefined
+
+    return this.enqueueRequest(
+      async () => {
+        try {
+          return await this.doSignData(data, metadata)
+        } catch (error: any) {
+          throw this.mapError(error)
+        }
+      },
+      { key, signal }
+    )
+  }
+
+  /**
+   * Look up the auth address of each connected account on the active network, so the
+   * wallet can sign for rekeyed accounts. Accounts that can't be looked up keep the auth
+   * address they have. Results are dropped if the active network changes during the lookups.
+   */
+  public updateAuthAddresses = async (): Promise<void> => {
+    const networkId = this.activeNetwork
+    const authAddrs: Record<string, string | null> = {}
+    await Promise.all(
+      this.addresses.map(async (address) => {
+        try {
+          const accountInfo = await this.getAlgodClient()
+            .accountInformation(address)
+            .exclude('all')
+            .do()
+          authAddrs[address] = accountInfo.authAddr?.toString() ?? null
+        } catch (error: any) {
+          this.logger.warn(`Could not look up auth address of ${address}: ${error.message}`)
+        }
+      })
+    )
+    if (this.activeNetwork !== networkId) {
+      this.logger.debug(`Active network changed from ${networkId}, ignoring auth addresses`)
+      return
+    }
+    setAuthAddresses(this.store, { walletId: this.walletKey, authAddrs })
+  }
+
+  /** Cancel signing requests waiting in the queue. The request in progress is not affected. */
+  public cancelPendingRequests = (): void => {
+    this.requestQueue.clear()
   }
 
   // ---------- Derived Properties ------------------------------------ //
@@ -143,6 +325,21 @@ export abstract class BaseWallet {
     return walletState ? walletState.accounts.length > 0 : false
   }
 
+  public get status(): WalletStatus {
+    const walletStatus = this.store.state.walletStatus[this.walletKey]
+    return walletStatus?.status ?? (this.store.state.wallets[this.walletKey] ? 'connected' : 'idle')
+  }
+
+  /** Error from the last failed connect, resume or disconnect */
+  public get error(): Error | null {
+    return this.store.state.walletStatus[this.walletKey]?.error ?? null
+  }
+
+  /** Number of queued and in-progress signing requests */
+  public get pendingRequests(): number {
+    return this.store.state.pendingRequests[this.walletKey] ?? 0
+  }
+
   public get isActive(): boolean {
     const state = this.store.state
     return state.activeWallet === this.walletKey
@@ -155,6 +352,214 @@ export abstract class BaseWallet {
 
   // ---------- Protected Methods ------------------------------------- //
 
+  // Wallets implement `doConnect`, `doDisconnect`, `doResumeSession` and `doSignTransactions`.
+  // They have defaults so wallets written for 4.x, which override the public methods
+  // instead, still compile. Those overrides skip status tracking, events and validation.
+
+  /**
+   * Connect to the wallet provider. Called by `connect`, which tracks the wallet's status.
+   */
+  protected async doConnect(_args?: Record<string, any>): Promise<WalletAccount[]> {
+    this.logger.error('Method not supported: connect')
+    throw new UnsupportedMethodError('Method not supported: connect')
+  }
+
+  /**
+   * Disconnect from the wallet provider. Called by `disconnect`, which tracks the wallet's status.
+   */
+  protected async doDisconnect(): Promise<void> {
+    this.logger.error('Method not supported: disconnect')
+    throw new UnsupportedMethodError('Method not supported: disconnect')
+  }
+
+  /**
+   * Resume a persisted session, if any. Called by `resumeSession`, which tracks the
+   * wallet's status.
+   */
+  protected async doResumeSession(): Promise<void> {
+    this.logger.error('Method not supported: resumeSession')
+    throw new UnsupportedMethodError('Method not supported: resumeSession')
+  }
+
+  /**
+   * Sign transactions with the wallet provider. Called by `signTransactions`, which
+   * emits the signing events.
+   */
+  protected async doSignTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
+    _txnGroup: T | T[],
+    _indexesToSign?: number[]
+  ): Promise<(Uint8Array | null)[]> {
+    this.logger.error('Method not supported: signTransactions')
+    throw new UnsupportedMethodError('Method not supported: signTransactions')
+  }
+
+  /**
+   * Sign data with the wallet provider. Called by `signData`. Wallets that support it
+   * also set `canSignData`.
+   */
+  protected doSignData = async (
+    _data: string,
+    _metadata: SignMetadata
+  ): Promise<SignDataResponse> => {
+    this.logger.error('Method not supported: signData')
+    throw new UnsupportedMethodError('Method not supported: signData')
+  }
+
+  /**
+   * Add a request to the wallet's signing queue, so it is sent to the wallet after
+   * the requests before it have finished.
+   */
+  protected enqueueRequest<T>(
+    request: () => Promise<T>,
+    options?: { key?: string | undefined; signal?: AbortSignal | undefined }
+  ): Promise<T> {
+    return this.requestQueue.add(request, options)
+  }
+
+  /**
+   * Get the address whose key signs for `address`: its auth address if it is a connected
+   * account that has been rekeyed, otherwise the address itself. This wallet's accounts
+   * are checked first, then those of other connected wallets.
+   */
+  protected getAuthAddress(address: string): string {
+    const accounts = [
+      ...this.accounts,
+      ...Object.values(this.store.state.wallets).flatMap((wallet) => wallet?.accounts ?? [])
+    ]
+    const account = accounts.find((account) => account.address === address)
+    return account?.authAddr ?? address
+  }
+
+  /**
+   * Get the metadata of a registered multisig account, and the members this wallet can
+   * sign for. Returns null if `address` isn't a registered multisig account or none of its
+   * members are connected to this wallet.
+   */
+  protected getMultisigSigners(
+    address: string
+  ): { msig: MultisigMetadata; signers: string[] } | null {
+    const msig = this.store.state.multisigAccounts[address]
+    const signers = msig?.addrs.filter((addr) => this.addresses.includes(addr)) ?? []
+    return msig && signers.length > 0 ? { msig, signers } : null
+  }
+
+  /**
+   * Check that transactions belong to the active network and are within the manager's
+   * validation limits, before the wallet is asked to sign them.
+   */
+  protected validateTransactions<T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[]
+  ): void {
+    validateTransactions(txnGroup, this.activeNetworkConfig, this.transactionValidation)
+  }
+
+  /**
+   * Apply the active network's signing policy, if there is one. Transactions the policy
+   * flags for confirmation are passed to the `onConfirmPolicy` UI hook.
+   */
+  protected async enforceSigningPolicy<T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    indexesToSign?: number[]
+  ): Promise<void> {
+    const policy = this.signingPolicies[this.activeNetwork]
+    if (policy) {
+      await enforceSigningPolicy(
+        txnGroup,
+        policy,
+        indexesToSign,
+        this.managerUIHooks.onConfirmPolicy
+      )
+    }
+  }
+
+  /**
+   * The `onBeforeSign` UI hook. Wallets with their own UI hooks option override this.
+   */
+  protected get beforeSignHook(): UIHooks['onBeforeSign'] {
+    return this.managerUIHooks.onBeforeSign
+  }
+
+  /**
+   * The `onAfterSign` UI hook. Wallets with their own UI hooks option override this.
+   */
+  protected get afterSignHook(): UIHooks['onAfterSign'] {
+    return this.managerUIHooks.onAfterSign
+  }
+
+  /**
+   * Run the `onBeforeSign` UI hook, if one is set, with a description of each
+   * transaction. If `simulateBeforeSign` is enabled, the transactions are simulated
+   * first and the result is passed to the hook.
+   */
+  protected async runBeforeSignHook<T extends algosdk.Transaction[] | Uint8Array[]>(
+    txnGroup: T | T[],
+    indexesToSign?: number[]
+  ): Promise<void> {
+    const onBeforeSign = this.beforeSignHook
+    if (!onBeforeSign) {
+      return
+    }
+
+    const context: BeforeSignContext = {}
+    try {
+      context.descriptions = await describeTransactions(txnGroup, {
+        algodClient: this.getAlgodClient(),
+        contracts: this.abiContracts
+      })
+    } catch (error: any) {
+      this.logger.warn(`Could not describe transactions: ${error.message}`)
+    }
+    if (this.simulateBeforeSign) {
+      try {
+        context.simulation = await simulateTransactions(txnGroup, this.getAlgodClient())
+      } catch (error: any) {
+        this.logger.warn(`Could not simulate transactions: ${error.message}`)
+      }
+    }
+
+    this.logger.debug('Running onBeforeSign hook', { txnGroup, indexesToSign, context })
+    // Pass encoded transactions, so the hook doesn't depend on this package's algosdk instance
+    const txns = (txnGroup as unknown[])
+      .flat()
+      .map((txn, index) =>
+        algosdk.encodeUnsignedTransaction(
+          decodeTransaction(txn as algosdk.Transaction | Uint8Array, index)
+        )
+      )
+    try {
+      await onBeforeSign(txns, indexesToSign, context)
+    } catch (error: any) {
+      // Signing won't start, so let the hook close any UI opened by `onBeforeSign`
+      this.runAfterSignHook(false, error.message)
+      throw error
+    }
+  }
+
+  /**
+   * Run the `onAfterSign` UI hook, if one is set, once the wallet has signed or failed.
+   * Errors thrown by the hook are ignored.
+   */
+  protected runAfterSignHook(success: boolean, errorMessage?: string): void {
+    const onAfterSign = this.afterSignHook
+    if (!onAfterSign) {
+      return
+    }
+    this.logger.debug('Running onAfterSign hook')
+    try {
+      onAfterSign(success, errorMessage)
+    } catch (error: any) {
+      this.logger.warn(`onAfterSign hook failed: ${error.message}`)
+    }
+  }
+
+  /**
+   * Map an error thrown by the wallet provider to a `WalletError`. Wallets override this
+   * to recognize their native errors.
+   */
+  protected mapError(error: unknown): WalletError {
+    return toWalletError(error)
+  }
+
   /**
    * Dynamically update wallet metadata (e.g., after learning the actual
    * connector name/icon during connect).
@@ -163,11 +568,31 @@ export abstract class BaseWallet {
     ;(this as { metadata: WalletMetadata }).metadata = { ...this.metadata, ...updates }
   }
 
+  private getSignTransactionsKey(txnGroup: unknown[], indexesToSign?: number[]): string {
+    // Not using src/utils here, as it imports every wallet
+    const txns = txnGroup.flat() as (algosdk.Transaction | Uint8Array)[]
+    const ids = txns.map((txn) => (txn instanceof Uint8Array ? txn.join('.') : txn.txID()))
+    return `signTransactions:${ids.join(',')}:${indexesToSign?.join(',') ?? ''}`
+  }
+
+  protected setStatus(status: WalletStatus, error?: any): void {
+    setWalletStatus(this.store, {
+      walletId: this.walletKey,
+      status,
+      error: error === undefined ? null : error instanceof Error ? error : new Error(String(error))
+    })
+  }
+
   protected onDisconnect = (): void => {
     this.logger.debug(`Removing wallet from store...`)
     removeWallet(this.store, { walletId: this.walletKey })
   }
 
+  /**
+   * Swap the WalletConnect v1 session used by Pera and Defly. Their SDKs read the
+   * `walletconnect` key from localStorage directly, so backups are kept alongside it
+   * in localStorage rather than in the configured storage backend.
+   */
   protected manageWalletConnectSession = (
     action: 'backup' | 'restore',
     targetWalletKey?: WalletKey
@@ -1,4 +1,5 @@
 import algosdk from 'algosdk'
+import { SessionExpiredError, UnauthorizedError, UnsupportedMethodError } from 'src/errors'
 import { WalletState, addWallet, setAccounts, type State } from 'src/store'
 import { compareAccounts } from 'src/utils'
 import { BaseWallet } from 'src/wallets/base'
@@ -15,6 +16,7 @@ export type CustomProvider = {
   connect(args?: Record<string, any>): Promise<WalletAccount[]>
   disconnect?(): Promise<void>
   resumeSession?(): Promise<WalletAccount[] | void>
+  isAvailable?(): Promise<boolean>
   signTransactions?<T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
@@ -44,11 +46,12 @@ export class CustomWallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options,
     metadata = {}
   }: WalletConstructor<WalletId.CUSTOM>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
     if (!options?.provider) {
       this.logger.error('Missing required option: provider')
       throw new Error('Missing required option: provider')
@@ -62,19 +65,23 @@ export class CustomWallet extends BaseWallet {
     icon: ICON
   }
 
-  public connect = async (args?: Record<string, any>): Promise<WalletAccount[]> => {
+  public async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable ? this.provider.isAvailable() : true
+  }
+
+  protected doConnect = async (args?: Record<string, any>): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     try {
       if (!this.provider.connect) {
         this.logger.error('Method not supported: connect')
-        throw new Error('Method not supported: connect')
+        throw new UnsupportedMethodError('Method not supported: connect')
       }
 
       const walletAccounts = await this.provider.connect(args)
 
       if (walletAccounts.length === 0) {
         this.logger.error('No accounts found!')
-        throw new Error('No accounts found!')
+        throw new UnauthorizedError('No accounts found!')
       }
 
       const activeAccount = walletAccounts[0]
@@ -97,13 +104,13 @@ export class CustomWallet extends BaseWallet {
     }
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     this.onDisconnect()
     await this.provider.disconnect?.()
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -123,7 +130,7 @@ export class CustomWallet extends BaseWallet {
 
         if (walletAccounts.length === 0) {
           this.logger.error('No accounts found!')
-          throw new Error('No accounts found!')
+          throw new SessionExpiredError('No accounts found!')
         }
 
         const match = compareAccounts(walletAccounts, walletState.accounts)
@@ -146,13 +153,13 @@ export class CustomWallet extends BaseWallet {
     }
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
     if (!this.provider.signTransactions) {
       this.logger.error('Method not supported: signTransactions')
-      throw new Error('Method not supported: signTransactions')
+      throw new UnsupportedMethodError('Method not supported: signTransactions')
     }
     this.logger.debug('Signing transactions...', { txnGroup, indexesToSign })
     return await this.provider.signTransactions(txnGroup, indexesToSign)
@@ -164,16 +171,29 @@ export class CustomWallet extends BaseWallet {
   ): Promise<Uint8Array[]> => {
     if (!this.provider.transactionSigner) {
       this.logger.error('Method not supported: transactionSigner')
-      throw new Error('Method not supported: transactionSigner')
+      throw new UnsupportedMethodError('Method not supported: transactionSigner')
     }
     this.logger.debug('Transaction signer called...', { txnGroup, indexesToSign })
-    return await this.provider.transactionSigner(txnGroup, indexesToSign)
+    const { transactionSigner } = this.provider
+    try {
+      return await this.enqueueRequest(async () => {
+        this.validateTransactions(txnGroup)
+        await this.enforceSigningPolicy(txnGroup, indexesToSign)
+        await this.runBeforeSignHook(txnGroup, indexesToSign)
+        return transactionSigner(txnGroup, indexesToSign)
+      })
+    } catch (error) {
+      throw this.mapError(error)
+    }
   }
 
-  public signData = async (data: string, metadata: SignMetadata): Promise<SignDataResponse> => {
+  protected doSignData = async (
+    data: string,
+    metadata: SignMetadata
+  ): Promise<SignDataResponse> => {
     if (!this.provider.signData) {
       this.logger.error('Method not supported: signData')
-      throw new Error('Method not supported: signData')
+      throw new UnsupportedMethodError('Method not supported: signData')
     }
     this.logger.debug('Signing data...', { data, metadata })
     return await this.provider.signData(data, metadata)
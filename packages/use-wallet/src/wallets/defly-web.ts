@@ -17,6 +17,7 @@ export class DeflyWebWallet extends AVMProvider {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     metadata = {}
   }: WalletConstructor<WalletId.DEFLY_WEB>) {
@@ -26,6 +27,7 @@ export class DeflyWebWallet extends AVMProvider {
       getAlgodClient,
       store,
       subscribe,
+      storage,
       providerId: DEFLY_WEB_PROVIDER_ID
     })
   }
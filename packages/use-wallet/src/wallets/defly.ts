@@ -1,4 +1,13 @@
 import algosdk from 'algosdk'
+import {
+  NetworkMismatchError,
+  SessionExpiredError,
+  UnauthorizedError,
+  UserRejectedError,
+  fromMobileWalletError,
+  toWalletError,
+  type WalletError
+} from 'src/errors'
 import { WalletState, addWallet, setAccounts, setActiveWallet, type State } from 'src/store'
 import { compareAccounts, flattenTxnGroup, isSignedTxn, isTransactionArray } from 'src/utils'
 import { BaseWallet } from 'src/wallets/base'
@@ -31,11 +40,12 @@ export class DeflyWallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options = {},
     metadata = {}
   }: WalletConstructor<WalletId.DEFLY>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
     this.options = options
     this.store = store
   }
@@ -54,7 +64,7 @@ export class DeflyWallet extends BaseWallet {
     return client
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     const currentActiveWallet = this.store.state.activeWallet
     if (currentActiveWallet && currentActiveWallet !== this.id) {
@@ -68,7 +78,7 @@ export class DeflyWallet extends BaseWallet {
 
     if (accounts.length === 0) {
       this.logger.error('No accounts found!')
-      throw new Error('No accounts found!')
+      throw new UnauthorizedError('No accounts found!')
     }
 
     const walletAccounts = accounts.map((address: string, idx: number) => ({
@@ -92,7 +102,7 @@ export class DeflyWallet extends BaseWallet {
     return walletAccounts
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     const client = this.client || (await this.initializeClient())
 
@@ -122,7 +132,7 @@ export class DeflyWallet extends BaseWallet {
     setActiveWallet(this.store, { walletId: this.id })
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -146,7 +156,7 @@ export class DeflyWallet extends BaseWallet {
 
       if (accounts.length === 0) {
         this.logger.error('No accounts found!')
-        throw new Error('No accounts found!')
+        throw new SessionExpiredError('No accounts found!')
       }
 
       const walletAccounts = accounts.map((address: string, idx: number) => ({
@@ -174,6 +184,34 @@ export class DeflyWallet extends BaseWallet {
     }
   }
 
+  protected mapError(error: unknown): WalletError {
+    // The Defly Connect SDK sets `data.type` on its errors
+    const data =
+      typeof error === 'object' && error !== null && 'data' in error ? error.data : undefined
+    const isDataObject = typeof data === 'object' && data !== null
+    const type = isDataObject && 'type' in data ? data.type : undefined
+    const detail = isDataObject && 'detail' in data ? data.detail : undefined
+    switch (type) {
+      case 'CONNECT_MODAL_CLOSED':
+      case 'CONNECT_CANCELLED':
+      case 'SIGN_TXN_CANCELLED':
+      case 'SIGN_DATA_CANCELLED':
+      case 'OPERATION_CANCELLED':
+        return new UserRejectedError((error as Error).message, { cause: error })
+      case 'CONNECT_NETWORK_MISMATCH':
+      case 'SIGN_TXN_NETWORK_MISMATCH':
+      case 'SIGN_DATA_NETWORK_MISMATCH':
+        return new NetworkMismatchError((error as Error).message, { cause: error })
+      case 'SESSION_DISCONNECTED':
+        return new SessionExpiredError((error as Error).message, { cause: error })
+      case 'SIGN_TRANSACTIONS':
+        // Signing failed in the mobile app, e.g. the user rejected it; the reason is in `detail`
+        return fromMobileWalletError(detail, error)
+      default:
+        return toWalletError(error)
+    }
+  }
+
   private processTxns(
     txnGroup: algosdk.Transaction[],
     indexesToSign?: number[]
@@ -183,10 +221,11 @@ export class DeflyWallet extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = this.addresses.includes(signer)
+      const authAddr = this.getAuthAddress(signer)
+      const canSignTxn = this.addresses.includes(signer) || this.addresses.includes(authAddr)
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn })
+        txnsToSign.push(authAddr === signer ? { txn } : { txn, authAddr })
       } else {
         txnsToSign.push({ txn, signers: [] })
       }
@@ -211,10 +250,12 @@ export class DeflyWallet extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && this.addresses.includes(signer)
+      const authAddr = this.getAuthAddress(signer)
+      const canSignTxn =
+        !isSigned && (this.addresses.includes(signer) || this.addresses.includes(authAddr))
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn })
+        txnsToSign.push(authAddr === signer ? { txn } : { txn, authAddr })
       } else {
         txnsToSign.push({ txn, signers: [] })
       }
@@ -223,7 +264,7 @@ export class DeflyWallet extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
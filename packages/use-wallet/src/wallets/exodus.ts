@@ -1,4 +1,5 @@
 import algosdk from 'algosdk'
+import { SessionExpiredError, UnauthorizedError, WalletNotInstalledError } from 'src/errors'
 import { WalletState, addWallet, type State } from 'src/store'
 import {
   base64ToByteArray,
@@ -88,11 +89,12 @@ export class ExodusWallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options = {},
     metadata = {}
   }: WalletConstructor<WalletId.EXODUS>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
     this.options = options
     this.store = store
   }
@@ -102,11 +104,15 @@ export class ExodusWallet extends BaseWallet {
     icon: ICON
   }
 
+  public async isAvailable(): Promise<boolean> {
+    return typeof window !== 'undefined' && (window as WindowExtended).algorand !== undefined
+  }
+
   private async initializeClient(): Promise<Exodus> {
     this.logger.info('Initializing client...')
     if (typeof window === 'undefined' || (window as WindowExtended).algorand === undefined) {
       this.logger.error('Exodus is not available.')
-      throw new Error('Exodus is not available.')
+      throw new WalletNotInstalledError('Exodus is not available.')
     }
     const client = (window as WindowExtended).algorand
     this.client = client
@@ -114,14 +120,14 @@ export class ExodusWallet extends BaseWallet {
     return client
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     const client = this.client || (await this.initializeClient())
     const { accounts } = await client.enable(this.options)
 
     if (accounts.length === 0) {
       this.logger.error('No accounts found!')
-      throw new Error('No accounts found!')
+      throw new UnauthorizedError('No accounts found!')
     }
 
     const walletAccounts = accounts.map((address: string, idx: number) => ({
@@ -145,13 +151,13 @@ export class ExodusWallet extends BaseWallet {
     return walletAccounts
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     this.onDisconnect()
     this.logger.info('Disconnected.')
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -167,7 +173,7 @@ export class ExodusWallet extends BaseWallet {
 
       if (!client.isConnected) {
         this.logger.error('Exodus is not connected.')
-        throw new Error('Exodus is not connected.')
+        throw new SessionExpiredError('Exodus is not connected.')
       }
       this.logger.info('Session resumed')
     } catch (error: any) {
@@ -186,12 +192,13 @@ export class ExodusWallet extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = this.addresses.includes(signer) || !!multisig
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -216,12 +223,13 @@ export class ExodusWallet extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = !!multisig || (!isSigned && this.addresses.includes(signer))
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -230,7 +238,7 @@ export class ExodusWallet extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
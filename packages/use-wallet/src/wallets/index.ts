@@ -12,6 +12,7 @@ export * from './magic'
 export * from './mnemonic'
 export * from './pera'
 export * from './rainbowkit'
+export * from './registry'
 export * from './skins'
 export * from './types'
 export * from './walletconnect'
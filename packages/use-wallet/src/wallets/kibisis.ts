@@ -17,6 +17,7 @@ export class KibisisWallet extends AVMProvider {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     metadata = {}
   }: WalletConstructor<WalletId.KIBISIS>) {
@@ -26,6 +27,7 @@ export class KibisisWallet extends AVMProvider {
       getAlgodClient,
       store,
       subscribe,
+      storage,
       providerId: KIBISIS_AVM_WEB_PROVIDER_ID
     })
   }
@@ -1,4 +1,5 @@
 import algosdk from 'algosdk'
+import { UnauthorizedError } from 'src/errors'
 import { WalletState, addWallet, type State } from 'src/store'
 import { flattenTxnGroup, isSignedTxn, isTransactionArray } from 'src/utils'
 import { BaseWallet } from 'src/wallets/base'
@@ -69,11 +70,12 @@ export class KmdWallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options,
     metadata = {}
   }: WalletConstructor<WalletId.KMD>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
 
     const {
       token = 'a'.repeat(64),
@@ -102,7 +104,7 @@ export class KmdWallet extends BaseWallet {
     return client
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     if (!this.client) {
       await this.initializeClient()
@@ -114,7 +116,7 @@ export class KmdWallet extends BaseWallet {
       const accounts = await this.fetchAccounts(token)
 
       if (accounts.length === 0) {
-        throw new Error('No accounts found!')
+        throw new UnauthorizedError('No accounts found!')
       }
 
       const walletAccounts = accounts.map((address: string, idx: number) => ({
@@ -145,13 +147,13 @@ export class KmdWallet extends BaseWallet {
     }
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     this.onDisconnect()
     this.logger.info('Disconnected.')
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -181,7 +183,7 @@ export class KmdWallet extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = this.addresses.includes(signer)
+      const canSignTxn = this.addresses.includes(this.getAuthAddress(signer))
 
       if (isIndexMatch && canSignTxn) {
         txnsToSign.push(txn)
@@ -207,7 +209,7 @@ export class KmdWallet extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && this.addresses.includes(signer)
+      const canSignTxn = !isSigned && this.addresses.includes(this.getAuthAddress(signer))
 
       if (isIndexMatch && canSignTxn) {
         txnsToSign.push(txn)
@@ -217,7 +219,7 @@ export class KmdWallet extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
@@ -244,7 +246,18 @@ export class KmdWallet extends BaseWallet {
 
       // Sign transactions
       const signedTxns = await Promise.all(
-        txnsToSign.map((txn) => client.signTransaction(token, password, txn))
+        txnsToSign.map((txn) => {
+          // Rekeyed accounts are signed with their auth address's key
+          const authAddr = this.getAuthAddress(txn.sender.toString())
+          return authAddr === txn.sender.toString()
+            ? client.signTransaction(token, password, txn)
+            : client.signTransactionWithSpecificPublicKey(
+                token,
+                password,
+                txn,
+                algosdk.decodeAddress(authAddr).publicKey
+              )
+        })
       )
 
       this.logger.debug('Received signed transactions from wallet', signedTxns)
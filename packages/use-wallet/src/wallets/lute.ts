@@ -1,4 +1,5 @@
 import algosdk from 'algosdk'
+import { UnauthorizedError } from 'src/errors'
 import { WalletState, addWallet, type State } from 'src/store'
 import { byteArrayToBase64, flattenTxnGroup, isSignedTxn, isTransactionArray } from 'src/utils'
 import { BaseWallet } from 'src/wallets/base'
@@ -10,10 +11,8 @@ import {
   type WalletTransaction
 } from 'lute-connect'
 import {
-  SignDataError,
   SignDataResponse,
   SignMetadata,
-  SignTxnsError,
   type WalletAccount,
   type WalletConstructor,
   type WalletId
@@ -47,11 +46,12 @@ export class LuteWallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options = {},
     metadata = {}
   }: WalletConstructor<WalletId.LUTE>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
     this.options = options
     this.store = store
   }
@@ -61,6 +61,11 @@ export class LuteWallet extends BaseWallet {
     icon: ICON
   }
 
+  public async isAvailable(): Promise<boolean> {
+    // Lute Connect uses the extension if installed, otherwise the Lute web app
+    return typeof window !== 'undefined'
+  }
+
   private async initializeClient(): Promise<LuteConnect> {
     this.logger.info('Initializing client...')
     const module = await import('lute-connect')
@@ -86,7 +91,7 @@ export class LuteWallet extends BaseWallet {
     return `${genesis.network}-${genesis.id}`
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     const client = this.client || (await this.initializeClient())
     const genesisId = await this.getGenesisId()
@@ -94,7 +99,7 @@ export class LuteWallet extends BaseWallet {
 
     if (accounts.length === 0) {
       this.logger.error('No accounts found!')
-      throw new Error('No accounts found!')
+      throw new UnauthorizedError('No accounts found!')
     }
 
     const walletAccounts = accounts.map((address: string, idx: number) => ({
@@ -118,12 +123,12 @@ export class LuteWallet extends BaseWallet {
     return walletAccounts
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.onDisconnect()
     this.logger.info('Disconnected')
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -153,12 +158,13 @@ export class LuteWallet extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = this.addresses.includes(signer) || !!multisig
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -183,12 +189,13 @@ export class LuteWallet extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = !!multisig || (!isSigned && this.addresses.includes(signer))
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -197,7 +204,7 @@ export class LuteWallet extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
@@ -226,16 +233,19 @@ export class LuteWallet extends BaseWallet {
     } catch (error) {
       if (isSignTxnsError(error)) {
         this.logger.error('Error signing transactions:', error.message, `(code: ${error.code})`)
-        throw new SignTxnsError(error.message, error.code)
+      } else {
+        this.logger.error('Unknown error signing transactions:', error)
       }
-      this.logger.error('Unknown error signing transactions:', error)
       throw error
     }
   }
 
   public canSignData = true
 
-  public signData = async (data: string, metadata: SignMetadata): Promise<SignDataResponse> => {
+  protected doSignData = async (
+    data: string,
+    metadata: SignMetadata
+  ): Promise<SignDataResponse> => {
     try {
       this.logger.debug('Signing data...', { data, metadata })
 
@@ -249,9 +259,9 @@ export class LuteWallet extends BaseWallet {
     } catch (error) {
       if (isSignDataError(error)) {
         this.logger.error('Error signing data:', error.message, `(code: ${error.code})`)
-        throw new SignDataError(error.message, error.code)
+      } else {
+        this.logger.error('Unknown error signing data:', error)
       }
-      this.logger.error('Unknown error signing data:', error)
       throw error
     }
   }
@@ -1,4 +1,5 @@
 import algosdk from 'algosdk'
+import { InvalidInputError, SessionExpiredError, UnauthorizedError } from 'src/errors'
 import { WalletState, addWallet, setAccounts, type State } from 'src/store'
 import {
   base64ToByteArray,
@@ -52,11 +53,12 @@ export class MagicAuth extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options,
     metadata = {}
   }: WalletConstructor<WalletId.MAGIC>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
     if (!options?.apiKey) {
       this.logger.error('Missing required option: apiKey')
       throw new Error('Missing required option: apiKey')
@@ -86,11 +88,11 @@ export class MagicAuth extends BaseWallet {
     return client
   }
 
-  public connect = async (args?: Record<string, any>): Promise<WalletAccount[]> => {
+  protected doConnect = async (args?: Record<string, any>): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     if (!args?.email || typeof args.email !== 'string') {
       this.logger.error('Magic Link provider requires an email (string) to connect')
-      throw new Error('Magic Link provider requires an email (string) to connect')
+      throw new InvalidInputError('Magic Link provider requires an email (string) to connect')
     }
 
     const { email } = args
@@ -109,7 +111,7 @@ export class MagicAuth extends BaseWallet {
 
     if (!userInfo.publicAddress) {
       this.logger.error('No account found!')
-      throw new Error('No account found!')
+      throw new UnauthorizedError('No account found!')
     }
 
     this.userInfo = userInfo
@@ -134,7 +136,7 @@ export class MagicAuth extends BaseWallet {
     return [walletAccount]
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     this.onDisconnect()
     const client = this.client || (await this.initializeClient())
@@ -143,7 +145,7 @@ export class MagicAuth extends BaseWallet {
     this.logger.info('Disconnected')
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -175,7 +177,7 @@ export class MagicAuth extends BaseWallet {
       if (!userInfo.publicAddress) {
         await client.user.logout()
         this.logger.error('No account found!')
-        throw new Error('No account found!')
+        throw new SessionExpiredError('No account found!')
       }
 
       this.userInfo = userInfo
@@ -263,7 +265,7 @@ export class MagicAuth extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
@@ -1,5 +1,5 @@
 import algosdk from 'algosdk'
-import { StorageAdapter } from 'src/storage'
+import { NetworkMismatchError, UserRejectedError } from 'src/errors'
 import { LOCAL_STORAGE_KEY, WalletState, addWallet, type State } from 'src/store'
 import { flattenTxnGroup, isSignedTxn, isTransactionArray } from 'src/utils'
 import { BaseWallet } from 'src/wallets/base'
@@ -33,11 +33,12 @@ export class MnemonicWallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options,
     metadata = {}
   }: WalletConstructor<WalletId.MNEMONIC>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
 
     const {
       persistToStorage = false,
@@ -59,16 +60,16 @@ export class MnemonicWallet extends BaseWallet {
     icon: ICON
   }
 
-  private loadMnemonicFromStorage(): string | null {
-    return StorageAdapter.getItem(LOCAL_STORAGE_MNEMONIC_KEY)
+  private async loadMnemonicFromStorage(): Promise<string | null> {
+    return this.storage.getItem(LOCAL_STORAGE_MNEMONIC_KEY)
   }
 
-  private saveMnemonicToStorage(mnemonic: string): void {
-    StorageAdapter.setItem(LOCAL_STORAGE_MNEMONIC_KEY, mnemonic)
+  private async saveMnemonicToStorage(mnemonic: string): Promise<void> {
+    await this.storage.setItem(LOCAL_STORAGE_MNEMONIC_KEY, mnemonic)
   }
 
-  private removeMnemonicFromStorage(): void {
-    StorageAdapter.removeItem(LOCAL_STORAGE_MNEMONIC_KEY)
+  private async removeMnemonicFromStorage(): Promise<void> {
+    await this.storage.removeItem(LOCAL_STORAGE_MNEMONIC_KEY)
   }
 
   private checkMainnet(): void {
@@ -78,7 +79,7 @@ export class MnemonicWallet extends BaseWallet {
         this.logger.warn(
           'The Mnemonic wallet provider is insecure and intended for testing only. Any private key mnemonics used should never hold real Algos (i.e., on MainNet).'
         )
-        throw new Error('Production network detected. Aborting.')
+        throw new NetworkMismatchError('Production network detected. Aborting.')
       }
     } catch (error) {
       this.disconnect()
@@ -87,18 +88,18 @@ export class MnemonicWallet extends BaseWallet {
   }
 
   private async initializeAccount(): Promise<algosdk.Account> {
-    let mnemonic = this.loadMnemonicFromStorage()
+    let mnemonic = await this.loadMnemonicFromStorage()
     if (!mnemonic) {
       mnemonic = await this.options.promptForMnemonic()
       if (!mnemonic) {
         this.account = null
         this.logger.error('No mnemonic provided')
-        throw new Error('No mnemonic provided')
+        throw new UserRejectedError('No mnemonic provided')
       }
 
       if (this.options.persistToStorage) {
-        this.logger.warn('Mnemonic saved to localStorage.')
-        this.saveMnemonicToStorage(mnemonic)
+        this.logger.warn('Mnemonic saved to storage.')
+        await this.saveMnemonicToStorage(mnemonic)
       }
     }
 
@@ -107,7 +108,7 @@ export class MnemonicWallet extends BaseWallet {
     return account
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     // Throw error if MainNet is active
     this.checkMainnet()
 
@@ -133,15 +134,15 @@ export class MnemonicWallet extends BaseWallet {
     return [walletAccount]
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     this.onDisconnect()
     this.account = null
-    this.removeMnemonicFromStorage()
+    await this.removeMnemonicFromStorage()
     this.logger.info('Disconnected')
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     // Throw error if MainNet is active
     this.checkMainnet()
 
@@ -182,7 +183,9 @@ export class MnemonicWallet extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = signer === this.account!.addr.toString()
+      const canSignTxn =
+        this.getAuthAddress(signer) === this.account!.addr.toString() ||
+        !!this.getMultisigSigners(signer)
 
       if (isIndexMatch && canSignTxn) {
         txnsToSign.push(txn)
@@ -208,7 +211,9 @@ export class MnemonicWallet extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && signer === this.account!.addr.toString()
+      const canSignTxn =
+        !!this.getMultisigSigners(signer) ||
+        (!isSigned && this.getAuthAddress(signer) === this.account!.addr.toString())
 
       if (isIndexMatch && canSignTxn) {
         txnsToSign.push(txn)
@@ -218,7 +223,7 @@ export class MnemonicWallet extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
@@ -239,7 +244,12 @@ export class MnemonicWallet extends BaseWallet {
       }
 
       // Sign transactions
-      const signedTxns = txnsToSign.map((txn) => txn.signTxn(this.account!.sk))
+      const signedTxns = txnsToSign.map((txn) => {
+        const multisig = this.getMultisigSigners(txn.sender.toString())
+        return multisig
+          ? algosdk.signMultisigTransaction(txn, multisig.msig, this.account!.sk).blob
+          : txn.signTxn(this.account!.sk)
+      })
       this.logger.debug('Transactions signed successfully', { signedTxns })
       return signedTxns
     } catch (error: any) {
@@ -214,7 +214,7 @@ export class RainbowKitWallet extends AlgoXEvmBaseWallet {
     }
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     // Re-entrancy guard — prevents EvmWalletBridge's onConnect from
     // triggering a second connect() while the first is still running.
     if (this._connecting) {
@@ -254,7 +254,7 @@ export class RainbowKitWallet extends AlgoXEvmBaseWallet {
     }
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this._disconnecting = true
     this.logger.info('Disconnecting...')
 
@@ -274,7 +274,7 @@ export class RainbowKitWallet extends AlgoXEvmBaseWallet {
     this.logger.info('Disconnected')
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     const state = this.store.state
     const walletState = state.wallets[this.id]
 
@@ -0,0 +1,81 @@
+import { WalletId, type WalletMetadata } from './types'
+import type { BaseWallet } from './base'
+
+/**
+ * A wallet class that can be registered as a provider. Third-party wallets extend
+ * `BaseWallet` and accept the same constructor arguments as built-in wallets.
+ */
+export type WalletProviderClass = new (...args: any[]) => BaseWallet
+
+export interface WalletProvider {
+  id: string
+  WalletClass: WalletProviderClass
+  defaultMetadata?: WalletMetadata | undefined
+}
+
+// ---------- Wallet Provider Registry (Runtime) ---------- //
+
+/**
+ * Runtime registry for third-party wallet providers.
+ * Use `registerWalletProvider()` to add providers.
+ */
+const walletProviders = new Map<string, WalletProvider>()
+
+/**
+ * Register a third-party wallet provider at runtime.
+ * Registered wallets can be listed in the manager's `wallets` config like built-in ones.
+ *
+ * To type the provider's options, augment `RegisteredWalletOptionsMap`.
+ *
+ * @param id - Unique wallet ID
+ * @param WalletClass - The wallet class, a subclass of `BaseWallet`
+ * @param defaultMetadata - Default name and icon, overridden by `metadata` in the wallet config
+ * @throws Error if attempting to override a built-in wallet
+ *
+ * @example
+ * ```typescript
+ * import { registerWalletProvider } from '@txnlab/use-wallet'
+ * import { AcmeWallet, type AcmeWalletOptions } from 'acme-wallet'
+ *
+ * declare module '@txnlab/use-wallet' {
+ *   interface RegisteredWalletOptionsMap {
+ *     acme: AcmeWalletOptions
+ *   }
+ * }
+ *
+ * registerWalletProvider('acme', AcmeWallet, {
+ *   name: 'Acme Wallet',
+ *   icon: 'data:image/svg+xml;base64,...'
+ * })
+ * ```
+ */
+export function registerWalletProvider(
+  id: string,
+  WalletClass: WalletProviderClass,
+  defaultMetadata?: WalletMetadata
+): void {
+  if (Object.values<string>(WalletId).includes(id)) {
+    throw new Error(`Cannot override built-in wallet: ${id}`)
+  }
+  walletProviders.set(id, { id, WalletClass, defaultMetadata })
+}
+
+/**
+ * Remove a third-party wallet provider from the registry.
+ * Wallets already created by a manager are not affected.
+ *
+ * @param id - The wallet ID
+ */
+export function unregisterWalletProvider(id: string): void {
+  walletProviders.delete(id)
+}
+
+/**
+ * Get a registered third-party wallet provider by its ID.
+ *
+ * @param id - The wallet ID
+ * @returns The provider, or undefined if not registered
+ */
+export function getWalletProvider(id: string): WalletProvider | undefined {
+  return walletProviders.get(id)
+}
@@ -14,7 +14,12 @@ import { Web3AuthWallet, type Web3AuthOptions } from './web3auth'
 import { BiatecWallet } from './biatec'
 import type { Store } from '@tanstack/store'
 import type algosdk from 'algosdk'
+import type { StorageBackend } from 'src/storage'
 import type { State } from 'src/store'
+import type { TransactionDescription } from 'src/describe'
+import type { PolicyViolation, SigningPolicies } from 'src/policy'
+import type { SimulationResult } from 'src/simulation'
+import type { TransactionValidationOptions } from 'src/validation'
 import { W3Wallet } from './w3wallet'
 
 export enum WalletId {
@@ -62,7 +67,27 @@ export type WalletConnectSkinOption = string | WalletConnectSkin
  * - A standard WalletId (for backward compatibility)
  * - A composite string for skinned WalletConnect instances (e.g., 'walletconnect:biatec')
  */
-export type WalletKey = WalletId | `${WalletId.WALLETCONNECT}:${string}`
+export type WalletKey = WalletId | `${WalletId.WALLETCONNECT}:${string}` | RegisteredWalletId
+
+// ---------- Third-Party Wallet Providers ---------- //
+
+/**
+ * Options for wallet providers registered with `registerWalletProvider`, keyed by wallet ID.
+ * Wallet packages augment this interface to type their options:
+ *
+ * ```typescript
+ * declare module '@txnlab/use-wallet' {
+ *   interface RegisteredWalletOptionsMap {
+ *     acme: AcmeWalletOptions
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface RegisteredWalletOptionsMap {}
+
+/** IDs of wallet providers declared in `RegisteredWalletOptionsMap` */
+export type RegisteredWalletId = Extract<keyof RegisteredWalletOptionsMap, string>
 
 export type WalletMap = {
   [WalletId.BIATEC]: typeof BiatecWallet
@@ -82,7 +107,7 @@ export type WalletMap = {
   [WalletId.W3_WALLET]: typeof W3Wallet
 }
 
-export type WalletOptionsMap = {
+export type BuiltInWalletOptionsMap = {
   [WalletId.BIATEC]: WalletConnectOptions
   [WalletId.CUSTOM]: CustomWalletOptions
   [WalletId.DEFLY]: DeflyWalletConnectOptions
@@ -100,7 +125,12 @@ export type WalletOptionsMap = {
   [WalletId.W3_WALLET]: Record<string, never>
 }
 
-export type SupportedWallet = WalletIdConfig<WalletId> | WalletId
+export type WalletOptionsMap = BuiltInWalletOptionsMap & RegisteredWalletOptionsMap
+
+export type SupportedWallet =
+  | WalletIdConfig<WalletId | RegisteredWalletId>
+  | WalletId
+  | RegisteredWalletId
 
 export type WalletConfigMap = {
   [K in keyof WalletOptionsMap]: {
@@ -133,17 +163,31 @@ export type AlgoXEvmMetadata = WalletMetadata & {
   isAlgoXEvm: 'EVM'
 }
 
+export interface BeforeSignContext {
+  /** Plain-language description of each transaction in the flattened group */
+  descriptions?: TransactionDescription[] | undefined
+  /** Result of simulating the transactions, if `simulateBeforeSign` is enabled */
+  simulation?: SimulationResult | undefined
+}
+
 export interface UIHooks {
+  /**
+   * Called before a wallet is asked to sign transactions, with the flattened group as
+   * encoded unsigned transactions. Throw to cancel the request.
+   */
   onBeforeSign?: (
     txnGroup: algosdk.Transaction[] | Uint8Array[],
-    indexesToSign?: number[]
+    indexesToSign?: number[],
+    context?: BeforeSignContext
   ) => Promise<void>
   onAfterSign?: (success: boolean, errorMessage?: string) => void
+  /** Ask the user to confirm transactions flagged by the signing policy. Resolve `true` to sign them. */
+  onConfirmPolicy?: (violations: PolicyViolation[]) => Promise<boolean>
   onConnect?: (evmAccount: { evmAddress: string; algorandAddress: string }) => void
 }
 
 export interface BaseWalletConstructor {
-  id: WalletId
+  id: WalletId | RegisteredWalletId
   /** Optional wallet key override. Defaults to id. Used for skinned WalletConnect instances. */
   walletKey?: WalletKey
   metadata: Partial<WalletMetadata> | undefined
@@ -151,6 +195,16 @@ export interface BaseWalletConstructor {
   store: Store<State>
   subscribe: (callback: (state: State) => void) => () => void
   managerUIHooks?: UIHooks
+  /** Storage backend for wallet-specific persistence. Defaults to localStorage. */
+  storage?: StorageBackend | undefined
+  /** Limits checked before transactions are sent to the wallet to be signed */
+  transactionValidation?: TransactionValidationOptions | undefined
+  /** Signing policies for each network, checked before transactions are signed */
+  signingPolicies?: SigningPolicies | undefined
+  /** Simulate transactions before they are signed, and pass the result to `onBeforeSign` */
+  simulateBeforeSign?: boolean | undefined
+  /** ABI contracts used to describe app calls to `onBeforeSign` */
+  abiContracts?: algosdk.ABIContract[] | undefined
 }
 
 export type WalletConstructor<T extends keyof WalletOptionsMap> = BaseWalletConstructor & {
@@ -161,6 +215,8 @@ export type WalletConstructor<T extends keyof WalletOptionsMap> = BaseWalletCons
 export type WalletAccount = {
   name: string
   address: string
+  /** Address authorized to sign for the account, if it has been rekeyed on the active network */
+  authAddr?: string | undefined
   metadata?: Record<string, unknown>
 }
 
@@ -257,6 +313,7 @@ export interface JsonRpcRequest<T = any> {
   params: T
 }
 
+/** @deprecated Wallets throw `WalletError` subclasses, mapped from the ARC-0001 `code` */
 export class SignTxnsError extends Error {
   code: number
   data?: any
@@ -287,6 +344,7 @@ export interface Siwa {
   type: 'ed25519'
 }
 
+/** @deprecated Wallets throw `WalletError` subclasses, mapped from the ARC-0001 `code` */
 export class SignDataError extends Error {
   code: number
   data?: any
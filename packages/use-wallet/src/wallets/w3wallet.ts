@@ -1,4 +1,5 @@
 import algosdk from 'algosdk'
+import { SessionExpiredError, WalletNotInstalledError } from 'src/errors'
 import { WalletState, addWallet, type State } from 'src/store'
 import {
   base64ToByteArray,
@@ -39,10 +40,11 @@ export class W3Wallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     metadata = {}
   }: WalletConstructor<WalletId.W3_WALLET>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
     this.store = store
   }
 
@@ -51,6 +53,12 @@ export class W3Wallet extends BaseWallet {
     icon: ICON
   }
 
+  public async isAvailable(): Promise<boolean> {
+    return (
+      typeof window !== 'undefined' && (window as WindowExtended).w3walletAlgorand !== undefined
+    )
+  }
+
   private async initializeClient(): Promise<W3WalletProvider> {
     this.logger.info('Initializing client...')
     if (
@@ -58,7 +66,7 @@ export class W3Wallet extends BaseWallet {
       (window as WindowExtended).w3walletAlgorand === undefined
     ) {
       this.logger.error('W3 Wallet is not available.')
-      throw new Error('W3 Wallet is not available.')
+      throw new WalletNotInstalledError('W3 Wallet is not available.')
     }
     const client = (window as WindowExtended).w3walletAlgorand
     this.client = client
@@ -66,7 +74,7 @@ export class W3Wallet extends BaseWallet {
     return client
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     const client = this.client || (await this.initializeClient())
 
@@ -86,13 +94,13 @@ export class W3Wallet extends BaseWallet {
     return [activeAccount]
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     this.onDisconnect()
     this.logger.info('Disconnected.')
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -109,7 +117,7 @@ export class W3Wallet extends BaseWallet {
 
       if (!isConnected) {
         this.logger.error('W3 Wallet is not connected.')
-        throw new Error('W3 Wallet is not connected.')
+        throw new SessionExpiredError('W3 Wallet is not connected.')
       }
       this.logger.info('Session resumed')
     } catch (error: any) {
@@ -128,12 +136,13 @@ export class W3Wallet extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = this.addresses.includes(signer) || !!multisig
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -158,12 +167,13 @@ export class W3Wallet extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && this.addresses.includes(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn = !!multisig || (!isSigned && this.addresses.includes(signer))
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push({ txn: txnString, ...multisig })
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -172,7 +182,7 @@ export class W3Wallet extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
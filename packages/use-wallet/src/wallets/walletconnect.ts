@@ -1,4 +1,11 @@
 import algosdk from 'algosdk'
+import {
+  SessionExpiredError,
+  UnauthorizedError,
+  UserRejectedError,
+  toWalletError,
+  type WalletError
+} from 'src/errors'
 import { WalletState, addWallet, setAccounts, type State } from 'src/store'
 import {
   base64ToByteArray,
@@ -57,13 +64,17 @@ export interface WalletConnectOptions extends WalletConnectBaseOptions {
 
 export type SignTxnsResponse = Array<Uint8Array | number[] | string | null | undefined>
 
-export class SessionError extends Error {
+/** Thrown when signing without a WalletConnect session */
+export class SessionError extends SessionExpiredError {
   constructor(message: string) {
     super(message)
     this.name = 'SessionError'
   }
 }
 
+// WalletConnect SDK error codes for rejected requests (USER_REJECTED, USER_REJECTED_CHAINS, etc.)
+const WC_USER_REJECTED_CODES = [5000, 5001, 5002, 5003]
+
 const ICON = `data:image/svg+xml;base64,${btoa(`
 <svg viewBox="0 0 480 480" xmlns="http://www.w3.org/2000/svg">
   <rect width="480" height="480" fill="#FFFFFF" />
@@ -83,6 +94,7 @@ export class WalletConnect extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options,
     metadata = {}
@@ -96,7 +108,15 @@ export class WalletConnect extends BaseWallet {
     // Build effective metadata: skin metadata -> user override
     const effectiveMetadata = skin ? { name: skin.name, icon: skin.icon, ...metadata } : metadata
 
-    super({ id, walletKey, metadata: effectiveMetadata, getAlgodClient, store, subscribe })
+    super({
+      id,
+      walletKey,
+      metadata: effectiveMetadata,
+      getAlgodClient,
+      store,
+      subscribe,
+      storage
+    })
 
     if (!options?.projectId) {
       this.logger.error('Missing required option: projectId')
@@ -333,7 +353,7 @@ export class WalletConnect extends BaseWallet {
 
     if (!caipAccounts.length) {
       this.logger.error('No accounts found!')
-      throw new Error('No accounts found!')
+      throw new UnauthorizedError('No accounts found!')
     }
 
     // @todo: Validate format of CAIP-10 accounts
@@ -389,7 +409,7 @@ export class WalletConnect extends BaseWallet {
     return network.caipChainId
   }
 
-  public connect = async (): Promise<WalletAccount[]> => {
+  protected doConnect = async (): Promise<WalletAccount[]> => {
     this.logger.info('Connecting...')
     try {
       const client = this.client || (await this.initializeClient())
@@ -425,7 +445,7 @@ export class WalletConnect extends BaseWallet {
     }
   }
 
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting...')
     try {
       this.onDisconnect()
@@ -445,7 +465,7 @@ export class WalletConnect extends BaseWallet {
     }
   }
 
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.walletKey]
@@ -473,6 +493,15 @@ export class WalletConnect extends BaseWallet {
     }
   }
 
+  protected mapError(error: unknown): WalletError {
+    const code =
+      typeof error === 'object' && error !== null && 'code' in error ? error.code : undefined
+    if (typeof code === 'number' && WC_USER_REJECTED_CODES.includes(code)) {
+      return new UserRejectedError((error as Error).message, { cause: error })
+    }
+    return toWalletError(error)
+  }
+
   private processTxns(
     txnGroup: algosdk.Transaction[],
     indexesToSign?: number[]
@@ -482,12 +511,19 @@ export class WalletConnect extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = this.addresses.includes(signer)
+      const authAddr = this.getAuthAddress(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn =
+        this.addresses.includes(signer) || this.addresses.includes(authAddr) || !!multisig
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push(
+          authAddr === signer
+            ? { txn: txnString, ...multisig }
+            : { txn: txnString, authAddr, ...multisig }
+        )
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -512,12 +548,20 @@ export class WalletConnect extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && this.addresses.includes(signer)
+      const authAddr = this.getAuthAddress(signer)
+      const multisig = this.getMultisigSigners(signer)
+      const canSignTxn =
+        !!multisig ||
+        (!isSigned && (this.addresses.includes(signer) || this.addresses.includes(authAddr)))
 
       const txnString = byteArrayToBase64(txn.toByte())
 
       if (isIndexMatch && canSignTxn) {
-        txnsToSign.push({ txn: txnString })
+        txnsToSign.push(
+          authAddr === signer
+            ? { txn: txnString, ...multisig }
+            : { txn: txnString, authAddr, ...multisig }
+        )
       } else {
         txnsToSign.push({ txn: txnString, signers: [] })
       }
@@ -526,7 +570,7 @@ export class WalletConnect extends BaseWallet {
     return txnsToSign
   }
 
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {
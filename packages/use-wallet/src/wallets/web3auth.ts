@@ -12,8 +12,8 @@
  */
 
 import algosdk from 'algosdk'
+import { SessionExpiredError, UserRejectedError } from 'src/errors'
 import { SecureKeyContainer, zeroMemory, deriveAlgorandAccountFromEd25519 } from 'src/secure-key'
-import { StorageAdapter } from 'src/storage'
 import { LOCAL_STORAGE_KEY, WalletState, addWallet, type State } from 'src/store'
 import { flattenTxnGroup, isSignedTxn, isTransactionArray } from 'src/utils'
 import { BaseWallet } from 'src/wallets/base'
@@ -22,7 +22,7 @@ import type { WalletAccount, WalletConstructor, WalletId } from 'src/wallets/typ
 
 const LOCAL_STORAGE_WEB3AUTH_KEY = `${LOCAL_STORAGE_KEY}:web3auth`
 
-/** Metadata persisted to localStorage for Web3Auth session restoration */
+/** Metadata persisted to storage for Web3Auth session restoration */
 interface Web3AuthMetadata {
   /** Whether the session was established using Single Factor Auth (SFA) vs modal */
   usingSFA: boolean
@@ -221,11 +221,12 @@ export class Web3AuthWallet extends BaseWallet {
     id,
     store,
     subscribe,
+    storage,
     getAlgodClient,
     options,
     metadata = {}
   }: WalletConstructor<WalletId.WEB3AUTH>) {
-    super({ id, metadata, getAlgodClient, store, subscribe })
+    super({ id, metadata, getAlgodClient, store, subscribe, storage })
 
     if (!options?.clientId) {
       this.logger.error('Missing required option: clientId')
@@ -240,8 +241,8 @@ export class Web3AuthWallet extends BaseWallet {
     this.store = store
   }
 
-  private loadMetadata(): Web3AuthMetadata | null {
-    const data = StorageAdapter.getItem(LOCAL_STORAGE_WEB3AUTH_KEY)
+  private async loadMetadata(): Promise<Web3AuthMetadata | null> {
+    const data = await this.storage.getItem(LOCAL_STORAGE_WEB3AUTH_KEY)
     if (!data) return null
     try {
       return JSON.parse(data) as Web3AuthMetadata
@@ -250,13 +251,13 @@ export class Web3AuthWallet extends BaseWallet {
     }
   }
 
-  private saveMetadata(): void {
+  private async saveMetadata(): Promise<void> {
     const metadata: Web3AuthMetadata = { usingSFA: this.usingSFA }
-    StorageAdapter.setItem(LOCAL_STORAGE_WEB3AUTH_KEY, JSON.stringify(metadata))
+    await this.storage.setItem(LOCAL_STORAGE_WEB3AUTH_KEY, JSON.stringify(metadata))
   }
 
-  private clearMetadata(): void {
-    StorageAdapter.removeItem(LOCAL_STORAGE_WEB3AUTH_KEY)
+  private async clearMetadata(): Promise<void> {
+    await this.storage.removeItem(LOCAL_STORAGE_WEB3AUTH_KEY)
   }
 
   static defaultMetadata = {
@@ -418,7 +419,7 @@ export class Web3AuthWallet extends BaseWallet {
     const provider = this.usingSFA ? this.web3authSFA?.provider : this.web3auth?.provider
 
     if (!provider) {
-      throw new Error('Web3Auth not connected')
+      throw new SessionExpiredError('Web3Auth not connected')
     }
 
     this.logger.debug('Fetching private key from Web3Auth...')
@@ -482,7 +483,7 @@ export class Web3AuthWallet extends BaseWallet {
    *   verifier: 'my-firebase-verifier'
    * })
    */
-  public connect = async (args?: {
+  protected doConnect = async (args?: {
     idToken?: string
     verifierId?: string
     verifier?: string
@@ -581,7 +582,7 @@ export class Web3AuthWallet extends BaseWallet {
       })
 
       // Save metadata only after successful connection
-      this.saveMetadata()
+      await this.saveMetadata()
 
       this.logger.info('Connected successfully', { address: this._address })
       return [walletAccount]
@@ -594,7 +595,7 @@ export class Web3AuthWallet extends BaseWallet {
   /**
    * Disconnect from Web3Auth
    */
-  public disconnect = async (): Promise<void> => {
+  protected doDisconnect = async (): Promise<void> => {
     this.logger.info('Disconnecting from Web3Auth...')
 
     try {
@@ -611,7 +612,7 @@ export class Web3AuthWallet extends BaseWallet {
     this._address = null
     this.userInfo = null
     this.usingSFA = false
-    this.clearMetadata()
+    await this.clearMetadata()
     this.onDisconnect()
 
     this.logger.info('Disconnected')
@@ -621,10 +622,10 @@ export class Web3AuthWallet extends BaseWallet {
    * Resume session from cached state
    *
    * LAZY AUTHENTICATION: We do NOT connect to Web3Auth here.
-   * We simply restore the cached address from localStorage.
+   * We simply restore the cached address from persisted state.
    * Web3Auth connection is deferred until signTransactions() is called.
    */
-  public resumeSession = async (): Promise<void> => {
+  protected doResumeSession = async (): Promise<void> => {
     try {
       const state = this.store.state
       const walletState = state.wallets[this.id]
@@ -647,7 +648,7 @@ export class Web3AuthWallet extends BaseWallet {
       this.userInfo = { name: storedAccount.name }
 
       // Restore usingSFA flag from metadata
-      const metadata = this.loadMetadata()
+      const metadata = await this.loadMetadata()
       if (metadata) {
         this.usingSFA = metadata.usingSFA
       }
@@ -716,7 +717,7 @@ export class Web3AuthWallet extends BaseWallet {
       // User is no longer authenticated with the identity provider (e.g., logged out of Firebase)
       this.logger.warn('Failed to get auth credentials, user may have logged out:', error.message)
       this.onDisconnect()
-      throw new Error('Authentication provider session expired. Please log in again.')
+      throw new SessionExpiredError('Authentication provider session expired. Please log in again.')
     }
 
     // Initialize SFA client if needed
@@ -748,7 +749,7 @@ export class Web3AuthWallet extends BaseWallet {
     }
 
     this.usingSFA = true
-    this.saveMetadata()
+    await this.saveMetadata()
 
     // Verify we got the same address (same user)
     await this.verifyAddressMatch()
@@ -777,11 +778,11 @@ export class Web3AuthWallet extends BaseWallet {
     const provider = await web3auth.connect()
 
     if (!provider) {
-      throw new Error('Re-authentication cancelled or failed')
+      throw new UserRejectedError('Re-authentication cancelled or failed')
     }
 
     this.usingSFA = false
-    this.saveMetadata()
+    await this.saveMetadata()
 
     // Get updated user info
     this.userInfo = await web3auth.getUserInfo()
@@ -840,7 +841,7 @@ export class Web3AuthWallet extends BaseWallet {
     txnGroup.forEach((txn, index) => {
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = signer === this._address
+      const canSignTxn = this.getAuthAddress(signer) === this._address
 
       if (isIndexMatch && canSignTxn) {
         txnsToSign.push(txn)
@@ -869,7 +870,7 @@ export class Web3AuthWallet extends BaseWallet {
 
       const isIndexMatch = !indexesToSign || indexesToSign.includes(index)
       const signer = txn.sender.toString()
-      const canSignTxn = !isSigned && signer === this._address
+      const canSignTxn = !isSigned && this.getAuthAddress(signer) === this._address
 
       if (isIndexMatch && canSignTxn) {
         txnsToSign.push(txn)
@@ -889,7 +890,7 @@ export class Web3AuthWallet extends BaseWallet {
    * and immediately cleared from memory. The key is never stored
    * between signing operations.
    */
-  public signTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
+  protected doSignTransactions = async <T extends algosdk.Transaction[] | Uint8Array[]>(
     txnGroup: T | T[],
     indexesToSign?: number[]
   ): Promise<(Uint8Array | null)[]> => {